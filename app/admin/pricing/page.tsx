@@ -0,0 +1,555 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Copy, Plus, Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useUser } from '@/contexts/user-context'
+import type { PricingComponent } from '@/lib/types/configuration'
+import type {
+  PricingRates,
+  PricingRule,
+  PricingRuleAction,
+  PricingRuleCondition,
+  PricingRuleField,
+  PricingRuleOperator,
+  PricingRuleSet
+} from '@/lib/types/pricing'
+import { getEffectiveRuleSet, loadPricingRuleSets, savePricingRuleSet } from '@/lib/utils/pricingRules'
+import { formatCurrency } from '@/lib/utils/quoteEngine'
+import type { ToolingKind } from '@/lib/types/tooling'
+import { TOOLING_KIND_LABELS } from '@/lib/utils/tooling'
+import { MACHINE_PROFILES } from '@/lib/utils/cycleTime'
+
+type FlatRate = Exclude<keyof PricingRates, 'machineRates' | 'finishingRates' | 'customDieCosts' | 'quantityDiscounts'>
+
+const RATE_FIELDS: Array<{ key: FlatRate; label: string }> = [
+  { key: 'consumablesPerBend', label: 'Bend consumables ($/bend)' },
+  { key: 'cuttingCostPerCut', label: 'Cutting ($/cut)' },
+  { key: 'laborRate', label: 'Labor ($/hr)' },
+  { key: 'timePerCut', label: 'Cut time (hr)' },
+  { key: 'dfmBendMultiplier', label: 'DFM bend multiplier' },
+  { key: 'toolingAmortizationParts', label: 'Die amortization (parts)' },
+  { key: 'rushRate', label: 'Rush fee (share)' },
+  { key: 'taxRate', label: 'Tax rate' }
+]
+
+const FIELD_OPTIONS: Array<{ value: PricingRuleField; label: string; numeric: boolean }> = [
+  { value: 'material', label: 'Material', numeric: false },
+  { value: 'outerDiameter', label: 'OD (in)', numeric: true },
+  { value: 'bendCount', label: 'Bend count', numeric: true },
+  { value: 'quantity', label: 'Quantity', numeric: true },
+  { value: 'customerTier', label: 'Customer tier', numeric: false },
+  { value: 'finish', label: 'Finish', numeric: false }
+]
+
+const OPERATOR_LABELS: Record<PricingRuleOperator, string> = {
+  'equals': 'is',
+  'not-equals': 'is not',
+  'at-least': 'at least',
+  'at-most': 'at most'
+}
+
+const COMPONENTS: PricingComponent[] = [
+  'material', 'bending', 'cutting', 'labor', 'machine', 'setup', 'tooling', 'finishing', 'tolerance', 'discount', 'rush'
+]
+
+interface RuleSetDraft {
+  rates: PricingRates
+  rules: PricingRule[]
+  effectiveFrom: string // yyyy-mm-dd
+  note: string
+}
+
+function toDraft(ruleSet: PricingRuleSet): RuleSetDraft {
+  return {
+    rates: structuredClone(ruleSet.rates),
+    rules: structuredClone(ruleSet.rules),
+    effectiveFrom: new Date().toISOString().slice(0, 10),
+    note: ''
+  }
+}
+
+function newRule(): PricingRule {
+  return {
+    id: typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `rule-${Date.now()}`,
+    name: 'New rule',
+    enabled: true,
+    conditions: [],
+    action: { type: 'multiply', component: 'bending', value: 1, per: 'order' }
+  }
+}
+
+function describeAction(action: PricingRuleAction): string {
+  const per = action.per === 'part' ? ' per part' : ''
+  switch (action.type) {
+    case 'add':
+      return `Add ${formatCurrency(action.value)}${per} to ${action.component}`
+    case 'multiply':
+      return `Multiply ${action.component} by ${action.value}`
+    case 'override':
+      return `Set ${action.component} to ${formatCurrency(action.value)}${per}`
+  }
+}
+
+export default function PricingRulesPage() {
+  const router = useRouter()
+  const { user, isLoading, isAuthenticated } = useUser()
+
+  const [ruleSets, setRuleSets] = useState<PricingRuleSet[]>([])
+  const [draft, setDraft] = useState<RuleSetDraft | null>(null)
+  const [baseVersion, setBaseVersion] = useState<number | null>(null)
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login')
+    }
+  }, [isLoading, isAuthenticated, router])
+
+  useEffect(() => {
+    const effective = getEffectiveRuleSet()
+    setRuleSets(loadPricingRuleSets())
+    setDraft(toDraft(effective))
+    setBaseVersion(effective.version)
+  }, [])
+
+  const activeVersion = useMemo(() => (ruleSets.length > 0 ? getEffectiveRuleSet().version : null), [ruleSets])
+  const nextVersion = ruleSets.reduce((max, set) => Math.max(max, set.version), 0) + 1
+
+  const editVersion = (ruleSet: PricingRuleSet) => {
+    setDraft(toDraft(ruleSet))
+    setBaseVersion(ruleSet.version)
+  }
+
+  const updateRates = (updates: Partial<PricingRates>) => {
+    setDraft(prev => prev && { ...prev, rates: { ...prev.rates, ...updates } })
+  }
+
+  const updateRule = (id: string, updates: Partial<PricingRule>) => {
+    setDraft(prev => prev && { ...prev, rules: prev.rules.map(rule => (rule.id === id ? { ...rule, ...updates } : rule)) })
+  }
+
+  const updateCondition = (rule: PricingRule, index: number, updates: Partial<PricingRuleCondition>) => {
+    updateRule(rule.id, {
+      conditions: rule.conditions.map((condition, i) => (i === index ? { ...condition, ...updates } : condition))
+    })
+  }
+
+  const saveVersion = () => {
+    if (!draft) return
+    savePricingRuleSet({
+      rates: draft.rates,
+      rules: draft.rules,
+      effectiveFrom: new Date(`${draft.effectiveFrom}T00:00:00`).toISOString(),
+      note: draft.note || undefined,
+      createdBy: user?.email
+    })
+    const sets = loadPricingRuleSets()
+    setRuleSets(sets)
+    setBaseVersion(sets[sets.length - 1].version)
+    setDraft(prev => prev && { ...prev, note: '' })
+  }
+
+  if (!user || !draft) {
+    return null
+  }
+
+  if (user.role !== 'admin') {
+    return (
+      <div className="max-w-xl mx-auto px-4 py-16">
+        <Alert variant="destructive">
+          <AlertDescription>Pricing rules are only available to administrators.</AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Header */}
+        <div>
+          <Link href="/user/dashboard" className="text-sm text-blue-600 hover:text-blue-700">
+            ← Back to dashboard
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-gray-900">Pricing Rules</h1>
+          <p className="mt-2 text-gray-600">
+            Edit shop rates and conditional pricing rules. Every save creates a new version that takes effect on its
+            effective date; quotes record the version they were priced with, so earlier quotes can be priced again exactly.
+          </p>
+        </div>
+
+        {/* Versions */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Versions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Effective from</TableHead>
+                  <TableHead>Saved</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="text-right">Rules</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...ruleSets].reverse().map((ruleSet) => {
+                  const scheduled = new Date(ruleSet.effectiveFrom) > new Date()
+                  return (
+                    <TableRow key={ruleSet.version}>
+                      <TableCell className="font-medium">
+                        v{ruleSet.version}
+                        {ruleSet.version === activeVersion && <Badge className="ml-2 bg-green-100 text-green-800">Active</Badge>}
+                        {scheduled && <Badge variant="secondary" className="ml-2">Scheduled</Badge>}
+                      </TableCell>
+                      <TableCell>{new Date(ruleSet.effectiveFrom).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {new Date(ruleSet.createdAt).toLocaleDateString()}
+                        {ruleSet.createdBy && <span className="text-xs text-gray-500"> • {ruleSet.createdBy}</span>}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{ruleSet.note ?? '—'}</TableCell>
+                      <TableCell className="text-right">{ruleSet.rules.length}</TableCell>
+                      <TableCell className="text-right">
+                        <Button type="button" variant="ghost" size="sm" onClick={() => editVersion(ruleSet)}>
+                          <Copy className="w-4 h-4" />
+                          Edit copy
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {/* Rates */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Rates {baseVersion !== null && <span className="text-sm font-normal text-gray-500">from v{baseVersion}</span>}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {RATE_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <Label htmlFor={key} className="text-sm">{label}</Label>
+                  <Input
+                    id={key}
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={draft.rates[key]}
+                    onChange={(e) => updateRates({ [key]: parseFloat(e.target.value) || 0 })}
+                    className="mt-1"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <div className="space-y-2">
+                <h4 className="font-semibold text-gray-900">Finishing ($/sq ft)</h4>
+                {Object.entries(draft.rates.finishingRates).map(([type, rate]) => (
+                  <div key={type} className="flex items-center justify-between gap-3">
+                    <Label className="text-sm capitalize">{type.replace('-', ' ')}</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={rate}
+                      onChange={(e) => updateRates({
+                        finishingRates: { ...draft.rates.finishingRates, [type]: parseFloat(e.target.value) || 0 }
+                      })}
+                      className="w-28"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold text-gray-900">Machine time ($/hr)</h4>
+                {MACHINE_PROFILES.map((machine) => (
+                  <div key={machine.id} className="flex items-center justify-between gap-3">
+                    <Label className="text-sm">{machine.name}</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={draft.rates.machineRates[machine.id] ?? 0}
+                      onChange={(e) => updateRates({
+                        machineRates: { ...draft.rates.machineRates, [machine.id]: parseFloat(e.target.value) || 0 }
+                      })}
+                      className="w-28"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold text-gray-900">Custom dies ($)</h4>
+                {(Object.entries(draft.rates.customDieCosts) as Array<[ToolingKind, number]>).map(([kind, cost]) => (
+                  <div key={kind} className="flex items-center justify-between gap-3">
+                    <Label className="text-sm">{TOOLING_KIND_LABELS[kind]}</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={cost}
+                      onChange={(e) => updateRates({
+                        customDieCosts: { ...draft.rates.customDieCosts, [kind]: parseFloat(e.target.value) || 0 }
+                      })}
+                      className="w-28"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold text-gray-900">Quantity discounts</h4>
+                {draft.rates.quantityDiscounts.map((tier, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Label className="text-sm whitespace-nowrap">From</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={tier.minQuantity}
+                      onChange={(e) => updateRates({
+                        quantityDiscounts: draft.rates.quantityDiscounts.map((candidate, i) =>
+                          i === index ? { ...candidate, minQuantity: parseInt(e.target.value) || 1 } : candidate
+                        )
+                      })}
+                      className="w-20"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      value={tier.discount}
+                      onChange={(e) => updateRates({
+                        quantityDiscounts: draft.rates.quantityDiscounts.map((candidate, i) =>
+                          i === index ? { ...candidate, discount: parseFloat(e.target.value) || 0 } : candidate
+                        )
+                      })}
+                      className="w-20"
+                    />
+                    <span className="text-sm text-gray-500">off</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Rules */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Rules</CardTitle>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft(prev => prev && { ...prev, rules: [...prev.rules, newRule()] })}
+            >
+              <Plus className="w-4 h-4" />
+              Add rule
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {draft.rules.length === 0 && (
+              <p className="text-sm text-gray-500">
+                No rules. Rules adjust a cost component when all of their conditions match the quote.
+              </p>
+            )}
+
+            {draft.rules.map((rule) => (
+              <div key={rule.id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <Switch checked={rule.enabled} onCheckedChange={(enabled) => updateRule(rule.id, { enabled })} />
+                  <Input value={rule.name} onChange={(e) => updateRule(rule.id, { name: e.target.value })} className="max-w-sm" />
+                  <span className="text-sm text-gray-500 flex-1">{describeAction(rule.action)}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft(prev => prev && { ...prev, rules: prev.rules.filter(candidate => candidate.id !== rule.id) })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                {/* Conditions */}
+                <div className="space-y-2">
+                  {rule.conditions.map((condition, index) => {
+                    const numeric = FIELD_OPTIONS.find(option => option.value === condition.field)?.numeric
+                    return (
+                      <div key={index} className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm text-gray-600 w-10">{index === 0 ? 'When' : 'and'}</span>
+                        <Select
+                          value={condition.field}
+                          onValueChange={(field) => updateCondition(rule, index, { field: field as PricingRuleField })}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {FIELD_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={condition.operator}
+                          onValueChange={(operator) => updateCondition(rule, index, { operator: operator as PricingRuleOperator })}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(OPERATOR_LABELS) as PricingRuleOperator[])
+                              .filter(operator => numeric || operator === 'equals' || operator === 'not-equals')
+                              .map(operator => (
+                                <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type={numeric ? 'number' : 'text'}
+                          step="any"
+                          value={condition.value}
+                          onChange={(e) => updateCondition(rule, index, {
+                            value: numeric ? parseFloat(e.target.value) || 0 : e.target.value
+                          })}
+                          className="w-40"
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateRule(rule.id, { conditions: rule.conditions.filter((_, i) => i !== index) })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )
+                  })}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateRule(rule.id, {
+                      conditions: [...rule.conditions, { field: 'quantity', operator: 'at-least', value: 1 }]
+                    })}
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add condition
+                  </Button>
+                </div>
+
+                {/* Action */}
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-gray-600 w-10">Then</span>
+                  <Select
+                    value={rule.action.type}
+                    onValueChange={(type) => updateRule(rule.id, { action: { ...rule.action, type: type as PricingRuleAction['type'] } })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="add">Add</SelectItem>
+                      <SelectItem value="multiply">Multiply</SelectItem>
+                      <SelectItem value="override">Override</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={rule.action.component}
+                    onValueChange={(component) => updateRule(rule.id, { action: { ...rule.action, component: component as PricingComponent } })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COMPONENTS.map(component => (
+                        <SelectItem key={component} value={component} className="capitalize">{component}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={rule.action.value}
+                    onChange={(e) => updateRule(rule.id, { action: { ...rule.action, value: parseFloat(e.target.value) || 0 } })}
+                    className="w-28"
+                  />
+                  {rule.action.type !== 'multiply' && (
+                    <Select
+                      value={rule.action.per}
+                      onValueChange={(per) => updateRule(rule.id, { action: { ...rule.action, per: per as PricingRuleAction['per'] } })}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="order">per order</SelectItem>
+                        <SelectItem value="part">per part</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Save */}
+        <Card>
+          <CardContent className="p-6 flex flex-wrap items-end gap-4">
+            <div>
+              <Label htmlFor="effectiveFrom" className="text-sm">Effective from</Label>
+              <Input
+                id="effectiveFrom"
+                type="date"
+                value={draft.effectiveFrom}
+                onChange={(e) => setDraft(prev => prev && { ...prev, effectiveFrom: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div className="flex-1 min-w-[200px]">
+              <Label htmlFor="note" className="text-sm">Note</Label>
+              <Input
+                id="note"
+                value={draft.note}
+                placeholder="What changed"
+                onChange={(e) => setDraft(prev => prev && { ...prev, note: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <Button
+              type="button"
+              onClick={saveVersion}
+              disabled={!draft.effectiveFrom}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              <Save className="w-4 h-4" />
+              Save as v{nextVersion}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
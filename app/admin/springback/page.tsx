@@ -0,0 +1,273 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Plus, RotateCcw, Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useUser } from '@/contexts/user-context'
+import {
+  SPRINGBACK_MATERIALS,
+  SpringbackTestBend,
+  calibrateCoefficient,
+  calculateSpringback,
+  getSpringbackMaterial,
+  loadSpringbackCalibration,
+  saveSpringbackCalibration
+} from '@/lib/utils/springback'
+
+const EMPTY_TEST_BEND = {
+  programmedAngle: '',
+  measuredAngle: '',
+  radius: '',
+  outerDiameter: '',
+  wallThickness: ''
+}
+
+export default function SpringbackCalibrationPage() {
+  const router = useRouter()
+  const { user, isLoading, isAuthenticated } = useUser()
+
+  const [materialId, setMaterialId] = useState(Object.keys(SPRINGBACK_MATERIALS)[0])
+  const [testBends, setTestBends] = useState<SpringbackTestBend[]>([])
+  const [draft, setDraft] = useState(EMPTY_TEST_BEND)
+  const [calibration, setCalibration] = useState<Record<string, number>>({})
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login')
+    }
+  }, [isLoading, isAuthenticated, router])
+
+  useEffect(() => {
+    setCalibration(loadSpringbackCalibration())
+  }, [])
+
+  const material = SPRINGBACK_MATERIALS[materialId]
+  const activeMaterial = useMemo(() => getSpringbackMaterial(materialId, calibration), [materialId, calibration])
+  const fittedCoefficient = useMemo(() => calibrateCoefficient(materialId, testBends), [materialId, testBends])
+
+  const addTestBend = () => {
+    const testBend: SpringbackTestBend = {
+      programmedAngle: parseFloat(draft.programmedAngle),
+      measuredAngle: parseFloat(draft.measuredAngle),
+      radius: parseFloat(draft.radius),
+      outerDiameter: parseFloat(draft.outerDiameter),
+      wallThickness: parseFloat(draft.wallThickness)
+    }
+    const { programmedAngle, measuredAngle, radius, outerDiameter, wallThickness } = testBend
+    const positive = [programmedAngle, measuredAngle, radius, outerDiameter, wallThickness]
+      .every(value => Number.isFinite(value) && value > 0)
+    // Angles past 180° and walls that fill the tube are typos
+    if (!positive || programmedAngle > 180 || measuredAngle > 180 || wallThickness * 2 >= outerDiameter) return
+
+    setTestBends(prev => [...prev, testBend])
+    setDraft(EMPTY_TEST_BEND)
+  }
+
+  const saveCoefficient = (coefficient: number | null) => {
+    saveSpringbackCalibration(materialId, coefficient)
+    setCalibration(loadSpringbackCalibration())
+  }
+
+  if (!user) {
+    return null
+  }
+
+  if (user.role !== 'admin') {
+    return (
+      <div className="max-w-xl mx-auto px-4 py-16">
+        <Alert variant="destructive">
+          <AlertDescription>Springback calibration is only available to administrators.</AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Header */}
+        <div>
+          <Link href="/user/dashboard" className="text-sm text-blue-600 hover:text-blue-700">
+            ← Back to dashboard
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-gray-900">Springback Calibration</h1>
+          <p className="mt-2 text-gray-600">
+            Fit the springback coefficient of each material from measured test bends. The coefficient scales
+            the elastic springback model used for overbend angles in bend tables and exports.
+          </p>
+        </div>
+
+        {/* Material */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Material</CardTitle>
+          </CardHeader>
+          <CardContent className="grid md:grid-cols-2 gap-6">
+            <div>
+              <Label className="text-base font-medium">Material</Label>
+              <Select
+                value={materialId}
+                onValueChange={(value) => {
+                  setMaterialId(value)
+                  setTestBends([])
+                }}
+              >
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SPRINGBACK_MATERIALS).map(([id, properties]) => (
+                    <SelectItem key={id} value={id}>
+                      {properties.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Yield strength:</span>
+                <span className="font-medium">{material.yieldStrength} MPa</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Elastic modulus:</span>
+                <span className="font-medium">{(material.elasticModulus / 1000).toFixed(1)} GPa</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Coefficient:</span>
+                <span className="font-medium">
+                  {activeMaterial?.coefficient.toFixed(3)}
+                  {calibration[materialId] !== undefined ? (
+                    <Badge className="ml-2 bg-green-100 text-green-800">Calibrated</Badge>
+                  ) : (
+                    <Badge variant="secondary" className="ml-2">Default</Badge>
+                  )}
+                </span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Test Bends */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Measured Test Bends</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+              {([
+                ['programmedAngle', 'Programmed (°)'],
+                ['measuredAngle', 'Measured (°)'],
+                ['radius', 'CLR (mm)'],
+                ['outerDiameter', 'OD (mm)'],
+                ['wallThickness', 'Wall (mm)']
+              ] as const).map(([key, label]) => (
+                <div key={key}>
+                  <Label htmlFor={key} className="text-sm">{label}</Label>
+                  <Input
+                    id={key}
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={draft[key]}
+                    onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                    className="mt-1"
+                  />
+                </div>
+              ))}
+              <Button type="button" onClick={addTestBend}>
+                <Plus className="w-4 h-4" />
+                Add
+              </Button>
+            </div>
+
+            {testBends.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">Programmed</TableHead>
+                    <TableHead className="text-right">Measured</TableHead>
+                    <TableHead className="text-right">CLR</TableHead>
+                    <TableHead className="text-right">OD</TableHead>
+                    <TableHead className="text-right">Wall</TableHead>
+                    <TableHead className="text-right">Model (fitted)</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {testBends.map((test, index) => {
+                    const predicted = fittedCoefficient !== null
+                      ? test.programmedAngle * (1 - calculateSpringback(
+                          test.programmedAngle,
+                          test.radius,
+                          test.outerDiameter,
+                          test.wallThickness,
+                          { ...material, coefficient: fittedCoefficient }
+                        ).ratio)
+                      : undefined
+                    return (
+                      <TableRow key={index}>
+                        <TableCell className="text-right">{test.programmedAngle.toFixed(1)}°</TableCell>
+                        <TableCell className="text-right">{test.measuredAngle.toFixed(1)}°</TableCell>
+                        <TableCell className="text-right">{test.radius.toFixed(1)}</TableCell>
+                        <TableCell className="text-right">{test.outerDiameter.toFixed(1)}</TableCell>
+                        <TableCell className="text-right">{test.wallThickness.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{predicted !== undefined ? `${predicted.toFixed(1)}°` : '—'}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setTestBends(prev => prev.filter((_, i) => i !== index))}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-3 pt-2 border-t">
+              <p className="text-sm text-gray-600">
+                Fitted coefficient:{' '}
+                <span className="font-medium">{fittedCoefficient !== null ? fittedCoefficient.toFixed(3) : '—'}</span>
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => saveCoefficient(null)}
+                  disabled={calibration[materialId] === undefined}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Reset to default
+                </Button>
+                <Button
+                  type="button"
+                  onClick={() => saveCoefficient(fittedCoefficient)}
+                  disabled={fittedCoefficient === null}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  <Save className="w-4 h-4" />
+                  Save calibration
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
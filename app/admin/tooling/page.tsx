@@ -0,0 +1,235 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Plus, RotateCcw, Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useUser } from '@/contexts/user-context'
+import type { ToolingItem, ToolingKind, ToolingRange } from '@/lib/types/tooling'
+import {
+  TOOLING_KIND_LABELS,
+  createToolingItem,
+  formatToolSize,
+  loadToolingCatalog,
+  saveToolingCatalog
+} from '@/lib/utils/tooling'
+
+const EMPTY_TOOL = {
+  outerDiameter: '',
+  clr: '',
+  minWall: '',
+  maxWall: ''
+}
+
+const formatRange = (range?: ToolingRange) => {
+  if (!range) return '—'
+  return range.min === range.max ? formatToolSize(range.min) : `${formatToolSize(range.min)}–${formatToolSize(range.max)}`
+}
+
+export default function ToolingCatalogPage() {
+  const router = useRouter()
+  const { user, isLoading, isAuthenticated } = useUser()
+
+  const [catalog, setCatalog] = useState<ToolingItem[]>([])
+  const [kind, setKind] = useState<ToolingKind>('bend-die')
+  const [draft, setDraft] = useState(EMPTY_TOOL)
+  const [dirty, setDirty] = useState(false)
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/auth/login')
+    }
+  }, [isLoading, isAuthenticated, router])
+
+  useEffect(() => {
+    setCatalog(loadToolingCatalog())
+  }, [])
+
+  const updateCatalog = (next: ToolingItem[]) => {
+    setCatalog(next)
+    setDirty(true)
+  }
+
+  const addTool = () => {
+    const od = parseFloat(draft.outerDiameter)
+    const clr = parseFloat(draft.clr)
+    const minWall = parseFloat(draft.minWall)
+    const maxWall = parseFloat(draft.maxWall)
+    if (!(od > 0)) return
+    if ((kind === 'bend-die' || kind === 'wiper-die') && !(clr > 0)) return
+    if (kind === 'mandrel' && !(minWall > 0 && maxWall >= minWall)) return
+
+    const tool = createToolingItem(kind, od, { clr, minWall, maxWall })
+    if (catalog.some(item => item.id === tool.id)) return
+    updateCatalog([...catalog, tool])
+    setDraft(EMPTY_TOOL)
+  }
+
+  const save = (next: ToolingItem[] | null) => {
+    saveToolingCatalog(next)
+    setCatalog(loadToolingCatalog())
+    setDirty(false)
+  }
+
+  if (!user) {
+    return null
+  }
+
+  if (user.role !== 'admin') {
+    return (
+      <div className="max-w-xl mx-auto px-4 py-16">
+        <Alert variant="destructive">
+          <AlertDescription>The tooling catalog is only available to administrators.</AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  const kinds = Object.keys(TOOLING_KIND_LABELS) as ToolingKind[]
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Header */}
+        <div>
+          <Link href="/user/dashboard" className="text-sm text-blue-600 hover:text-blue-700">
+            ← Back to dashboard
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-gray-900">Tooling Catalog</h1>
+          <p className="mt-2 text-gray-600">
+            The dies and mandrels the shop owns. Quotes match every bend to this catalog; bends without a
+            matching tool are charged a custom die and customers are offered the closest CLR we own.
+          </p>
+        </div>
+
+        {/* Add Tool */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Tool</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+              <div className="col-span-2">
+                <Label className="text-sm">Type</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as ToolingKind)}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {kinds.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {TOOLING_KIND_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {([
+                ['outerDiameter', 'OD (in)', true],
+                ['clr', 'CLR (in)', kind === 'bend-die' || kind === 'wiper-die'],
+                ['minWall', 'Min wall (in)', kind === 'mandrel'],
+                ['maxWall', 'Max wall (in)', kind === 'mandrel']
+              ] as const).filter(([, , shown]) => shown).map(([key, label]) => (
+                <div key={key}>
+                  <Label htmlFor={key} className="text-sm">{label}</Label>
+                  <Input
+                    id={key}
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={draft[key]}
+                    onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                    className="mt-1"
+                  />
+                </div>
+              ))}
+              <Button type="button" onClick={addTool}>
+                <Plus className="w-4 h-4" />
+                Add
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Catalog */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Tools
+              <Badge variant="secondary">{catalog.length}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tool</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">OD</TableHead>
+                  <TableHead className="text-right">CLR</TableHead>
+                  <TableHead className="text-right">Wall</TableHead>
+                  <TableHead className="text-center">Available</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {kinds.flatMap((value) => catalog.filter((item) => item.kind === value)).map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">{item.name}</TableCell>
+                    <TableCell>{TOOLING_KIND_LABELS[item.kind]}</TableCell>
+                    <TableCell className="text-right">{formatRange(item.outerDiameter)}</TableCell>
+                    <TableCell className="text-right">{formatRange(item.clr)}</TableCell>
+                    <TableCell className="text-right">{formatRange(item.wallThickness)}</TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={item.available}
+                        onCheckedChange={(available) => updateCatalog(
+                          catalog.map((candidate) => candidate.id === item.id ? { ...candidate, available } : candidate)
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateCatalog(catalog.filter((candidate) => candidate.id !== item.id))}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex flex-wrap items-center justify-end gap-2 pt-2 border-t">
+              <Button type="button" variant="outline" onClick={() => save(null)}>
+                <RotateCcw className="w-4 h-4" />
+                Reset to default
+              </Button>
+              <Button
+                type="button"
+                onClick={() => save(catalog)}
+                disabled={!dirty}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                <Save className="w-4 h-4" />
+                Save catalog
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { Line } from '@react-three/drei'
+import { DEFAULT_BENDER_MODEL, getObstacleBoxes } from '@/lib/utils/bendSimulation'
+import type { BenderModel, CollisionResult } from '@/lib/types/simulation'
+
+interface BendSimulationViewProps {
+  result: CollisionResult
+  outerDiameter: number
+  model?: BenderModel
+}
+
+const SCENE_SIZE = 10 // scene units spanned by the tube pose
+const OBSTACLE_COLOR = '#94A3B8'
+
+/**
+ * Colliding state of a bend simulation: tooling, floor and the tube centerline in the
+ * machine frame (Z up), scaled to the viewer.
+ */
+export default function BendSimulationView({ result, outerDiameter, model = DEFAULT_BENDER_MODEL }: BendSimulationViewProps) {
+  const pose = result.pose
+  const radius = result.radius ?? outerDiameter * 2
+  const tailLength = result.tailLength ?? 0
+  const bendAngle = result.phase === 'bend' ? result.angle ?? 0 : 0
+
+  const scale = useMemo(() => {
+    if (!pose) return 1
+    const extent = Math.max(
+      ...[...pose.lead, ...pose.tail].map(p => Math.max(Math.abs(p.x), Math.abs(p.y), Math.abs(p.z))),
+      radius
+    )
+    return SCENE_SIZE / (2 * extent)
+  }, [pose, radius])
+
+  const boxes = useMemo(
+    () => getObstacleBoxes(model, radius, outerDiameter, bendAngle, tailLength),
+    [model, radius, outerDiameter, bendAngle, tailLength]
+  )
+
+  if (!pose) return null
+
+  return (
+    <group rotation={[-Math.PI / 2, 0, 0]} scale={[scale, scale, scale]}>
+      {/* Bend die and head around the die axis */}
+      <mesh position={[0, radius, 0]} rotation={[Math.PI / 2, 0, 0]}>
+        <cylinderGeometry args={[radius, radius, model.dieHeight, 48]} />
+        <meshStandardMaterial color={result.obstacle === 'bend-die' ? '#EF4444' : OBSTACLE_COLOR} transparent opacity={0.5} />
+      </mesh>
+      <mesh
+        position={[0, radius, -model.dieHeight / 2 - model.bendHead.depth / 2]}
+        rotation={[Math.PI / 2, 0, 0]}
+      >
+        <cylinderGeometry args={[model.bendHead.radius, model.bendHead.radius, model.bendHead.depth, 48]} />
+        <meshStandardMaterial color={result.obstacle === 'bend-head' ? '#EF4444' : OBSTACLE_COLOR} transparent opacity={0.3} />
+      </mesh>
+
+      {/* Clamp die, pressure die and carriage */}
+      {boxes.map(box => (
+        <mesh key={box.obstacle} position={[box.center.x, box.center.y, box.center.z]} rotation={[0, 0, box.rotationZ]}>
+          <boxGeometry args={[box.size.x, box.size.y, box.size.z]} />
+          <meshStandardMaterial color={result.obstacle === box.obstacle ? '#EF4444' : OBSTACLE_COLOR} transparent opacity={0.5} />
+        </mesh>
+      ))}
+
+      {/* Floor */}
+      <mesh position={[0, 0, -model.floorHeight]}>
+        <planeGeometry args={[SCENE_SIZE / scale, SCENE_SIZE / scale]} />
+        <meshStandardMaterial color={result.obstacle === 'floor' ? '#FCA5A5' : '#E5E7EB'} transparent opacity={0.4} />
+      </mesh>
+
+      {/* Tube centerline */}
+      <Line points={pose.lead.map(p => [p.x, p.y, p.z] as [number, number, number])} color="#2563EB" lineWidth={3} />
+      <Line points={pose.tail.map(p => [p.x, p.y, p.z] as [number, number, number])} color="#2563EB" lineWidth={3} />
+
+      {/* Collision point */}
+      {result.point && (
+        <mesh position={[result.point.x, result.point.y, result.point.z]}>
+          <sphereGeometry args={[outerDiameter, 16, 16]} />
+          <meshStandardMaterial color="#DC2626" />
+        </mesh>
+      )}
+    </group>
+  )
+}
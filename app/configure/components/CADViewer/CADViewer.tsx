@@ -1,15 +1,24 @@
 'use client'
 
-import React, { useState, useCallback } from 'react'
+import React, { useState, useCallback, useRef, useMemo } from 'react'
+import { Vector3 } from 'three'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
-import { Loader2, RotateCcw, Download, Eye, EyeOff, Play, Pause } from 'lucide-react'
+import { Progress } from '@/components/ui/progress'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { Loader2, RotateCcw, Download, Eye, EyeOff, Play, Pause, X, AlertTriangle } from 'lucide-react'
 import ThreeScene from './ThreeScene'
 import TubeGeometry from './TubeGeometry'
 import CADFileGeometry from './CADFileGeometry'
-import { parseCADFile, isSupportedFile } from '@/lib/utils/cadFileParser'
-import type { Material } from '@/lib/types/configuration'
+import BendSimulationView from './BendSimulationView'
+import { isSupportedFile, ParseCancelledError } from '@/lib/utils/cadFileParser'
+import { sweepCenterline } from '@/lib/utils/wireframe'
+import { exportTubeModel, TUBE_MODEL_FORMATS, TubeModelFormat, TubeModelInput } from '@/lib/utils/tubeExport'
+import { parseCADFileInWorker, PARSE_STAGE_LABELS } from '@/lib/utils/cadParserClient'
+import type { ParseProgress } from '@/lib/types/parser'
+import type { Material, TubeProfile } from '@/lib/types/configuration'
+import type { CollisionResult } from '@/lib/types/simulation'
 
 interface CADViewerProps {
   file?: File
@@ -18,17 +27,23 @@ interface CADViewerProps {
     diameter: number
     wallThickness: number
     length: number
+    profile?: TubeProfile
+    height?: number
   }
   className?: string
   interactive?: boolean
   onBendingChange?: (bends: any[]) => void
   onParsingComplete?: (analysis: any) => void
+  collision?: { result: CollisionResult; outerDiameter: number } // bend simulation to show instead of the part
+  centerlineDiameter?: number // mm, stock OD swept along a wireframe centerline
+  units?: string // units confirmed for files that carry none; changing them re-parses the file
 }
 
 interface ViewState {
   showWireframe: boolean
   showBounds: boolean
   autoRotate: boolean
+  showCollision: boolean
 }
 
 export default function CADViewer({ 
@@ -38,21 +53,56 @@ export default function CADViewer({
   className, 
   interactive = false,
   onBendingChange,
-  onParsingComplete
+  onParsingComplete,
+  collision,
+  centerlineDiameter,
+  units
 }: CADViewerProps) {
   const [loading, setLoading] = useState(false)
+  const [progress, setProgress] = useState<ParseProgress | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
   const [parsedGeometry, setParsedGeometry] = useState<any>(null)
   const [viewState, setViewState] = useState<ViewState>({
     showWireframe: false,
     showBounds: false,
     autoRotate: true, // Always enable auto-rotate for view-only mode
+    showCollision: false,
   })
+  const showingCollision = viewState.showCollision && !!collision?.result.collided
 
-  const handleFileLoad = useCallback(async (file: File) => {
+  // Wireframe centerlines are re-swept when the customer picks another stock OD
+  const displayedGeometry = useMemo(() => {
+    const centerline = parsedGeometry?.analysis?.centerline
+    if (!centerline || !centerlineDiameter) return parsedGeometry
+    const points = centerline.points.map((p: { x: number; y: number; z: number }) => new Vector3(p.x, p.y, p.z))
+    const geometry = sweepCenterline(points, (centerlineDiameter / 2) * centerline.displayScale)
+    geometry.computeBoundingBox()
+    return { ...parsedGeometry, meshes: [{ geometry }] }
+  }, [parsedGeometry, centerlineDiameter])
+
+  // Clean swept solid of the reconstructed tube; round tubes with a bend table only
+  const tubeModel = useMemo((): TubeModelInput | null => {
+    const analysis = parsedGeometry?.analysis
+    const crossSection = analysis?.crossSection
+    if (!analysis?.bendTable || (crossSection && crossSection.shape !== 'round')) return null
+    const outerDiameter = centerlineDiameter ?? crossSection?.outerDiameter
+    if (!outerDiameter) return null
+    return {
+      name: file?.name.replace(/\.[^.]+$/, '') || 'tube',
+      table: analysis.bendTable,
+      outerDiameter,
+      wallThickness: crossSection?.innerDiameter ? crossSection.wallThickness : 0,
+      color: material?.properties?.color
+    }
+  }, [parsedGeometry, centerlineDiameter, file, material])
+
+  const handleFileLoad = useCallback(async (file: File, signal: AbortSignal) => {
     if (!file) return
 
     setLoading(true)
+    setProgress(null)
     setError(null)
     setParsedGeometry(null)
 
@@ -65,10 +115,13 @@ export default function CADViewer({
 
       console.log('Parsing CAD file:', file.name)
       
-      // Parse the CAD file
-      const geometry = await parseCADFile(file, {
+      // Parse the CAD file in a worker so the page stays responsive
+      const geometry = await parseCADFileInWorker(file, {
         scale: 1,
-        centerGeometry: true
+        centerGeometry: true,
+        units,
+        onProgress: setProgress,
+        signal
       })
 
       setParsedGeometry(geometry)
@@ -80,12 +133,26 @@ export default function CADViewer({
       }
       
     } catch (err) {
+      if (err instanceof ParseCancelledError) {
+        // A newer file or an explicit cancel took over; only report the explicit cancel
+        if (abortControllerRef.current?.signal === signal) {
+          setError('Parsing cancelled')
+        }
+        return
+      }
       console.error('Error loading CAD file:', err)
       setError(err instanceof Error ? err.message : 'Failed to load CAD file')
     } finally {
-      setLoading(false)
+      if (abortControllerRef.current?.signal === signal) {
+        setLoading(false)
+        setProgress(null)
+      }
     }
-  }, [])
+  }, [units])
+
+  const cancelParsing = () => {
+    abortControllerRef.current?.abort()
+  }
 
   const resetCamera = () => {
     // Force re-render by updating a key or trigger camera reset
@@ -97,16 +164,36 @@ export default function CADViewer({
     }, 100)
   }
 
-  const exportScreenshot = () => {
-    // Screenshot export will be implemented
-    console.log('Exporting screenshot')
+  const exportModel = async (format: TubeModelFormat) => {
+    if (!tubeModel) return
+    setExportError(null)
+    try {
+      const model = await exportTubeModel(tubeModel, format)
+      const blob = new Blob([model.content], { type: model.mimeType })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = model.fileName
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Error exporting tube model:', err)
+      setExportError(err instanceof Error ? err.message : 'Failed to export model')
+    }
   }
 
 
   React.useEffect(() => {
-    if (file) {
-      handleFileLoad(file)
-    }
+    if (!file) return
+
+    // Abort any parse still running for the previous file
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    handleFileLoad(file, controller.signal)
+
+    return () => controller.abort()
   }, [file, handleFileLoad])
 
   return (
@@ -133,15 +220,44 @@ export default function CADViewer({
               {viewState.autoRotate ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
               {viewState.autoRotate ? 'Stop' : 'Rotate'}
             </Button>
+            {collision?.result.collided && (
+              <Button
+                type="button"
+                variant={viewState.showCollision ? 'destructive' : 'outline'}
+                size="sm"
+                onClick={() => setViewState(prev => ({ ...prev, showCollision: !prev.showCollision }))}
+              >
+                <AlertTriangle className="w-4 h-4" />
+                {viewState.showCollision ? 'Part' : 'Collision'}
+              </Button>
+            )}
           </div>
           <div className="flex items-center space-x-2">
             <Button type="button" variant="outline" size="sm" onClick={resetCamera}>
               Reset View
             </Button>
-            <Button type="button" variant="outline" size="sm" onClick={exportScreenshot}>
-              <Download className="w-4 h-4" />
-              Export
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={!tubeModel}
+                  title={tubeModel ? 'Download the reconstructed tube' : 'Available once a round tube centerline is detected'}
+                >
+                  <Download className="w-4 h-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {(Object.keys(TUBE_MODEL_FORMATS) as TubeModelFormat[]).map((format) => (
+                  <DropdownMenuItem key={format} onSelect={() => exportModel(format)}>
+                    <Download className="w-4 h-4 mr-2" />
+                    {TUBE_MODEL_FORMATS[format].label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
 
@@ -149,9 +265,20 @@ export default function CADViewer({
         <div className="relative">
           {loading && (
             <div className="absolute inset-0 z-10 flex items-center justify-center bg-white/80">
-              <div className="flex items-center space-x-2">
-                <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
-                <span className="text-sm text-gray-600">Loading CAD file...</span>
+              <div className="w-64 space-y-3">
+                <div className="flex items-center space-x-2">
+                  <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+                  <span className="text-sm text-gray-600">
+                    {progress ? `${PARSE_STAGE_LABELS[progress.stage]}...` : 'Loading CAD file...'}
+                  </span>
+                </div>
+                <Progress value={(progress?.progress ?? 0) * 100} />
+                <div className="flex justify-center">
+                  <Button type="button" variant="outline" size="sm" onClick={cancelParsing}>
+                    <X className="w-4 h-4" />
+                    Cancel
+                  </Button>
+                </div>
               </div>
             </div>
           )}
@@ -164,6 +291,14 @@ export default function CADViewer({
             </div>
           )}
 
+          {exportError && (
+            <div className="p-4">
+              <Alert variant="destructive">
+                <AlertDescription>{exportError}</AlertDescription>
+              </Alert>
+            </div>
+          )}
+
           <div className="aspect-square bg-white">
             <ThreeScene
               autoRotate={viewState.autoRotate}
@@ -175,6 +310,8 @@ export default function CADViewer({
               {!file && tubeSpecs && material && (
                 <TubeGeometry
                   diameter={tubeSpecs.diameter}
+                  height={tubeSpecs.height}
+                  profile={tubeSpecs.profile}
                   wallThickness={tubeSpecs.wallThickness}
                   length={tubeSpecs.length}
                   material={material}
@@ -184,9 +321,13 @@ export default function CADViewer({
               )}
               
               {/* Render parsed CAD file geometry */}
-              {file && !error && (
+              {showingCollision && (
+                <BendSimulationView result={collision!.result} outerDiameter={collision!.outerDiameter} />
+              )}
+
+              {file && !error && !showingCollision && (
                 <CADFileGeometry
-                  parsedGeometry={parsedGeometry}
+                  parsedGeometry={displayedGeometry}
                   material={material || { id: 'steel', name: 'Steel', properties: { density: 7850, tensile_strength: 400, color: '#8C8C8C' } }}
                   wireframe={viewState.showWireframe}
                   animated={viewState.autoRotate}
@@ -225,8 +366,14 @@ export default function CADViewer({
                 {tubeSpecs && (
                   <>
                     <div>
-                      <span className="font-medium text-gray-700">Diameter:</span>
-                      <span className="ml-2 text-gray-600">{tubeSpecs.diameter}mm</span>
+                      <span className="font-medium text-gray-700">
+                        {tubeSpecs.profile && tubeSpecs.profile !== 'round' ? 'Size:' : 'Diameter:'}
+                      </span>
+                      <span className="ml-2 text-gray-600">
+                        {tubeSpecs.profile && tubeSpecs.profile !== 'round'
+                          ? `${tubeSpecs.diameter} × ${tubeSpecs.height ?? tubeSpecs.diameter}mm`
+                          : `${tubeSpecs.diameter}mm`}
+                      </span>
                     </div>
                     <div>
                       <span className="font-medium text-gray-700">Length:</span>
@@ -2,8 +2,8 @@
 
 import React, { useRef, useMemo } from 'react'
 import { useFrame } from '@react-three/fiber'
-import { Mesh, TubeGeometry as ThreeTubeGeometry, CatmullRomCurve3, Vector3 } from 'three'
-import type { Material } from '@/lib/types/configuration'
+import { Mesh, TubeGeometry as ThreeTubeGeometry, ExtrudeGeometry, BufferGeometry, CatmullRomCurve3, Shape, Vector3 } from 'three'
+import type { Material, TubeProfile } from '@/lib/types/configuration'
 
 interface BendPoint {
   id: string
@@ -14,7 +14,9 @@ interface BendPoint {
 
 
 interface TubeGeometryProps {
-  diameter?: number
+  diameter?: number // width for non-round profiles
+  height?: number // non-round profiles only, defaults to diameter
+  profile?: TubeProfile
   wallThickness?: number
   length?: number
   material?: Material
@@ -87,6 +89,20 @@ function generateTubePath(length: number, bends: BendPoint[] = []): CatmullRomCu
   return new CatmullRomCurve3(points)
 }
 
+function generateProfileShape(profile: TubeProfile, width: number, height: number): Shape {
+  const shape = new Shape()
+  if (profile === 'oval') {
+    shape.absellipse(0, 0, width / 2, height / 2, 0, Math.PI * 2, false, 0)
+  } else {
+    shape.moveTo(-width / 2, -height / 2)
+    shape.lineTo(width / 2, -height / 2)
+    shape.lineTo(width / 2, height / 2)
+    shape.lineTo(-width / 2, height / 2)
+    shape.closePath()
+  }
+  return shape
+}
+
 function getMaterialProperties(material: Material) {
   return {
     color: material.properties.color,
@@ -99,6 +115,8 @@ function getMaterialProperties(material: Material) {
 
 export default function TubeGeometry({
   diameter = 25.4,
+  height,
+  profile = 'round',
   wallThickness = 2,
   length = 1000,
   material,
@@ -119,23 +137,30 @@ export default function TubeGeometry({
     // Convert mm to meters for Three.js (scale down)
     const scaledLength = length / 1000
     const scaledDiameter = diameter / 1000
+    const scaledHeight = (profile === 'square' ? diameter : height ?? diameter) / 1000
     
     const tubePath = generateTubePath(scaledLength, displayBends)
     
-    // Create tube geometry
-    const tubeGeometry = new ThreeTubeGeometry(
-      tubePath,
-      64, // path segments
-      scaledDiameter / 2, // radius
-      16, // radial segments
-      false // closed
-    )
+    // Create tube geometry; non-round profiles are swept along the same path
+    const tubeGeometry: BufferGeometry = profile === 'round'
+      ? new ThreeTubeGeometry(
+          tubePath,
+          64, // path segments
+          scaledDiameter / 2, // radius
+          16, // radial segments
+          false // closed
+        )
+      : new ExtrudeGeometry(generateProfileShape(profile, scaledDiameter, scaledHeight), {
+          steps: 64,
+          bevelEnabled: false,
+          extrudePath: tubePath
+        })
     
     return {
       curve: tubePath,
       geometry: tubeGeometry
     }
-  }, [length, diameter, displayBends])
+  }, [length, diameter, height, profile, displayBends])
   
   // Animation
   useFrame((state) => {
@@ -9,10 +9,18 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
 import { Form } from '@/components/ui/form'
+import { useUser } from '@/contexts/user-context'
 
-import { ConfigurationState, ConfigurationStep } from '@/lib/types/configuration'
+import { ConfigurationState, ConfigurationStep, PricingBreakdown } from '@/lib/types/configuration'
+import type { AssemblyTubeLine } from '@/lib/types/geometry'
+import type { QuoteLine } from '@/lib/types/orders'
 import { configurationSchema, ConfigurationFormData } from '@/lib/schemas/configuration'
-import { calculateQuote } from '@/lib/utils/quoteCalculator'
+import { calculateQuote, getSelectedTube } from '@/lib/utils/quoteEngine'
+import { getCustomerTier } from '@/lib/utils/pricingRules'
+import { toBendRequirements } from '@/lib/utils/bendTable'
+import { parseProfileSize } from '@/lib/utils/pricing'
+import { applySpringback } from '@/lib/utils/springback'
+import { calculateCutLength } from '@/lib/utils/cutLength'
 
 import FileUploadStep from './FileUploadStep'
 import MaterialSelectionModal from './MaterialSelectionModal'
@@ -63,22 +71,40 @@ const initialState: ConfigurationState = {
   pricing: {
     materialCost: 0,
     bendingCost: 0,
+    cuttingCost: 0,
+    laborCost: 0,
+    machineCost: 0,
     finishingCost: 0,
+    toleranceCost: 0,
     setupCost: 0,
+    discount: 0,
+    toolingCost: 0,
     rushFee: 0,
     subtotal: 0,
+    taxRate: 0,
     tax: 0,
     total: 0,
-    leadTime: '3-5 days'
+    pricePerPart: 0,
+    leadTime: '3-5 days',
+    ruleSetVersion: 0,
+    engineVersion: 0,
+    lineItems: [],
+    details: {
+      materialWeight: 0,
+      cutLength: 0,
+      laborHours: 0,
+      machineHours: 0
+    }
   },
   isComplete: false
 }
 
 export default function ConfigurationWizard() {
+  const { user } = useUser()
   const [state, setState] = useState<ConfigurationState>(initialState)
   const [showMaterialModal, setShowMaterialModal] = useState(false)
   const [materialSelection, setMaterialSelection] = useState<any>(null)
-  const [quote, setQuote] = useState<any>(null)
+  const [quoteLines, setQuoteLines] = useState<QuoteLine[] | null>(null)
   const [fileAnalysis, setFileAnalysis] = useState<any>(null)
   const [preloadedFile, setPreloadedFile] = useState<File | null>(null)
   
@@ -97,6 +123,32 @@ export default function ConfigurationWizard() {
       originalUnits
     }
   }, [fileAnalysis])
+
+  // Analyzed files cannot be quoted until their units are settled (accepted, confirmed or overridden)
+  const unitsPending = !!fileAnalysis?.unitDetection && !state.fileUpload.unitConfirmation
+
+  // Bend table with springback-compensated machine angles for the selected material
+  const compensatedBendTable = useMemo(() => {
+    if (!fileAnalysis?.bendTable || !materialSelection) {
+      return fileAnalysis?.bendTable
+    }
+    return applySpringback(
+      fileAnalysis.bendTable,
+      getSelectedTube(fileAnalysis.crossSection, state.materialSelection.tubeSpec),
+      state.materialSelection.materialId
+    )
+  }, [fileAnalysis, materialSelection, state.materialSelection])
+
+  // Blank sawn from stock for the selected tube and material
+  const cutLength = useMemo(() => {
+    if (!fileAnalysis || !lengthMeasurements || !materialSelection) return null
+    return calculateCutLength(
+      lengthMeasurements.lengthMm,
+      fileAnalysis.bendTable,
+      getSelectedTube(fileAnalysis.crossSection, state.materialSelection.tubeSpec),
+      state.materialSelection.materialId
+    )
+  }, [fileAnalysis, lengthMeasurements, materialSelection, state.materialSelection])
   
   const form = useForm<ConfigurationFormData>({
     resolver: zodResolver(configurationSchema),
@@ -156,23 +208,9 @@ export default function ConfigurationWizard() {
     setState(prev => ({ ...prev, ...updates }))
   }, [])
 
-  const calculateAndUpdatePricing = useCallback(() => {
-    const { materialSelection, specifications } = state
-    
-    if (materialSelection.materialId && materialSelection.tubeSpec.diameter) {
-      try {
-        // This function would be implemented to bridge to calculateQuote
-        console.log('calculatePricing called with:', materialSelection, specifications)
-        // const pricing = calculatePricing(materialSelection.materialId, materialSelection.tubeSpec, specifications)
-        // updateState({ pricing })
-      } catch (error) {
-        console.error('Pricing calculation error:', error)
-      }
-    }
-  }, [state, updateState])
-
   const nextStep = useCallback(async () => {
     if (currentStepId === 'upload' && state.fileUpload.isValid) {
+      if (unitsPending) return
       // Show material selection modal instead of going to next step
       setShowMaterialModal(true)
       return
@@ -182,7 +220,7 @@ export default function ConfigurationWizard() {
       const newStep = state.currentStep + 1
       updateState({ currentStep: newStep })
     }
-  }, [currentStepId, state.fileUpload.isValid, state.currentStep, updateState])
+  }, [currentStepId, state.fileUpload.isValid, unitsPending, state.currentStep, updateState])
 
   const prevStep = useCallback(() => {
     if (state.currentStep > 0) {
@@ -212,48 +250,94 @@ export default function ConfigurationWizard() {
     console.log('🏗️ Material selected:', selection)
     setMaterialSelection(selection)
     
-    // Calculate quote
+    // Price the configured part; every price shown from here on is this quote
     if (fileAnalysis && lengthMeasurements) {
       const { lengthMm, lengthInches, originalUnits } = lengthMeasurements
       console.log('📏 Length conversion:', { lengthMm, originalUnits, lengthInches })
 
-      const quoteInputs = {
-        material: selection.material,
-        quantity: selection.quantity,
-        gauge: selection.gauge,
-        length: lengthInches,
-        bends: fileAnalysis.estimatedBends,
-        cuts: fileAnalysis.estimatedCuts
+      const size = selection.outerDiameter ? parseProfileSize(selection.outerDiameter) : null
+      const configuration: ConfigurationState = {
+        ...state,
+        materialSelection: {
+          materialId: selection.material.id,
+          tubeSpec: {
+            profile: selection.profile,
+            diameter: selection.outerDiameter ?? '',
+            height: size ? `${size.height}"` : undefined,
+            wallThickness: selection.gauge,
+            length: lengthInches
+          }
+        },
+        specifications: selection.specifications
+      }
+      const pricing: PricingBreakdown = calculateQuote(configuration, fileAnalysis, { customerTier: getCustomerTier(user) })
+
+      // Assemblies are priced line by line, in the order of the analysis tube lines
+      const tubeLines: AssemblyTubeLine[] = fileAnalysis.assembly?.tubeLines ?? []
+      if (pricing.lines) {
+        const lines: QuoteLine[] = pricing.lines.map((line, index) => {
+          const tubeLine = tubeLines[index]
+          const lineTube = getSelectedTube(tubeLine.crossSection, configuration.materialSelection.tubeSpec)
+          return {
+            name: line.name,
+            quantityPerAssembly: line.quantityPerAssembly,
+            lengthMm: tubeLine.totalLength,
+            lengthInches: tubeLine.totalLength / 25.4,
+            cutLengthMm: line.pricing.details.cutLength,
+            bends: tubeLine.estimatedBends,
+            cuts: tubeLine.estimatedCuts,
+            bendRequirements: tubeLine.bendTable
+              ? toBendRequirements(
+                  applySpringback(tubeLine.bendTable, lineTube, selection.material.id),
+                  line.pricing.dfm
+                )
+              : undefined,
+            quote: line.pricing
+          }
+        })
+        console.log('🧩 Assembly quote lines:', lines)
+        setQuoteLines(lines)
+      } else {
+        setQuoteLines(null)
       }
-      
-      const calculatedQuote = calculateQuote(quoteInputs)
-      setQuote(calculatedQuote)
       
       // Move to quote step
-      updateState({ currentStep: 1 })
+      updateState({
+        materialSelection: configuration.materialSelection,
+        specifications: configuration.specifications,
+        pricing,
+        currentStep: 1
+      })
     }
-  }, [fileAnalysis, lengthMeasurements, updateState])
+  }, [fileAnalysis, lengthMeasurements, state, user, updateState])
 
   const progress = ((state.currentStep + 1) / STEPS.length) * 100
 
   // Show quote display if we have a quote
-  if (currentStepId === 'quote' && quote && materialSelection && fileAnalysis) {
+  if (currentStepId === 'quote' && state.pricing.lineItems.length > 0 && materialSelection && fileAnalysis) {
     return (
       <div className="min-h-screen bg-gray-50 py-8">
         <div className="px-4 sm:px-6 lg:px-8">
           <QuoteDisplay
-            quote={quote}
+            quote={state.pricing}
+            specifications={state.specifications}
             materialName={materialSelection.material.name}
             materialId={materialSelection.material.id}
             gauge={materialSelection.gauge}
+            profile={materialSelection.profile}
+            outerDiameter={materialSelection.outerDiameter}
             quantity={materialSelection.quantity}
+            lines={quoteLines ?? undefined}
             fileInfo={{
               fileName: state.fileUpload.fileName,
               lengthMm: lengthMeasurements?.lengthMm ?? 0,
               lengthInches: lengthMeasurements?.lengthInches ?? 0,
               originalUnits: lengthMeasurements?.originalUnits,
+              unitConfirmation: state.fileUpload.unitConfirmation,
+              cutLength: cutLength ?? undefined,
               bends: fileAnalysis.estimatedBends,
-              cuts: fileAnalysis.estimatedCuts
+              cuts: fileAnalysis.estimatedCuts,
+              bendTable: compensatedBendTable
             }}
           />
         </div>
@@ -343,7 +427,8 @@ export default function ConfigurationWizard() {
           <Button 
             type="button"
             onClick={nextStep} 
-            disabled={!state.fileUpload.isValid}
+            disabled={!state.fileUpload.isValid || unitsPending}
+            title={unitsPending ? 'Confirm the file units first' : undefined}
             className="flex items-center"
           >
             Continue to Material Selection
@@ -361,7 +446,8 @@ export default function ConfigurationWizard() {
             lengthInches: lengthMeasurements.lengthInches,
             originalUnits: lengthMeasurements.originalUnits,
             bends: fileAnalysis.estimatedBends,
-            cuts: fileAnalysis.estimatedCuts
+            cuts: fileAnalysis.estimatedCuts,
+            crossSection: fileAnalysis.crossSection
           } : undefined}
         />
       </div>
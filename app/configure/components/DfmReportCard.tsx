@@ -0,0 +1,80 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { AlertCircle, AlertTriangle, CheckCircle, Info, ShieldCheck } from 'lucide-react'
+import type { DfmReport, DfmSeverity } from '@/lib/types/dfm'
+
+interface DfmReportCardProps {
+  report: DfmReport
+  surcharge?: string // formatted extra cost caused by flagged bends
+}
+
+const SEVERITY_ORDER: DfmSeverity[] = ['blocking', 'warning', 'info']
+
+const SEVERITY_STYLES: Record<DfmSeverity, { label: string; icon: typeof AlertCircle; className: string }> = {
+  blocking: { label: 'Blocking', icon: AlertCircle, className: 'text-red-600' },
+  warning: { label: 'Warning', icon: AlertTriangle, className: 'text-amber-600' },
+  info: { label: 'Info', icon: Info, className: 'text-blue-600' }
+}
+
+export default function DfmReportCard({ report, surcharge }: DfmReportCardProps) {
+  const issues = [...report.issues].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  )
+  const blockingCount = issues.filter(issue => issue.severity === 'blocking').length
+  const warningCount = issues.filter(issue => issue.severity === 'warning').length
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-blue-600" />
+          Manufacturability
+          {blockingCount > 0 ? (
+            <Badge variant="destructive" className="ml-2">{blockingCount} blocking</Badge>
+          ) : warningCount > 0 ? (
+            <Badge className="ml-2 bg-amber-100 text-amber-800">{warningCount} {warningCount === 1 ? 'warning' : 'warnings'}</Badge>
+          ) : (
+            <Badge className="ml-2 bg-green-100 text-green-800">No issues</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {issues.length === 0 ? (
+          <p className="flex items-center gap-2 text-sm text-gray-600">
+            <CheckCircle className="w-4 h-4 text-green-600" />
+            The part passes all bending rules.
+          </p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {issues.map((issue, index) => {
+              const style = SEVERITY_STYLES[issue.severity]
+              const Icon = style.icon
+              return (
+                <li key={`${issue.ruleId}-${index}`} className="flex items-start gap-2">
+                  <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${style.className}`} />
+                  <span>
+                    <span className={`font-medium ${style.className}`}>{style.label}:</span>{' '}
+                    {issue.partName && <span className="font-medium">{issue.partName} – </span>}
+                    {issue.message}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+        {surcharge && (
+          <p className="mt-3 text-sm text-gray-600">
+            Flagged bends add <span className="font-medium">{surcharge}</span> of labor and machine time for slower forming.
+          </p>
+        )}
+        {!report.manufacturable && (
+          <p className="mt-3 text-sm text-red-700">
+            Blocking issues must be resolved or reviewed by our engineers before production.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
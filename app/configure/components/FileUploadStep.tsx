@@ -1,18 +1,27 @@
 'use client'
 
-import React, { useCallback, useState, useRef } from 'react'
+import React, { useCallback, useMemo, useState, useRef } from 'react'
 import { useDropzone } from 'react-dropzone'
-import { Upload, File, AlertCircle, CheckCircle, X } from 'lucide-react'
+import { Upload, File, AlertCircle, CheckCircle, X, Layers } from 'lucide-react'
 import { UseFormReturn } from 'react-hook-form'
 
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 
-import { FileUploadData } from '@/lib/types/configuration'
+import { FileUploadData, UnitConfirmation } from '@/lib/types/configuration'
+import type { AssemblyAnalysis } from '@/lib/types/geometry'
+import type { UnitDetection } from '@/lib/types/parser'
+import { checkManufacturability, mergeDfmReports } from '@/lib/utils/dfm'
+import { describeCollision, simulateBendSequence } from '@/lib/utils/bendSimulation'
+import { parseInchSize, TUBE_DIAMETERS } from '@/lib/utils/pricing'
 import { ConfigurationFormData } from '@/lib/schemas/configuration'
 import CADViewer from './CADViewer/CADViewer'
+import DfmReportCard from './DfmReportCard'
+import UnitConfirmationPanel from './UnitConfirmationPanel'
 
 interface FileUploadStepProps {
   data: FileUploadData
@@ -24,30 +33,125 @@ interface FileUploadStepProps {
 // Simplified accept - focus on file extensions rather than MIME types
 // CAD files often have unclear MIME types so we'll be more permissive
 const ACCEPTED_FILE_TYPES = {
-  'application/octet-stream': ['.step', '.stp', '.iges', '.igs', '.dxf']
+  'application/octet-stream': ['.step', '.stp', '.iges', '.igs', '.dxf'],
+  'text/csv': ['.csv'],
+  'text/plain': ['.txt'],
+  'model/stl': ['.stl'],
+  'model/obj': ['.obj'],
+  'model/3mf': ['.3mf'],
+  'model/gltf+json': ['.gltf'],
+  'model/gltf-binary': ['.glb']
 }
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
 
+/**
+ * Audit record of how the units were settled, against the units the file itself led to
+ */
+function settleUnits(detected: UnitDetection, units: string, method: UnitConfirmation['method']): UnitConfirmation {
+  return {
+    detectedUnits: detected.units,
+    source: detected.source,
+    confidence: detected.confidence,
+    units,
+    method,
+    confirmedAt: new Date().toISOString()
+  }
+}
+
 export default function FileUploadStep({ data, onComplete, form, preloadedFile }: FileUploadStepProps) {
   console.log('🔄 FileUploadStep render - received data:', !!data.file, data.fileName)
   
   const [uploadData, setUploadData] = useState<FileUploadData>(data)
   const [error, setError] = useState<string>('')
   const [fileAnalysis, setFileAnalysis] = useState<any>(null)
+  const [unitOverride, setUnitOverride] = useState<string | undefined>()
+  const [detectedUnits, setDetectedUnits] = useState<UnitDetection | null>(null) // before any override
+  const [unitConfirmation, setUnitConfirmation] = useState<UnitConfirmation | undefined>()
   const fileDataRef = useRef<FileUploadData | null>(null)
   const isInteractingRef = useRef<boolean>(false)
   const hasValidFileRef = useRef<boolean>(false)
 
+  // Manufacturability of the detected geometry; material-specific rules are applied at quote time
+  const dfmReport = useMemo(() => {
+    if (!fileAnalysis) return null
+    const tubeLines: AssemblyAnalysis['tubeLines'] = fileAnalysis.assembly?.tubeLines ?? []
+    if (tubeLines.length > 0) {
+      return mergeDfmReports(tubeLines.map(line => checkManufacturability({
+        bendTable: line.bendTable,
+        crossSection: line.crossSection,
+        partName: line.name
+      })))
+    }
+    return checkManufacturability({ bendTable: fileAnalysis.bendTable, crossSection: fileAnalysis.crossSection })
+  }, [fileAnalysis])
+
+  // Replay the bend sequence on the default bender to catch parts that hit the machine or floor
+  const collision = useMemo(() => {
+    const outerDiameter = fileAnalysis?.crossSection?.outerDiameter
+    if (!fileAnalysis?.bendTable || !outerDiameter) return undefined
+    return { result: simulateBendSequence(fileAnalysis.bendTable, outerDiameter), outerDiameter }
+  }, [fileAnalysis])
+
   // Stable callback for handling parsing completion
   const handleParsingComplete = useCallback((analysis: any) => {
     console.log('📊 Received file analysis:', analysis)
     setFileAnalysis(analysis)
+
+    // Confident detections are accepted as they are; low confidence waits for the customer
+    const detection: UnitDetection | undefined = analysis.unitDetection
+    let confirmation: UnitConfirmation | undefined
+    if (detection?.source === 'user') {
+      const original = detectedUnits ?? detection
+      confirmation = settleUnits(original, detection.units, detection.units === original.units ? 'confirmed' : 'overridden')
+    } else if (detection) {
+      setDetectedUnits(detection)
+      if (!detection.needsConfirmation) confirmation = settleUnits(detection, detection.units, 'accepted')
+    }
+    setUnitConfirmation(confirmation)
     
     // Update the complete data when analysis is available
+    const completeData = { ...uploadData, analysis, unitConfirmation: confirmation }
+    onComplete(completeData)
+  }, [uploadData, onComplete, detectedUnits])
+
+  const handleConfirmUnits = useCallback(() => {
+    const detection: UnitDetection | undefined = fileAnalysis?.unitDetection
+    if (!detection) return
+    const confirmation = settleUnits(detection, detection.units, 'confirmed')
+    console.log('📏 Units confirmed:', confirmation)
+    setUnitConfirmation(confirmation)
+
+    const completeData = { ...uploadData, analysis: fileAnalysis, unitConfirmation: confirmation }
+    onComplete(completeData)
+  }, [fileAnalysis, uploadData, onComplete])
+
+  // Other units re-run the analysis; the quote waits until the new analysis is in
+  const handleUnitOverride = useCallback((units: string) => {
+    if (!unitOverride && units === fileAnalysis?.unitDetection?.units) {
+      handleConfirmUnits()
+      return
+    }
+    console.log('📏 Units overridden:', units)
+    setUnitOverride(units)
+    setUnitConfirmation(undefined)
+
+    const completeData = { ...uploadData, analysis: fileAnalysis, unitConfirmation: undefined }
+    onComplete(completeData)
+  }, [unitOverride, fileAnalysis, uploadData, onComplete, handleConfirmUnits])
+
+  // Wireframe centerlines carry no OD; the customer picks the stock that is swept along them
+  const handleCenterlineDiameterChange = useCallback((size: string) => {
+    if (!fileAnalysis?.crossSection) return
+    const analysis = {
+      ...fileAnalysis,
+      crossSection: { ...fileAnalysis.crossSection, outerDiameter: parseInchSize(size) * 25.4 }
+    }
+    setFileAnalysis(analysis)
+
     const completeData = { ...uploadData, analysis }
     onComplete(completeData)
-  }, [uploadData, onComplete])
+  }, [fileAnalysis, uploadData, onComplete])
 
   const validateFile = useCallback((file: File): { isValid: boolean; error?: string } => {
     // Check file size
@@ -57,12 +161,12 @@ export default function FileUploadStep({ data, onComplete, form, preloadedFile }
 
     // Check file extension
     const extension = file.name.toLowerCase().split('.').pop()
-    const validExtensions = ['step', 'stp', 'iges', 'igs', 'dxf']
+    const validExtensions = ['step', 'stp', 'iges', 'igs', 'dxf', 'csv', 'txt', 'stl', 'obj', '3mf', 'gltf', 'glb']
     
     if (!extension || !validExtensions.includes(extension)) {
       return { 
         isValid: false, 
-        error: 'File must be in STEP (.step, .stp), IGES (.iges, .igs), or DXF (.dxf) format' 
+        error: 'File must be in STEP (.step, .stp), IGES (.iges, .igs), DXF (.dxf), mesh (.stl, .obj, .3mf, .gltf, .glb) or bend table (.csv, .txt) format' 
       }
     }
 
@@ -96,6 +200,14 @@ export default function FileUploadStep({ data, onComplete, form, preloadedFile }
       case 'dxf':
         fileType = 'dxf'
         break
+      case 'csv':
+      case 'txt':
+        fileType = 'csv'
+        break
+      case 'gltf':
+      case 'glb':
+        fileType = 'gltf'
+        break
       default:
         fileType = extension || ''
     }
@@ -111,6 +223,9 @@ export default function FileUploadStep({ data, onComplete, form, preloadedFile }
 
 
     setUploadData(newUploadData)
+    setUnitOverride(undefined)
+    setDetectedUnits(null)
+    setUnitConfirmation(undefined)
     fileDataRef.current = newUploadData // Store in ref to prevent loss
     
     // Update form first
@@ -142,6 +257,9 @@ export default function FileUploadStep({ data, onComplete, form, preloadedFile }
     isInteractingRef.current = false
     
     setUploadData(emptyData)
+    setUnitOverride(undefined)
+    setDetectedUnits(null)
+    setUnitConfirmation(undefined)
     setError('')
     onComplete(emptyData)
     form.setValue('fileUpload', emptyData)
@@ -314,17 +432,25 @@ export default function FileUploadStep({ data, onComplete, form, preloadedFile }
             <CheckCircle className="w-4 h-4 text-green-600 mr-2 flex-shrink-0" />
             STEP (.step, .stp), IGES (.iges, .igs), or DXF (.dxf) format
           </li>
+          <li className="flex items-center">
+            <CheckCircle className="w-4 h-4 text-green-600 mr-2 flex-shrink-0" />
+            Bend tables (.csv, .txt) with X / Y / Z or L / R / A columns and an optional CLR column
+          </li>
+          <li className="flex items-center">
+            <CheckCircle className="w-4 h-4 text-green-600 mr-2 flex-shrink-0" />
+            Meshes and scans (.stl, .obj, .3mf, .gltf, .glb) are accepted with a lower-confidence estimate
+          </li>
           <li className="flex items-center">
             <CheckCircle className="w-4 h-4 text-green-600 mr-2 flex-shrink-0" />
             Maximum file size: 50MB
           </li>
           <li className="flex items-center">
             <CheckCircle className="w-4 h-4 text-green-600 mr-2 flex-shrink-0" />
-            Single tube geometry (no assemblies)
+            Assemblies are split into one quote line per unique tube
           </li>
           <li className="flex items-center">
             <CheckCircle className="w-4 h-4 text-green-600 mr-2 flex-shrink-0" />
-            Centerline representation preferred
+            Solid tubes or wireframe centerlines (lines and arcs)
           </li>
         </ul>
       </div>
@@ -342,9 +468,110 @@ export default function FileUploadStep({ data, onComplete, form, preloadedFile }
             className="w-full"
             interactive={false}
             onParsingComplete={handleParsingComplete}
+            collision={collision}
+            centerlineDiameter={fileAnalysis?.centerline ? fileAnalysis.crossSection?.outerDiameter : undefined}
+            units={unitOverride}
           />
+
+          {fileAnalysis?.unitDetection && (
+            <div className="mt-4">
+              <UnitConfirmationPanel
+                detection={fileAnalysis.unitDetection}
+                confirmation={unitConfirmation}
+                reparsing={!!unitOverride && fileAnalysis.unitDetection.units !== unitOverride}
+                onConfirm={handleConfirmUnits}
+                onOverride={handleUnitOverride}
+              />
+            </div>
+          )}
+
+          {fileAnalysis?.meshImport && (
+            <div className="mt-4">
+              <Badge
+                variant="secondary"
+                className="bg-amber-100 text-amber-800"
+                title="Faceted meshes only approximate the tube surface; length, bends and OD are less certain than from STEP or IGES"
+              >
+                {fileAnalysis.meshImport.format.toUpperCase()} mesh • lower confidence
+              </Badge>
+            </div>
+          )}
+
+          {fileAnalysis?.centerline && (
+            <div className="mt-4 flex items-center gap-3">
+              <Label className="text-sm font-medium">Stock OD</Label>
+              <Select
+                value={TUBE_DIAMETERS.find(size => Math.abs(parseInchSize(size) * 25.4 - fileAnalysis.crossSection?.outerDiameter) < 0.01)}
+                onValueChange={handleCenterlineDiameterChange}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue placeholder="Select OD" />
+                </SelectTrigger>
+                <SelectContent>
+                  {TUBE_DIAMETERS.map(size => (
+                    <SelectItem key={size} value={size}>{size}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-gray-600">Centerline file: length and bends are exact</span>
+            </div>
+          )}
+
+          {collision?.result.collided && (
+            <Alert variant="destructive" className="mt-4">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{describeCollision(collision.result)}</AlertDescription>
+            </Alert>
+          )}
         </div>
       )}
+
+      {/* Assembly Bodies */}
+      {uploadData.isValid && fileAnalysis?.assembly && (
+        <AssemblyBodyList assembly={fileAnalysis.assembly} />
+      )}
+
+      {/* Manufacturability */}
+      {uploadData.isValid && dfmReport && (
+        <DfmReportCard report={dfmReport} />
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
+function AssemblyBodyList({ assembly }: { assembly: AssemblyAnalysis }) {
+  const lineByBody = new Map<number, number>()
+  assembly.tubeLines.forEach((line, index) => {
+    line.bodyIds.forEach(id => lineByBody.set(id, index + 1))
+  })
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="flex items-center gap-2 mb-3">
+          <Layers className="w-5 h-5 text-blue-600" />
+          <h4 className="font-semibold text-gray-900">Assembly</h4>
+          <Badge variant="secondary">
+            {assembly.bodies.length} bodies • {assembly.tubeLines.length} unique {assembly.tubeLines.length === 1 ? 'tube' : 'tubes'}
+          </Badge>
+        </div>
+        <ul className="divide-y divide-gray-100 text-sm">
+          {assembly.bodies.map((body) => (
+            <li key={body.id} className="flex items-center justify-between py-2">
+              <span className="font-medium text-gray-900">{body.name}</span>
+              <span className="flex items-center gap-3 text-gray-600">
+                {body.kind === 'tube' ? (
+                  <>
+                    <span>{(body.totalLength / 25.4).toFixed(2)}" • {body.estimatedBends} bends</span>
+                    <Badge className="bg-blue-100 text-blue-800">Line {lineByBody.get(body.id)}</Badge>
+                  </>
+                ) : (
+                  <Badge variant="outline">Not quoted (bracket / fitting)</Badge>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
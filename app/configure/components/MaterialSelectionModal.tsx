@@ -1,13 +1,25 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { CheckCircle } from 'lucide-react'
+import { Switch } from '@/components/ui/switch'
+import { AlertTriangle, CheckCircle } from 'lucide-react'
+import {
+  MATERIALS,
+  PROFILE_LABELS,
+  PROFILE_STOCK_SIZES,
+  findNearestStockSize,
+  findNearestProfileStock,
+  compareStockToProfile
+} from '@/lib/utils/pricing'
+import type { ManufacturingSpec, Material, TubeProfile } from '@/lib/types/configuration'
+import type { CrossSectionProfile } from '@/lib/types/geometry'
 
 // Helper: format analyzed native length and show both native and inches
 function formatLength(lengthMm: number, lengthInches: number, originalUnits?: string): string {
@@ -40,19 +52,13 @@ function formatLength(lengthMm: number, lengthInches: number, originalUnits?: st
   }
 }
 
-interface Material {
-  id: string
-  name: string
-  description: string
-  pricePerLb: number
-  color: string
-  gauges: string[]
-}
-
 interface MaterialSelection {
   material: Material
   quantity: number
   gauge: string
+  profile: TubeProfile
+  outerDiameter?: string
+  specifications: ManufacturingSpec
 }
 
 interface MaterialSelectionModalProps {
@@ -65,34 +71,23 @@ interface MaterialSelectionModalProps {
     originalUnits?: string
     bends: number
     cuts: number
+    crossSection?: CrossSectionProfile
   }
 }
 
-const MATERIALS: Material[] = [
-  {
-    id: 'aluminum',
-    name: 'Aluminum',
-    description: 'Lightweight, corrosion-resistant, excellent for marine and aerospace applications',
-    pricePerLb: 2.50,
-    color: '#C0C0C0',
-    gauges: ['16 AWG (0.051")', '14 AWG (0.064")', '12 AWG (0.081")', '10 AWG (0.102")', '8 AWG (0.128")']
-  },
-  {
-    id: 'stainless-steel',
-    name: 'Stainless Steel',
-    description: 'High strength, corrosion-resistant, ideal for food service and chemical applications',
-    pricePerLb: 4.75,
-    color: '#E8E8E8',
-    gauges: ['16 AWG (0.063")', '14 AWG (0.078")', '12 AWG (0.109")', '10 AWG (0.134")', '8 AWG (0.172")']
-  },
-  {
-    id: 'carbon-steel',
-    name: 'Carbon Steel',
-    description: 'Strong, durable, cost-effective for structural and general purpose applications',
-    pricePerLb: 1.85,
-    color: '#696969',
-    gauges: ['16 AWG (0.065")', '14 AWG (0.083")', '12 AWG (0.109")', '10 AWG (0.134")', '8 AWG (0.165")']
-  }
+const FINISHING_OPTIONS: Array<{ value: ManufacturingSpec['finishing']['type']; label: string }> = [
+  { value: 'none', label: 'No finishing' },
+  { value: 'deburr', label: 'Deburring' },
+  { value: 'polish', label: 'Polishing' },
+  { value: 'paint', label: 'Paint' },
+  { value: 'powder-coat', label: 'Powder coating' }
+]
+
+// Tolerance classes offered in the quick quote; tighter classes carry a bending and labor premium
+const TOLERANCE_OPTIONS: Array<{ value: string; label: string; tolerances: ManufacturingSpec['tolerances'] }> = [
+  { value: 'standard', label: 'Standard (±1°, ±0.02")', tolerances: { bendAngle: 1, centerlineRadius: 0.125, length: 0.02 } },
+  { value: 'precision', label: 'Precision (±0.5°, ±0.01")', tolerances: { bendAngle: 0.5, centerlineRadius: 0.0625, length: 0.01 } },
+  { value: 'tight', label: 'Tight (±0.25°, ±0.005")', tolerances: { bendAngle: 0.25, centerlineRadius: 0.03, length: 0.005 } }
 ]
 
 export default function MaterialSelectionModal({
@@ -104,10 +99,43 @@ export default function MaterialSelectionModal({
   const [selectedMaterial, setSelectedMaterial] = useState<Material | null>(null)
   const [quantity, setQuantity] = useState(1)
   const [selectedGauge, setSelectedGauge] = useState('')
+  const [selectedProfile, setSelectedProfile] = useState<TubeProfile>('round')
+  const [selectedDiameter, setSelectedDiameter] = useState('')
+  const [finishing, setFinishing] = useState<ManufacturingSpec['finishing']['type']>('none')
+  const [toleranceClass, setToleranceClass] = useState(TOLERANCE_OPTIONS[0].value)
+  const [rushOrder, setRushOrder] = useState(false)
+  const crossSection = fileInfo?.crossSection
+
+  // Pre-fill the profile and the stock size closest to the one measured in the model
+  useEffect(() => {
+    if (crossSection) {
+      setSelectedProfile(crossSection.shape)
+      setSelectedDiameter(findNearestProfileStock(crossSection) || '')
+    }
+  }, [crossSection])
+
+  const stockWarnings = useMemo(() => {
+    if (!crossSection) return []
+    return compareStockToProfile(crossSection, {
+      profile: selectedProfile,
+      outerDiameter: selectedDiameter || undefined,
+      wallThickness: selectedGauge || undefined
+    })
+  }, [crossSection, selectedProfile, selectedDiameter, selectedGauge])
+
+  const handleProfileChange = (profile: TubeProfile) => {
+    setSelectedProfile(profile)
+    if (!PROFILE_STOCK_SIZES[profile].includes(selectedDiameter)) {
+      setSelectedDiameter('')
+    }
+  }
 
   const handleMaterialSelect = (material: Material) => {
     setSelectedMaterial(material)
-    setSelectedGauge(material.gauges[1]) // Default to middle gauge
+    const detectedGauge = crossSection && crossSection.innerDiameter > 0
+      ? findNearestStockSize(crossSection.wallThickness / 25.4, material.gauges)
+      : undefined
+    setSelectedGauge(detectedGauge || material.gauges[1]) // Default to middle gauge
   }
 
   const handleConfirm = () => {
@@ -115,13 +143,26 @@ export default function MaterialSelectionModal({
       const selection: MaterialSelection = {
         material: selectedMaterial,
         quantity,
-        gauge: selectedGauge
+        gauge: selectedGauge,
+        profile: selectedProfile,
+        outerDiameter: selectedDiameter || undefined,
+        specifications: {
+          quantity,
+          tolerances: (TOLERANCE_OPTIONS.find(option => option.value === toleranceClass) ?? TOLERANCE_OPTIONS[0]).tolerances,
+          finishing: { type: finishing },
+          rushOrder
+        }
       }
       
       console.log('📋 Material Selection:', {
         material: selectedMaterial.name,
         quantity,
         gauge: selectedGauge,
+        profile: selectedProfile,
+        outerDiameter: selectedDiameter,
+        finishing,
+        toleranceClass,
+        rushOrder,
         fileInfo
       })
       
@@ -161,6 +202,18 @@ export default function MaterialSelectionModal({
                     <span className="ml-2 font-medium">{fileInfo.cuts}</span>
                   </div>
                 </div>
+                {crossSection && (
+                  <div className="mt-2 text-sm">
+                    <span className="text-blue-700">Detected profile:</span>
+                    <span className="ml-2 font-medium capitalize">{crossSection.shape}</span>
+                    <span className="ml-2 font-medium">
+                      {crossSection.width !== undefined && crossSection.height !== undefined
+                        ? `${(crossSection.width / 25.4).toFixed(3)}" × ${(crossSection.height / 25.4).toFixed(3)}"`
+                        : `OD ${(crossSection.outerDiameter / 25.4).toFixed(3)}"`}
+                      {crossSection.innerDiameter > 0 && ` • wall ${(crossSection.wallThickness / 25.4).toFixed(3)}"`}
+                    </span>
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -239,8 +292,110 @@ export default function MaterialSelectionModal({
                 </Select>
                 <p className="text-sm text-gray-500 mt-1">Material thickness specification</p>
               </div>
+
+              {/* Profile */}
+              <div>
+                <Label className="text-base font-medium">Profile</Label>
+                <Select value={selectedProfile} onValueChange={(value) => handleProfileChange(value as TubeProfile)}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue placeholder="Select profile" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PROFILE_LABELS) as TubeProfile[]).map((profile) => (
+                      <SelectItem key={profile} value={profile}>
+                        {PROFILE_LABELS[profile]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-500 mt-1">
+                  {crossSection ? 'Detected from your model' : 'Tube cross-section shape'}
+                </p>
+              </div>
+
+              {/* Outer Diameter / Size */}
+              <div>
+                <Label className="text-base font-medium">
+                  {selectedProfile === 'round' ? 'Outer Diameter' : 'Size'}
+                </Label>
+                <Select value={selectedDiameter} onValueChange={setSelectedDiameter}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue placeholder={selectedProfile === 'round' ? 'Select diameter' : 'Select size'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROFILE_STOCK_SIZES[selectedProfile].map((size) => (
+                      <SelectItem key={size} value={size}>
+                        {size}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-500 mt-1">
+                  {crossSection
+                    ? 'Pre-filled from the nearest stock size to your model'
+                    : selectedProfile === 'round' ? 'Tube outside diameter' : 'Outside width × height'}
+                </p>
+              </div>
+
+              {/* Finishing */}
+              <div>
+                <Label className="text-base font-medium">Finishing</Label>
+                <Select value={finishing} onValueChange={(value) => setFinishing(value as ManufacturingSpec['finishing']['type'])}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue placeholder="Select finishing" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FINISHING_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-500 mt-1">Priced by outside surface area</p>
+              </div>
+
+              {/* Tolerances */}
+              <div>
+                <Label className="text-base font-medium">Tolerances</Label>
+                <Select value={toleranceClass} onValueChange={setToleranceClass}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue placeholder="Select tolerances" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TOLERANCE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-500 mt-1">Tighter tolerances add to bending and labor</p>
+              </div>
+
+              {/* Rush */}
+              <div className="md:col-span-2 flex items-center justify-between rounded-lg border p-4">
+                <div>
+                  <Label htmlFor="rush-order" className="text-base font-medium">Rush order</Label>
+                  <p className="text-sm text-gray-500 mt-1">Ships in 1-2 days for a 25% expedite fee</p>
+                </div>
+                <Switch id="rush-order" checked={rushOrder} onCheckedChange={setRushOrder} />
+              </div>
             </div>
           )}
+
+          {selectedMaterial && stockWarnings.length > 0 && (
+            <Alert className="border-amber-300 bg-amber-50">
+              <AlertTriangle className="h-4 w-4 text-amber-600" />
+              <AlertDescription className="text-amber-800">
+                <ul className="space-y-1">
+                  {stockWarnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
         </div>
 
         {/* Actions */}
@@ -72,7 +72,7 @@ export default function MaterialStep({ data, onComplete, form }: MaterialStepPro
                 </div>
                 <p className="text-sm text-gray-600 mb-3">{material.description}</p>
                 <div className="text-lg font-semibold text-blue-600">
-                  ${material.basePrice.toFixed(2)}/ft
+                  ${material.pricePerLb.toFixed(2)}/lb
                 </div>
               </CardContent>
             </Card>
@@ -91,7 +91,7 @@ export default function MaterialStep({ data, onComplete, form }: MaterialStepPro
               </div>
               <div className="text-right">
                 <div className="text-lg font-semibold text-blue-600">
-                  ${selectedMaterial.basePrice.toFixed(2)}/ft
+                  ${selectedMaterial.pricePerLb.toFixed(2)}/lb
                 </div>
                 <div className="text-sm text-gray-500">Base price</div>
               </div>
@@ -210,7 +210,7 @@ export default function MaterialStep({ data, onComplete, form }: MaterialStepPro
               </div>
               <div>
                 <Label className="text-gray-600">Base Price:</Label>
-                <p className="font-medium">${selectedMaterial.basePrice.toFixed(2)} per foot</p>
+                <p className="font-medium">${selectedMaterial.pricePerLb.toFixed(2)} per lb</p>
               </div>
               {selection.tubeSpec.diameter && (
                 <div>
@@ -230,14 +230,6 @@ export default function MaterialStep({ data, onComplete, form }: MaterialStepPro
                   <p className="font-medium">{selection.tubeSpec.length}" ({(selection.tubeSpec.length / 12).toFixed(2)} ft)</p>
                 </div>
               )}
-              {selection.tubeSpec.length > 0 && (
-                <div>
-                  <Label className="text-gray-600">Estimated Material Cost:</Label>
-                  <p className="font-medium text-blue-600">
-                    ${(selectedMaterial.basePrice * (selection.tubeSpec.length / 12)).toFixed(2)}
-                  </p>
-                </div>
-              )}
             </div>
           </CardContent>
         </Card>
@@ -8,24 +8,41 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { CheckCircle, Clock, Save, Send } from 'lucide-react'
-import { QuoteBreakdown, formatCurrency } from '@/lib/utils/quoteCalculator'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { CheckCircle, Clock, Save, Send, Ruler, Layers, Scissors, Download, Wrench } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils/quoteEngine'
 import { useUser } from '@/contexts/user-context'
-import type { PendingOrderPayload, OrderActionType } from '@/lib/types/orders'
+import type { PendingOrderPayload, OrderActionType, QuoteLine } from '@/lib/types/orders'
+import type { ManufacturingSpec, PricingBreakdown, TubeProfile, UnitConfirmation } from '@/lib/types/configuration'
+import type { BendTable } from '@/lib/types/geometry'
+import { toBendRequirements } from '@/lib/utils/bendTable'
+import { PROFILE_LABELS } from '@/lib/utils/pricing'
+import type { CutLengthResult } from '@/lib/utils/cutLength'
+import { describeSticks, formatCutList } from '@/lib/utils/stockNesting'
+import type { NestingPlan } from '@/lib/types/nesting'
+import { formatToolSize } from '@/lib/utils/tooling'
+import DfmReportCard from './DfmReportCard'
 
 interface QuoteDisplayProps {
-  quote: QuoteBreakdown
+  quote: PricingBreakdown
+  specifications?: ManufacturingSpec
   materialName: string
   materialId?: string
   gauge: string
+  profile?: TubeProfile
+  outerDiameter?: string
   quantity: number
+  lines?: QuoteLine[] // tube lines of a multi-body assembly
   fileInfo: {
     fileName: string
     lengthMm: number
     lengthInches: number
     originalUnits?: string
+    unitConfirmation?: UnitConfirmation
+    cutLength?: CutLengthResult
     bends: number
     cuts: number
+    bendTable?: BendTable
   }
 }
 
@@ -60,32 +77,57 @@ function formatLength(lengthMm: number, lengthInches: number, originalUnits?: st
   }
 }
 
+function downloadCutList(plans: NestingPlan[], fileName: string) {
+  const blob = new Blob([formatCutList(plans)], { type: 'text/csv' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `${fileName.replace(/\.[^.]+$/, '')}-cut-list.csv`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
 export default function QuoteDisplay({
   quote,
+  specifications,
   materialName,
   materialId,
   gauge,
+  profile,
+  outerDiameter,
   quantity,
+  lines,
   fileInfo
 }: QuoteDisplayProps) {
   const router = useRouter()
   const { isAuthenticated, submitOrder, saveOrderForLater } = useUser()
   const [feedback, setFeedback] = useState<{ type: 'error'; message: string } | null>(null)
 
+  const hasSpringback = fileInfo.bendTable?.bends.some(bend => bend.machineAngle !== undefined) ?? false
+
   const buildOrderPayload = (): PendingOrderPayload => ({
     materialName,
     materialId,
     gauge,
+    profile,
+    outerDiameter,
     quantity,
+    specifications,
     quote,
     file: {
       name: fileInfo.fileName,
       lengthInches: fileInfo.lengthInches,
       lengthMm: fileInfo.lengthMm,
+      cutLengthMm: fileInfo.cutLength?.cutLength,
       originalUnits: fileInfo.originalUnits,
+      unitConfirmation: fileInfo.unitConfirmation,
       bends: fileInfo.bends,
       cuts: fileInfo.cuts,
+      bendRequirements: fileInfo.bendTable ? toBendRequirements(fileInfo.bendTable, quote.dfm) : undefined,
     },
+    lines,
     createdAt: new Date().toISOString(),
   })
 
@@ -154,11 +196,22 @@ export default function QuoteDisplay({
                   <span className="font-medium">{fileInfo.fileName}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-gray-600">Length:</span>
+                  <span className="text-gray-600">{fileInfo.cutLength ? 'Centerline length:' : 'Length:'}</span>
                   <span className="font-medium">
                     {formatLength(fileInfo.lengthMm, fileInfo.lengthInches, fileInfo.originalUnits)}
                   </span>
                 </div>
+                {fileInfo.cutLength && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Cut length:</span>
+                    <span
+                      className="font-medium"
+                      title={`Developed ${fileInfo.cutLength.developedLength.toFixed(1)} mm + grip ${fileInfo.cutLength.gripAllowance.toFixed(1)} mm + trim ${fileInfo.cutLength.trimAllowance.toFixed(1)} mm`}
+                    >
+                      {formatLength(fileInfo.cutLength.cutLength, fileInfo.cutLength.cutLength / 25.4, fileInfo.originalUnits)}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-gray-600">Bends:</span>
                   <span className="font-medium">{fileInfo.bends}</span>
@@ -181,20 +234,285 @@ export default function QuoteDisplay({
                   <span className="text-gray-600">Gauge:</span>
                   <span className="font-medium">{gauge}</span>
                 </div>
+                {profile && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Profile:</span>
+                    <span className="font-medium">
+                      {PROFILE_LABELS[profile]}{outerDiameter && ` ${outerDiameter}`}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-gray-600">Quantity:</span>
-                  <span className="font-medium">{quantity} parts</span>
+                  <span className="font-medium">{quantity} {lines ? 'assemblies' : 'parts'}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-gray-600">Weight per part:</span>
+                  <span className="text-gray-600">{lines ? 'Weight per assembly:' : 'Weight per part:'}</span>
                   <span className="font-medium">{quote.details.materialWeight.toFixed(2)} lbs</span>
                 </div>
+                {quote.details.cycleTime !== undefined && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">{lines ? 'Cycle time per assembly:' : 'Cycle time per part:'}</span>
+                    <span className="font-medium">{quote.details.cycleTime.toFixed(0)}s</span>
+                  </div>
+                )}
               </div>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Assembly Lines */}
+      {lines && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="w-5 h-5 text-blue-600" />
+              Assembly Tubes
+              <Badge variant="secondary" className="ml-2">
+                {lines.length} unique {lines.length === 1 ? 'tube' : 'tubes'}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tube</TableHead>
+                  <TableHead className="text-right">Per assembly</TableHead>
+                  <TableHead className="text-right">Total qty</TableHead>
+                  <TableHead className="text-right">Length</TableHead>
+                  <TableHead className="text-right">Cut length</TableHead>
+                  <TableHead className="text-right">Bends</TableHead>
+                  <TableHead className="text-right">Line total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.name + line.lengthMm}>
+                    <TableCell className="font-medium">{line.name}</TableCell>
+                    <TableCell className="text-right">{line.quantityPerAssembly}</TableCell>
+                    <TableCell className="text-right">{line.quantityPerAssembly * quantity}</TableCell>
+                    <TableCell className="text-right">{line.lengthInches.toFixed(2)}"</TableCell>
+                    <TableCell className="text-right">
+                      {line.cutLengthMm !== undefined ? `${(line.cutLengthMm / 25.4).toFixed(2)}"` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{line.bends}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.quote.total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Stock & Cut List */}
+      {quote.nesting && quote.nesting.some((plan) => plan.sticks.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2">
+                <Scissors className="w-5 h-5 text-blue-600" />
+                Stock & Cut List
+              </span>
+              <Button variant="outline" size="sm" onClick={() => downloadCutList(quote.nesting!, fileInfo.fileName)}>
+                <Download className="w-4 h-4 mr-2" />
+                Download cut list (CSV)
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {quote.nesting.map((plan) => (
+              <div key={plan.groupKey} className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{plan.label}</span>
+                  <Badge variant="secondary">{describeSticks(plan)}</Badge>
+                  <Badge variant="outline">{(plan.yield * 100).toFixed(1)}% yield</Badge>
+                  {plan.remnants.length > 0 && (
+                    <span className="text-xs text-gray-500">
+                      Remnants kept: {plan.remnants.map((remnant) => `${(remnant / 25.4).toFixed(1)}"`).join(', ')}
+                    </span>
+                  )}
+                </div>
+                {plan.oversized.length > 0 && (
+                  <Alert>
+                    <AlertDescription>
+                      {plan.oversized.map((piece) => piece.partName).join(', ')} {plan.oversized.length === 1 ? 'is' : 'are'} longer
+                      than any stock length and will be sourced separately.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Stick</TableHead>
+                      <TableHead className="text-right">Stock</TableHead>
+                      <TableHead>Cuts</TableHead>
+                      <TableHead className="text-right">Remnant</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.sticks.map((stick, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="font-medium">{index + 1}</TableCell>
+                        <TableCell className="text-right">{(stick.stockLength / 304.8).toFixed(0)} ft</TableCell>
+                        <TableCell className="text-sm">
+                          {stick.cuts.map((cut) => `${cut.partName} ${(cut.length / 25.4).toFixed(2)}"`).join(' · ')}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {(stick.remnant / 25.4).toFixed(1)}"
+                          {stick.scrap && <span className="text-xs text-gray-500"> scrap</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Tooling */}
+      {quote.tooling && quote.tooling.matches.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wrench className="w-5 h-5 text-blue-600" />
+              Tooling
+              {quote.tooling.customDies.length === 0 ? (
+                <Badge className="ml-2 bg-green-100 text-green-800">In stock</Badge>
+              ) : (
+                <Badge variant="secondary" className="ml-2">
+                  {quote.tooling.customDies.length} custom {quote.tooling.customDies.length === 1 ? 'die' : 'dies'}
+                </Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {quote.tooling.customDies.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                All {quote.tooling.matches.length} bends run on tooling we already own.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Die</TableHead>
+                    <TableHead>Bends</TableHead>
+                    <TableHead className="text-right">Charge</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {quote.tooling.customDies.map((die) => (
+                    <TableRow key={die.key}>
+                      <TableCell className="font-medium">{die.name}</TableCell>
+                      <TableCell className="text-sm">
+                        {die.partName ? `${die.partName}: ` : ''}{die.bends.join(', ')}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(die.cost)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {quote.tooling.customDies
+              .filter((die) => die.suggestion)
+              .map((die) => (
+                <Alert key={`${die.key}-suggestion`} className="border-blue-200 bg-blue-50">
+                  <AlertDescription className="text-blue-900">
+                    <span className="font-medium">Snap to available CLR:</span> designing
+                    {die.bends.length === 1 ? ' bend ' : ' bends '}{die.bends.join(', ')}
+                    {die.partName ? ` of ${die.partName}` : ''} to a {formatToolSize(die.suggestion!.clr)} CLR
+                    instead of {formatToolSize(die.clr ?? 0)} uses our {die.suggestion!.toolName} and avoids
+                    the {formatCurrency(die.cost)} custom die.
+                  </AlertDescription>
+                </Alert>
+              ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Manufacturability */}
+      {quote.dfm && (
+        <DfmReportCard
+          report={quote.dfm}
+          surcharge={quote.details.dfmSurcharge ? formatCurrency(quote.details.dfmSurcharge) : undefined}
+        />
+      )}
+
+      {/* Bend Table */}
+      {fileInfo.bendTable && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Ruler className="w-5 h-5 text-blue-600" />
+              Bend Table
+              <Badge variant="secondary" className="ml-2">
+                {Math.round(fileInfo.bendTable.confidence * 100)}% confidence
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-gray-500 mb-3">
+              Extracted from the {fileInfo.bendTable.source} centerline. Lengths in mm, angles in degrees. CLR is the measured centerline radius ± arc fit residual.
+              {hasSpringback && ' Machine A is the overbend angle compensating springback for the selected material; CLR growth is the radius increase after release.'}
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bend</TableHead>
+                  <TableHead className="text-right">L (feed)</TableHead>
+                  <TableHead className="text-right">R (rotation)</TableHead>
+                  <TableHead className="text-right">A (angle)</TableHead>
+                  {hasSpringback && <TableHead className="text-right">Machine A</TableHead>}
+                  <TableHead className="text-right">CLR</TableHead>
+                  {hasSpringback && <TableHead className="text-right">CLR growth</TableHead>}
+                  <TableHead className="text-right">X</TableHead>
+                  <TableHead className="text-right">Y</TableHead>
+                  <TableHead className="text-right">Z</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fileInfo.bendTable.bends.map((bend) => (
+                  <TableRow key={bend.index}>
+                    <TableCell className="font-medium">{bend.index}</TableCell>
+                    <TableCell className="text-right">{bend.feedLength.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{bend.rotation.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{bend.angle.toFixed(1)}</TableCell>
+                    {hasSpringback && (
+                      <TableCell className="text-right">
+                        {bend.machineAngle !== undefined ? bend.machineAngle.toFixed(1) : '—'}
+                      </TableCell>
+                    )}
+                    <TableCell className="text-right">
+                      {bend.radius !== undefined ? bend.radius.toFixed(2) : '—'}
+                      {bend.radiusResidual !== undefined && (
+                        <span className="text-xs text-gray-500"> ±{bend.radiusResidual.toFixed(2)}</span>
+                      )}
+                    </TableCell>
+                    {hasSpringback && (
+                      <TableCell className="text-right">
+                        {bend.radiusGrowth !== undefined ? `+${bend.radiusGrowth.toFixed(2)}` : '—'}
+                      </TableCell>
+                    )}
+                    <TableCell className="text-right">{bend.intersection.x.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{bend.intersection.y.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{bend.intersection.z.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-medium">End</TableCell>
+                  <TableCell className="text-right">{fileInfo.bendTable.finalLength.toFixed(2)}</TableCell>
+                  <TableCell colSpan={hasSpringback ? 8 : 6} />
+                </TableRow>
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Pricing Breakdown */}
       <Card className="border-blue-200">
         <CardHeader>
@@ -205,53 +523,17 @@ export default function QuoteDisplay({
             
             {/* Line Items */}
             <div className="space-y-3">
-              <div className="flex justify-between items-center py-2">
-                <div>
-                  <span className="font-medium">Material Cost</span>
-                  <p className="text-xs text-gray-500">
-                    {quote.details.materialWeight.toFixed(2)} lbs × {quantity} parts
-                  </p>
-                </div>
-                <span className="font-semibold">{formatCurrency(quote.materialCost)}</span>
-              </div>
-
-              <div className="flex justify-between items-center py-2">
-                <div>
-                  <span className="font-medium">Bending Operations</span>
-                  <p className="text-xs text-gray-500">
-                    {fileInfo.bends} bends × {quantity} parts
-                  </p>
-                </div>
-                <span className="font-semibold">{formatCurrency(quote.bendingCost)}</span>
-              </div>
-
-              <div className="flex justify-between items-center py-2">
-                <div>
-                  <span className="font-medium">Cutting Operations</span>
-                  <p className="text-xs text-gray-500">
-                    {fileInfo.cuts} cuts × {quantity} parts
-                  </p>
-                </div>
-                <span className="font-semibold">{formatCurrency(quote.cuttingCost)}</span>
-              </div>
-
-              <div className="flex justify-between items-center py-2">
-                <div>
-                  <span className="font-medium">Labor</span>
-                  <p className="text-xs text-gray-500">
-                    {quote.details.laborHours.toFixed(1)} hours @ ${quote.details.laborRate}/hr
-                  </p>
-                </div>
-                <span className="font-semibold">{formatCurrency(quote.laborCost)}</span>
-              </div>
-
-              <div className="flex justify-between items-center py-2">
-                <div>
-                  <span className="font-medium">Setup & Tooling</span>
-                  <p className="text-xs text-gray-500">One-time setup cost</p>
+              {quote.lineItems.map((item) => (
+                <div key={item.rule} className="flex justify-between items-center py-2">
+                  <div>
+                    <span className="font-medium">{item.label}</span>
+                    <p className="text-xs text-gray-500">{item.basis}</p>
+                  </div>
+                  <span className={`font-semibold ${item.amount < 0 ? 'text-green-600' : ''}`}>
+                    {item.amount < 0 ? `−${formatCurrency(-item.amount)}` : formatCurrency(item.amount)}
+                  </span>
                 </div>
-                <span className="font-semibold">{formatCurrency(quote.setupCost)}</span>
-              </div>
+              ))}
             </div>
 
             <Separator />
@@ -262,7 +544,7 @@ export default function QuoteDisplay({
             </div>
 
             <div className="flex justify-between items-center py-2">
-              <span className="text-gray-600">Tax (8.875%)</span>
+              <span className="text-gray-600">Tax ({(quote.taxRate * 100).toFixed(3)}%)</span>
               <span className="font-semibold">{formatCurrency(quote.tax)}</span>
             </div>
 
@@ -273,10 +555,12 @@ export default function QuoteDisplay({
               <span className="font-bold text-blue-600">{formatCurrency(quote.total)}</span>
             </div>
 
+            <p className="text-xs text-gray-500 text-right">Priced with pricing rules v{quote.ruleSetVersion}, quote engine v{quote.engineVersion}</p>
+
             {/* Price per part */}
             <div className="text-center bg-blue-50 rounded-lg p-4">
               <div className="text-lg font-bold text-blue-900">
-                {formatCurrency(quote.pricePerPart)} per part
+                {formatCurrency(quote.pricePerPart)} per {lines ? 'assembly' : 'part'}
               </div>
               {quantity > 1 && (
                 <div className="text-sm text-blue-700 mt-1">
@@ -296,9 +580,9 @@ export default function QuoteDisplay({
               <Clock className="w-5 h-5 text-blue-600" />
               <h3 className="font-semibold">Lead Time</h3>
             </div>
-            <p className="text-2xl font-bold text-blue-600 mb-2">3-5 Business Days</p>
+            <p className="text-2xl font-bold text-blue-600 mb-2 capitalize">{quote.leadTime.replace('days', 'business days')}</p>
             <p className="text-sm text-gray-600">
-              Standard production time for {quantity} part{quantity !== 1 ? 's' : ''}
+              {specifications?.rushOrder ? 'Rush' : 'Standard'} production time for {quantity} {lines ? 'assemblies' : 'parts'}
             </p>
           </CardContent>
         </Card>
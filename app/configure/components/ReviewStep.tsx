@@ -9,6 +9,7 @@ import { CheckCircle, Clock, FileText, Settings, Package, Palette, Download, Edi
 
 import { FileUploadData, MaterialSelection, ManufacturingSpec, PricingBreakdown } from '@/lib/types/configuration'
 import { MATERIALS } from '@/lib/utils/pricing'
+import { formatCurrency } from '@/lib/utils/quoteEngine'
 
 interface ReviewStepProps {
   fileUpload: FileUploadData
@@ -35,7 +36,6 @@ export default function ReviewStep({
   const selectedMaterial = MATERIALS.find(m => m.id === materialSelection.materialId)
   const finishingLabel = FINISHING_LABELS[specifications.finishing.type as keyof typeof FINISHING_LABELS]
 
-  const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`
 
   return (
     <div className="space-y-8">
@@ -169,43 +169,15 @@ export default function ReviewStep({
             
             {/* Line Items */}
             <div className="space-y-3">
-              <div className="flex justify-between items-center py-2">
-                <div>
-                  <span className="text-gray-600">Material Cost</span>
-                  <p className="text-xs text-gray-500">
-                    {selectedMaterial?.name} • {materialSelection.tubeSpec.length}" × {specifications.quantity} parts
-                  </p>
-                </div>
-                <span className="font-semibold">{formatCurrency(pricing.materialCost)}</span>
-              </div>
-
-              <div className="flex justify-between items-center py-2">
-                <div>
-                  <span className="text-gray-600">Bending Operations</span>
-                  <p className="text-xs text-gray-500">
-                    Setup + bending × {specifications.quantity} parts
-                  </p>
-                </div>
-                <span className="font-semibold">{formatCurrency(pricing.bendingCost)}</span>
-              </div>
-
-              {pricing.finishingCost > 0 && (
-                <div className="flex justify-between items-center py-2">
+              {pricing.lineItems.map((item) => (
+                <div key={item.rule} className="flex justify-between items-center py-2">
                   <div>
-                    <span className="text-gray-600">Finishing</span>
-                    <p className="text-xs text-gray-500">{finishingLabel}</p>
+                    <span className="text-gray-600">{item.label}</span>
+                    <p className="text-xs text-gray-500">{item.basis}</p>
                   </div>
-                  <span className="font-semibold">{formatCurrency(pricing.finishingCost)}</span>
+                  <span className="font-semibold">{formatCurrency(item.amount)}</span>
                 </div>
-              )}
-
-              <div className="flex justify-between items-center py-2">
-                <div>
-                  <span className="text-gray-600">Setup & Tooling</span>
-                  <p className="text-xs text-gray-500">One-time setup cost</p>
-                </div>
-                <span className="font-semibold">{formatCurrency(pricing.setupCost)}</span>
-              </div>
+              ))}
             </div>
 
             <Separator />
@@ -215,13 +187,6 @@ export default function ReviewStep({
               <span className="font-semibold">{formatCurrency(pricing.subtotal)}</span>
             </div>
 
-            {pricing.rushFee > 0 && (
-              <div className="flex justify-between items-center py-2 text-amber-700">
-                <span>Rush Order Fee (25%)</span>
-                <span className="font-semibold">{formatCurrency(pricing.rushFee)}</span>
-              </div>
-            )}
-
             <div className="flex justify-between items-center py-2">
               <span className="text-gray-600">Tax</span>
               <span className="font-semibold">{formatCurrency(pricing.tax)}</span>
@@ -236,7 +201,7 @@ export default function ReviewStep({
 
             {/* Unit Price */}
             <div className="text-center text-sm text-gray-600 bg-gray-50 rounded-lg p-3">
-              <strong>{formatCurrency(pricing.total / specifications.quantity)} per part</strong>
+              <strong>{formatCurrency(pricing.pricePerPart)} per part</strong>
               {specifications.quantity > 1 && (
                 <span className="block mt-1">
                   Total for {specifications.quantity} parts
@@ -0,0 +1,149 @@
+'use client'
+
+import { AlertTriangle, CheckCircle, Ruler } from 'lucide-react'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { UnitConfirmation } from '@/lib/types/configuration'
+import type { UnitDetection, UnitSource } from '@/lib/types/parser'
+
+interface UnitConfirmationPanelProps {
+  detection: UnitDetection // units of the current analysis
+  confirmation?: UnitConfirmation
+  reparsing?: boolean // an override is being analyzed
+  onConfirm: () => void
+  onOverride: (units: string) => void
+}
+
+export const UNIT_OPTIONS = [
+  { value: 'millimeter', label: 'Millimeters' },
+  { value: 'centimeter', label: 'Centimeters' },
+  { value: 'meter', label: 'Meters' },
+  { value: 'inch', label: 'Inches' },
+  { value: 'foot', label: 'Feet' }
+]
+
+const SOURCE_LABELS: Record<UnitSource, string> = {
+  'user': 'your selection',
+  'step-header': 'STEP header',
+  'iges-global': 'IGES global section',
+  'dxf-header': 'DXF $INSUNITS header',
+  'mesh-file': 'mesh file units',
+  'bend-table': 'bend table units line',
+  'geometry': 'part size (geometry heuristic)'
+}
+
+// Everyday objects to compare the part against, in millimeters
+const SCALE_REFERENCES = [
+  { label: 'Credit card', lengthMm: 85.6 },
+  { label: '12" ruler', lengthMm: 304.8 },
+  { label: '1 m rule', lengthMm: 1000 },
+  { label: '20 ft stock length', lengthMm: 6096 }
+]
+
+function unitLabel(units: string): string {
+  return UNIT_OPTIONS.find(option => option.value === units)?.label ?? units
+}
+
+function formatExtent(lengthMm: number): string {
+  const metric = lengthMm >= 1000 ? `${(lengthMm / 1000).toFixed(2)} m` : `${lengthMm.toFixed(lengthMm < 10 ? 1 : 0)} mm`
+  return `${metric} (${(lengthMm / 25.4).toFixed(1)} in)`
+}
+
+/**
+ * The part's largest dimension drawn next to the everyday object closest in size
+ */
+function ScaleReference({ extentMm }: { extentMm: number }) {
+  const reference = SCALE_REFERENCES.reduce((best, candidate) =>
+    Math.abs(Math.log(candidate.lengthMm / extentMm)) < Math.abs(Math.log(best.lengthMm / extentMm)) ? candidate : best
+  )
+  const width = 320
+  const scale = width / Math.max(extentMm, reference.lengthMm)
+  const bars = [
+    { label: `Your part: ${formatExtent(extentMm)}`, length: extentMm * scale, color: '#2563eb' },
+    { label: `${reference.label}: ${formatExtent(reference.lengthMm)}`, length: reference.lengthMm * scale, color: '#9ca3af' }
+  ]
+
+  return (
+    <svg viewBox={`0 0 ${width + 8} 64`} className="w-full max-w-sm" role="img" aria-label="Scale reference">
+      {bars.map((bar, index) => (
+        <g key={bar.label} transform={`translate(4 ${index * 32})`}>
+          <text x={0} y={11} fontSize={11} fill="#374151">{bar.label}</text>
+          <rect x={0} y={16} width={Math.max(bar.length, 2)} height={8} rx={2} fill={bar.color} />
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+export default function UnitConfirmationPanel({ detection, confirmation, reparsing, onConfirm, onOverride }: UnitConfirmationPanelProps) {
+  const overridden = confirmation?.method === 'overridden'
+  const pending = detection.needsConfirmation && !confirmation
+
+  return (
+    <Card className={pending ? 'border-amber-300 bg-amber-50' : undefined}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Ruler className="w-5 h-5 text-blue-600" />
+          <h4 className="font-semibold text-gray-900">Units</h4>
+          {pending ? (
+            <Badge className="bg-amber-100 text-amber-800">Confirmation required</Badge>
+          ) : confirmation ? (
+            <Badge className="bg-green-100 text-green-800">
+              {confirmation.method === 'accepted' ? 'Detected' : overridden ? 'Overridden' : 'Confirmed'}
+            </Badge>
+          ) : null}
+        </div>
+
+        <p className="text-sm text-gray-700">
+          {overridden ? (
+            <>
+              Detected <span className="font-medium">{unitLabel(confirmation.detectedUnits).toLowerCase()}</span> from the{' '}
+              {SOURCE_LABELS[confirmation.source]} ({Math.round(confirmation.confidence * 100)}% confidence); analyzed in{' '}
+              <span className="font-medium">{unitLabel(detection.units).toLowerCase()}</span> as you selected.
+            </>
+          ) : (
+            <>
+              Detected <span className="font-medium">{unitLabel(detection.units).toLowerCase()}</span> from the{' '}
+              {SOURCE_LABELS[detection.source]} • {Math.round(detection.confidence * 100)}% confidence
+            </>
+          )}
+        </p>
+
+        {detection.suggestedUnit && (
+          <p className="flex items-start gap-2 text-sm text-amber-800">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            The part size does not fit {unitLabel(detection.units).toLowerCase()}; {unitLabel(detection.suggestedUnit).toLowerCase()} would fit better.
+          </p>
+        )}
+
+        <ScaleReference extentMm={detection.extentMm} />
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={detection.units} onValueChange={onOverride} disabled={reparsing}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Select units" />
+            </SelectTrigger>
+            <SelectContent>
+              {UNIT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {pending ? (
+            <Button type="button" size="sm" onClick={onConfirm} disabled={reparsing}>
+              Confirm {unitLabel(detection.units).toLowerCase()}
+            </Button>
+          ) : confirmation && (
+            <span className="flex items-center gap-1 text-sm text-gray-600">
+              <CheckCircle className="w-4 h-4 text-green-600" />
+              Picking other units re-runs the analysis
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -316,7 +316,7 @@ export default function ContactPage() {
             {[
               {
                 question: "What file formats do you accept?",
-                answer: "We accept STEP (.step/.stp), IGES (.iges/.igs), and DXF (.dxf) files. Files must be under 50MB."
+                answer: "We accept STEP (.step/.stp), IGES (.iges/.igs), and DXF (.dxf) files, meshes and scans (.stl/.obj/.3mf/.gltf/.glb), as well as bend tables (.csv/.txt) with XYZ or LRA columns. Files must be under 50MB."
               },
               {
                 question: "What's your typical turnaround time?",
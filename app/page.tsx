@@ -7,7 +7,7 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 
-const ACCEPTED_FILE_TYPES = ['step', 'stp', 'iges', 'igs', 'dxf']
+const ACCEPTED_FILE_TYPES = ['step', 'stp', 'iges', 'igs', 'dxf', 'csv', 'txt', 'stl', 'obj', '3mf', 'gltf', 'glb']
 const MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
 
 export default function HomePage() {
@@ -27,7 +27,7 @@ export default function HomePage() {
     if (!extension || !ACCEPTED_FILE_TYPES.includes(extension)) {
       return { 
         isValid: false, 
-        error: 'File must be in STEP (.step, .stp), IGES (.iges, .igs), or DXF (.dxf) format' 
+        error: 'File must be in STEP (.step, .stp), IGES (.iges, .igs), DXF (.dxf), mesh (.stl, .obj, .3mf, .gltf, .glb) or bend table (.csv, .txt) format' 
       }
     }
 
@@ -99,7 +99,7 @@ export default function HomePage() {
   const handleUploadClick = useCallback(() => {
     const input = document.createElement('input')
     input.type = 'file'
-    input.accept = '.step,.stp,.iges,.igs,.dxf'
+    input.accept = '.step,.stp,.iges,.igs,.dxf,.csv,.txt,.stl,.obj,.3mf,.gltf,.glb'
     input.onchange = handleFileSelect
     input.click()
   }, [handleFileSelect])
@@ -172,7 +172,7 @@ export default function HomePage() {
                       : 'Drop your CAD file here or click to browse'
                     }
                   </h3>
-                  <p className="text-gray-600 mb-6">STEP, IGES, DXF files accepted • Max 50MB</p>
+                  <p className="text-gray-600 mb-6">STEP, IGES, DXF, STL/OBJ meshes or CSV bend tables accepted • Max 50MB</p>
                   {error && (
                     <p className="text-red-600 text-sm mb-4">{error}</p>
                   )}
@@ -25,7 +25,8 @@ import {
   User,
   LogOut,
   Bell,
-  ExternalLink
+  ExternalLink,
+  Cpu
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -36,7 +37,103 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Progress } from '@/components/ui/progress'
 import { useUser } from '@/contexts/user-context'
-import { OrderDetail, OrderStatus } from '@/lib/types/order-details'
+import { OrderConfiguration, OrderDetail, OrderFile, OrderStatus } from '@/lib/types/order-details'
+import { fromBendRequirements } from '@/lib/utils/bendTable'
+import { catalogDieSet, exportMachineProgram, MACHINE_PROGRAM_FORMATS, MachineProgramFormat } from '@/lib/utils/machineProgram'
+import { parseInchSize } from '@/lib/utils/pricing'
+import { exportShopDrawing, SHOP_DRAWING_FORMATS, ShopDrawingFormat } from '@/lib/utils/shopDrawing'
+import { loadToolingCatalog, matchTooling } from '@/lib/utils/tooling'
+
+const MM_PER_INCH = 25.4
+
+/**
+ * Tube size and bend table of one order item, in millimeters
+ */
+function itemGeometry(config: OrderConfiguration) {
+  const spec = config.specifications.tubeSpecification
+  const toMm = spec.units === 'mm' ? 1 : MM_PER_INCH
+  return {
+    tube: {
+      outerDiameter: parseInchSize(spec.diameter) * MM_PER_INCH,
+      wallThickness: parseInchSize(spec.wallThickness) * MM_PER_INCH
+    },
+    table: fromBendRequirements(config.specifications.bendRequirements, spec.length * toMm)
+  }
+}
+
+/**
+ * Add the shop drawings (SVG and PDF) of every order item to the order files.
+ * The drawings are generated in the browser and linked as data URLs.
+ */
+function attachShopDrawings(order: OrderDetail): OrderDetail {
+  const drawings = order.configurations.flatMap((config, i) => {
+    const { tube, table } = itemGeometry(config)
+    const input = {
+      partName: config.name,
+      orderNumber: order.orderNumber,
+      drawingNumber: `${order.orderNumber}-${i + 1}`,
+      customer: order.customer.company ?? order.customer.name,
+      materialId: config.specifications.material.id,
+      materialName: config.specifications.material.name,
+      tube,
+      quantity: config.quantity,
+      table,
+      tolerances: config.specifications.tolerances,
+      finishing: config.specifications.finishing,
+      units: config.specifications.tubeSpecification.units,
+      date: order.createdAt
+    }
+
+    return (Object.keys(SHOP_DRAWING_FORMATS) as ShopDrawingFormat[]).map((format): OrderFile => {
+      const drawing = exportShopDrawing(input, format)
+      return {
+        id: `drawing-${config.id}-${format}`,
+        name: drawing.fileName,
+        type: 'drawing',
+        url: `data:${drawing.mimeType};charset=utf-8,${encodeURIComponent(drawing.content)}`,
+        uploadedAt: order.createdAt,
+        size: drawing.content.length
+      }
+    })
+  })
+
+  return { ...order, files: [...order.files, ...drawings] }
+}
+
+/**
+ * Write a bender program for one order item, on the catalog die its bends match, and download it
+ */
+function downloadMachineProgram(config: OrderConfiguration, orderNumber: string, format: MachineProgramFormat) {
+  const { tube, table } = itemGeometry(config)
+  const catalog = loadToolingCatalog()
+  const { matches } = matchTooling({
+    partName: config.name,
+    bendTable: table,
+    ...tube,
+    materialId: config.specifications.material.id
+  }, catalog)
+
+  const program = exportMachineProgram({
+    partName: config.name,
+    orderNumber,
+    materialId: config.specifications.material.id,
+    materialName: config.specifications.material.name,
+    tube,
+    quantity: config.quantity,
+    table,
+    dieSet: catalogDieSet(matches, catalog)
+  }, format)
+
+  const blob = new Blob([program.content], { type: program.mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = program.fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
 
 export default function OrderDetailPage() {
   const router = useRouter()
@@ -88,7 +185,7 @@ export default function OrderDetailPage() {
 
               specifications: {
                 material: {
-                  id: 'steel-1',
+                  id: 'carbon-steel',
                   name: 'Steel (1" Tube)',
                   description: 'Carbon steel tubing',
                   properties: {
@@ -104,9 +201,9 @@ export default function OrderDetailPage() {
                   units: 'inches'
                 },
                 bendRequirements: [
-                  { angle: 45, radius: 3, position: 12, tolerance: 1 },
-                  { angle: 90, radius: 3, position: 24, tolerance: 1 },
-                  { angle: 30, radius: 3, position: 36, tolerance: 1 }
+                  { angle: 45, rotation: 0, radius: 3, position: 12, tolerance: 1 },
+                  { angle: 90, rotation: 90, radius: 3, position: 24, tolerance: 1 },
+                  { angle: 30, rotation: -45, radius: 3, position: 36, tolerance: 1 }
                 ],
                 tolerances: {
                   bendAngle: 1,
@@ -282,7 +379,7 @@ export default function OrderDetailPage() {
           }
         }
 
-        setOrder(mockOrder)
+        setOrder(attachShopDrawings(mockOrder))
       } catch (error) {
         console.error('Failed to fetch order details:', error)
       } finally {
@@ -552,6 +649,37 @@ export default function OrderDetailPage() {
                     </CardContent>
                   </Card>
                 )}
+
+                {/* Documents */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Documents</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {order.files.map((file) => (
+                        <div key={file.id} className="flex items-center justify-between border rounded-lg p-3">
+                          <div className="flex items-center space-x-3">
+                            <FileText className="w-5 h-5 text-gray-500" />
+                            <div>
+                              <div className="font-medium">{file.name}</div>
+                              <div className="text-sm text-gray-600 capitalize">
+                                {file.type.replace('-', ' ')}
+                                {file.size ? ` • ${Math.max(1, Math.round(file.size / 1024))} KB` : ''}
+                              </div>
+                            </div>
+                          </div>
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={file.url} download={file.name}>
+                              <Download className="w-4 h-4 mr-2" />
+                              Download
+                            </a>
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
               </div>
 
               {/* Order Details Sidebar */}
@@ -678,6 +806,45 @@ export default function OrderDetailPage() {
                 </Table>
               </CardContent>
             </Card>
+
+            {user.role === 'admin' && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Cpu className="w-5 h-5 mr-2" />
+                    Machine Programs
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    Bend programs with springback-compensated angles and the die set in the header.
+                  </p>
+                  {order.configurations.map((config) => (
+                    <div key={config.id} className="flex flex-wrap items-center justify-between gap-3 border rounded-lg p-3">
+                      <div>
+                        <div className="font-medium">{config.name}</div>
+                        <div className="text-sm text-gray-600">
+                          {config.specifications.bendRequirements.length} bends • {config.specifications.material.name}
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {(Object.keys(MACHINE_PROGRAM_FORMATS) as MachineProgramFormat[]).map((format) => (
+                          <Button
+                            key={format}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => downloadMachineProgram(config, order.orderNumber, format)}
+                          >
+                            <Download className="w-4 h-4 mr-2" />
+                            {MACHINE_PROGRAM_FORMATS[format].label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           {/* Shipping Tab */}
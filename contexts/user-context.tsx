@@ -563,6 +563,9 @@ export function UserProvider({ children }: { children: React.ReactNode }) {
       fileName: payload.file.name,
       lengthInches: payload.file.lengthInches,
       lengthMm: payload.file.lengthMm,
+      unitConfirmation: payload.file.unitConfirmation,
+      ruleSetVersion: payload.quote.ruleSetVersion,
+      engineVersion: payload.quote.engineVersion,
       total: payload.quote.total,
       pricePerPart: payload.quote.pricePerPart,
     }
@@ -4,15 +4,17 @@ export const fileUploadSchema = z.object({
   file: z.instanceof(File).nullable(),
   fileName: z.string().min(1, 'File name is required'),
   fileSize: z.number().positive('File size must be positive').max(50 * 1024 * 1024, 'File size must be under 50MB'),
-  fileType: z.enum(['step', 'iges', 'dxf', 'stp', 'igs'], {
-    errorMap: () => ({ message: 'File must be STEP, IGES, or DXF format' })
+  fileType: z.enum(['step', 'iges', 'dxf', 'stp', 'igs', 'csv', 'stl', 'obj', '3mf', 'gltf'], {
+    errorMap: () => ({ message: 'File must be STEP, IGES, DXF, a mesh (STL, OBJ, 3MF, glTF) or a CSV bend table' })
   }),
   isValid: z.boolean(),
   preview: z.string().optional()
 })
 
 export const tubeSpecificationSchema = z.object({
+  profile: z.enum(['round', 'square', 'rectangular', 'oval']).optional(),
   diameter: z.string().min(1, 'Diameter is required'),
+  height: z.string().optional(),
   wallThickness: z.string().min(1, 'Wall thickness is required'),
   length: z.number().positive('Length must be positive').max(240, 'Maximum length is 20 feet')
 })
@@ -1,10 +1,20 @@
+import type { ProfileShape } from './geometry'
+import type { UnitSource } from './parser'
+import type { DfmReport } from './dfm'
+import type { NestingPlan } from './nesting'
+import type { ToolingReport } from './tooling'
+
+export type TubeProfile = ProfileShape
+
 export interface Material {
   id: string
   name: string
   description: string
-  basePrice: number // per foot
+  pricePerLb: number
+  density: number // lbs per cubic inch
+  color: string // swatch shown in the material picker
+  gauges: string[] // wall thickness options, e.g. '14 AWG (0.083")'
   available: boolean
-  pricePerLb?: number
   properties?: {
     density: number
     tensile_strength: number
@@ -13,24 +23,44 @@ export interface Material {
 }
 
 export interface TubeSpecification {
-  diameter: string
+  profile?: TubeProfile // defaults to 'round'
+  diameter: string // OD for round tube, width (larger side) for other profiles
+  height?: string // smaller side for rectangular and oval profiles
   wallThickness: string
   length: number
 }
 
 export interface BendRequirement {
   angle: number
-  radius: number
+  rotation?: number // plane rotation before this bend, degrees
+  radius: number // centerline radius in inches (0 when unknown)
   position: number
+  radiusResidual?: number // arc fit residual in inches when the radius was measured from a file
+  isValid?: boolean // false when a DFM rule flags this bend
+  machineAngle?: number // springback-compensated angle to program, degrees
+  radiusGrowth?: number // CLR increase after springback, inches
 }
 
 export interface FileUploadData {
   file: File | null
   fileName: string
   fileSize: number
-  fileType: 'step' | 'iges' | 'dxf' | 'stp' | 'igs' | string
+  fileType: 'step' | 'iges' | 'dxf' | 'stp' | 'igs' | 'csv' | 'stl' | 'obj' | '3mf' | 'gltf' | string
   isValid: boolean
   preview?: string
+  unitConfirmation?: UnitConfirmation // unset while low-confidence units await the customer
+}
+
+/**
+ * How the units of an uploaded file were settled, kept on the order for audit
+ */
+export interface UnitConfirmation {
+  detectedUnits: string
+  source: UnitSource // where the detected units came from
+  confidence: number
+  units: string // units the part was analyzed and quoted in
+  method: 'accepted' | 'confirmed' | 'overridden' // accepted: confident detection, no review needed
+  confirmedAt: string
 }
 
 export interface MaterialSelection {
@@ -52,16 +82,75 @@ export interface ManufacturingSpec {
   rushOrder: boolean
 }
 
+export type PricingComponent =
+  | 'material'
+  | 'bending'
+  | 'cutting'
+  | 'labor'
+  | 'machine'
+  | 'setup'
+  | 'tooling'
+  | 'finishing'
+  | 'tolerance'
+  | 'discount'
+  | 'rush'
+
+/**
+ * One priced line of a quote and where its amount came from
+ */
+export interface PricingLineItem {
+  rule: string // id of the quote rule that produced the line; admin rules are prefixed 'admin:'
+  component: PricingComponent
+  label: string
+  basis: string // how the amount was derived, e.g. '12 bends × 10 parts @ $15.00'
+  quantity: number
+  unit: string
+  rate: number
+  amount: number // negative for discounts
+}
+
 export interface PricingBreakdown {
   materialCost: number
   bendingCost: number
+  cuttingCost: number
+  laborCost: number
+  machineCost: number
   finishingCost: number
+  toleranceCost: number
   setupCost: number
+  toolingCost: number // custom dies the order needs
+  discount: number // quantity discount, subtracted from the subtotal
   rushFee: number
   subtotal: number
+  taxRate: number
   tax: number
   total: number
+  pricePerPart: number // per assembly when the part is an assembly
   leadTime: string
+  ruleSetVersion: number // pricing rule-set version the quote was priced with
+  engineVersion: number // quote engine version the quote was priced with
+  lineItems: PricingLineItem[]
+  lines?: PricedLine[] // tube lines of a multi-body assembly, each priced on its own
+  nesting?: NestingPlan[] // sticks bought per material and size, with the saw cut list
+  dfm?: DfmReport
+  tooling?: ToolingReport // dies matched per bend and custom dies charged to the order
+  details: {
+    materialWeight: number // lbs of stock charged per part (per assembly for assemblies)
+    cutLength: number // mm of blank per part (per assembly for assemblies)
+    laborHours: number
+    machineHours: number
+    cycleTime?: number // machine seconds per part (per assembly for assemblies)
+    dfmSurcharge?: number // labor and machine cost of the slower forming of DFM-flagged bends
+  }
+}
+
+/**
+ * One unique tube of an assembly as priced by the quote engine
+ */
+export interface PricedLine {
+  name: string
+  quantityPerAssembly: number
+  pricing: PricingBreakdown
 }
 
 export interface ConfigurationState {
@@ -0,0 +1,42 @@
+export type DfmSeverity = 'blocking' | 'warning' | 'info'
+
+export type DfmRuleId =
+  | 'min-clr'
+  | 'min-straight-between-bends'
+  | 'min-end-straight'
+  | 'max-bend-angle'
+  | 'machine-envelope'
+  | 'machine-od'
+  | 'wall-factor'
+
+/**
+ * One finding of the manufacturability check. Lengths in millimeters.
+ */
+export interface DfmIssue {
+  ruleId: DfmRuleId
+  severity: DfmSeverity
+  message: string
+  bendIndex?: number // 1-based bend the issue refers to
+  value?: number // measured value
+  limit?: number // rule limit the value was compared against
+  partName?: string // tube line of an assembly
+}
+
+export interface DfmReport {
+  issues: DfmIssue[]
+  manufacturable: boolean // false when any blocking issue exists
+  flaggedBends: number[] // bend indices with blocking or warning issues
+}
+
+/**
+ * Capabilities of the bending cell the part is checked against. Lengths in millimeters.
+ */
+export interface MachineLimits {
+  minOuterDiameter: number
+  maxOuterDiameter: number
+  maxBendAngle: number
+  maxCutLength: number // longest straight stock the machine feeds
+  maxEnvelope: number // largest bent-part dimension that clears the machine
+  minClampLengthFactor: number // clamp length as a multiple of OD
+  minChuckLength: number // straight the collet needs to hold the tube
+}
@@ -0,0 +1,83 @@
+export interface Point3 {
+  x: number
+  y: number
+  z: number
+}
+
+/**
+ * One row of an LRA (length / rotation / angle) bend table.
+ * All lengths are in millimeters, all angles in degrees.
+ */
+export interface BendTableEntry {
+  index: number // 1-based, in feed order
+  feedLength: number // L: straight feed before this bend
+  rotation: number // R: plane rotation before this bend (-180..180)
+  angle: number // A: bend angle
+  radius?: number // measured centerline radius (CLR)
+  radiusResidual?: number // RMS deviation of the centerline from the fitted arc
+  machineAngle?: number // springback-compensated angle to program
+  radiusGrowth?: number // CLR increase after springback
+  intersection: Point3 // XYZ intersection point of the straights around this bend
+}
+
+export interface BendTable {
+  bends: BendTableEntry[]
+  finalLength: number // straight after the last bend
+  points: Point3[] // ordered XYZ points: start, intersections..., end
+  confidence: number
+  source: string // centerline the table was extracted from
+}
+
+export type ProfileShape = 'round' | 'square' | 'rectangular' | 'oval'
+
+/**
+ * Tube profile measured from cross-section slices of the solid. Dimensions in millimeters;
+ * for non-round profiles outerDiameter is the larger outside dimension (width).
+ */
+export interface CrossSectionProfile {
+  shape: ProfileShape
+  outerDiameter: number
+  innerDiameter: number // 0 for solid bar
+  wallThickness: number
+  width?: number
+  height?: number
+  confidence: number
+  assumed?: boolean // OD is the stock size picked for a wireframe centerline, not measured from a solid
+}
+
+export type AssemblyBodyKind = 'tube' | 'other'
+
+/**
+ * One solid body of a multi-body STEP/IGES file. Lengths in millimeters.
+ */
+export interface AssemblyBody {
+  id: number
+  name: string // STEP product name
+  kind: AssemblyBodyKind
+  meshIndices: number[] // into the parsed meshes
+  totalLength: number
+  estimatedBends: number
+  estimatedCuts: number
+  bendTable?: BendTable
+  crossSection?: CrossSectionProfile
+}
+
+/**
+ * A unique tube of an assembly; identical tube bodies are rolled up into one line
+ */
+export interface AssemblyTubeLine {
+  key: string // geometry signature shared by duplicate bodies
+  name: string
+  bodyIds: number[]
+  quantity: number // occurrences per assembly
+  totalLength: number
+  estimatedBends: number
+  estimatedCuts: number
+  bendTable?: BendTable
+  crossSection?: CrossSectionProfile
+}
+
+export interface AssemblyAnalysis {
+  bodies: AssemblyBody[]
+  tubeLines: AssemblyTubeLine[]
+}
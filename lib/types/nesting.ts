@@ -0,0 +1,33 @@
+/**
+ * Cut blanks of one tube line, all from the same material and size. Lengths in millimeters.
+ */
+export interface NestingPiece {
+  partName: string
+  length: number // saw length of the blank
+  quantity: number
+}
+
+/**
+ * One purchased stick and the blanks sawn from it, in saw order
+ */
+export interface NestedStick {
+  stockLength: number
+  cuts: Array<{ partName: string; length: number }>
+  usedLength: number // blanks plus kerf plus the drop allowance
+  remnant: number // what is left of the stick
+  scrap: boolean // remnant too short to keep
+}
+
+/**
+ * Sticks of one material and size bought for an order
+ */
+export interface NestingPlan {
+  groupKey: string
+  label: string // e.g. 'Carbon Steel 1" OD × 14 AWG (0.083")'
+  sticks: NestedStick[]
+  purchasedLength: number
+  partsLength: number // saw length of all blanks
+  yield: number // partsLength / purchasedLength
+  remnants: number[] // reusable remnant lengths
+  oversized: NestingPiece[] // blanks longer than any stock length, not nested
+}
@@ -94,6 +94,7 @@ export interface OrderConfiguration {
     }
     bendRequirements: {
       angle: number
+      rotation?: number // plane rotation before this bend, degrees
       radius: number
       position: number
       tolerance?: number
@@ -1,21 +1,43 @@
-import { QuoteBreakdown } from '@/lib/utils/quoteCalculator'
+import type { BendRequirement, ManufacturingSpec, PricingBreakdown, TubeProfile, UnitConfirmation } from '@/lib/types/configuration'
 
 export type OrderActionType = 'submit' | 'save'
 
+/**
+ * One unique tube of a multi-body assembly, quoted for quantity × quantityPerAssembly parts
+ */
+export interface QuoteLine {
+  name: string
+  quantityPerAssembly: number
+  lengthInches: number
+  lengthMm: number
+  cutLengthMm?: number // blank length sawn from stock
+  bends: number
+  cuts: number
+  bendRequirements?: BendRequirement[]
+  quote: PricingBreakdown
+}
+
 export interface PendingOrderPayload {
   materialId?: string
   materialName: string
   gauge: string
+  profile?: TubeProfile
+  outerDiameter?: string
   quantity: number
-  quote: QuoteBreakdown
+  specifications?: ManufacturingSpec // finishing, tolerances and rush the quote was priced with
+  quote: PricingBreakdown
   file: {
     name: string
     lengthInches: number
     lengthMm: number
+    cutLengthMm?: number
     originalUnits?: string
+    unitConfirmation?: UnitConfirmation
     bends: number
     cuts: number
+    bendRequirements?: BendRequirement[]
   }
+  lines?: QuoteLine[] // set for assemblies with several tubes
   createdAt: string
 }
 
@@ -33,6 +55,9 @@ export interface UserOrderRecord {
   fileName: string
   lengthInches: number
   lengthMm: number
+  unitConfirmation?: UnitConfirmation // how the file units were settled, for audit
+  ruleSetVersion?: number // pricing rule-set version the total was quoted with
+  engineVersion?: number // quote engine version the total was quoted with
   total: number
   pricePerPart: number
 }
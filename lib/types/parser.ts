@@ -0,0 +1,56 @@
+import type { CADParserOptions, ParsedGeometry } from '@/lib/utils/cadFileParser'
+
+/**
+ * Stages reported while a CAD file is parsed and analyzed, in execution order
+ */
+export type ParseStage = 'reading' | 'tessellating' | 'analyzing-units' | 'centerline' | 'bends'
+
+/**
+ * Where the units of a parsed file came from, from most to least trustworthy
+ */
+export type UnitSource =
+  | 'user' // picked or confirmed by the customer
+  | 'step-header' // SI_UNIT / CONVERSION_BASED_UNIT in the STEP data section
+  | 'iges-global' // unit flag of the IGES global section
+  | 'dxf-header' // $INSUNITS
+  | 'mesh-file' // 3MF unit attribute, glTF meters
+  | 'bend-table' // units line of an imported bend table
+  | 'geometry' // guessed from the size of the part
+
+export interface UnitDetection {
+  units: string // units the analysis was run in
+  source: UnitSource
+  confidence: number // 0..1; below UNIT_CONFIRMATION_THRESHOLD the customer must confirm
+  suggestedUnit?: string // set when the part size does not fit the declared units
+  extentMm: number // largest bounding box dimension in millimeters at these units
+  needsConfirmation: boolean
+}
+
+export interface ParseProgress {
+  stage: ParseStage
+  progress: number // overall completion 0..1
+}
+
+/**
+ * Mesh buffers as transferred from the parser worker to the main thread
+ */
+export interface SerializedMesh {
+  position: Float32Array
+  normal?: Float32Array
+  index?: Uint32Array
+}
+
+/**
+ * Work is cancelled by terminating the worker, so parsing is the only request
+ */
+export interface ParserWorkerRequest {
+  type: 'parse'
+  id: number
+  file: File
+  options: Omit<CADParserOptions, 'onProgress' | 'signal'>
+}
+
+export type ParserWorkerResponse =
+  | { type: 'progress'; id: number; progress: ParseProgress }
+  | { type: 'result'; id: number; meshes: SerializedMesh[]; analysis: ParsedGeometry['analysis'] }
+  | { type: 'error'; id: number; message: string }
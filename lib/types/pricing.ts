@@ -0,0 +1,82 @@
+import type { PricingComponent } from './configuration'
+import type { ToolingKind } from './tooling'
+
+export type CustomerTier = 'standard' | 'business'
+
+/**
+ * Shop rates the quote engine prices with. Money in dollars, times in hours.
+ * Bending and setup time come from the cycle-time estimate of the machine the tube runs on, and material
+ * weight from the tube section and the material density.
+ */
+export interface PricingRates {
+  consumablesPerBend: number // lubricant and die wear; bending time is charged as labor and machine time
+  cuttingCostPerCut: number
+  laborRate: number // per hour
+  machineRates: Record<string, number> // per machine hour, by machine profile id
+  timePerCut: number
+  dfmBendMultiplier: number // forming-time multiplier for bends flagged by DFM rules
+  customDieCosts: Record<ToolingKind, number> // per tool the catalog lacks
+  toolingAmortizationParts: number // parts a custom die is amortized over; 0 charges it in full
+  finishingRates: Record<string, number> // per square foot of outside surface
+  rushRate: number // share of the discounted subtotal
+  taxRate: number
+  quantityDiscounts: Array<{ minQuantity: number; discount: number }>
+}
+
+export type PricingRuleField = 'material' | 'outerDiameter' | 'bendCount' | 'quantity' | 'customerTier' | 'finish'
+
+export type PricingRuleOperator = 'equals' | 'not-equals' | 'at-least' | 'at-most'
+
+/**
+ * One condition of a pricing rule. outerDiameter is compared in inches.
+ */
+export interface PricingRuleCondition {
+  field: PricingRuleField
+  operator: PricingRuleOperator
+  value: string | number
+}
+
+/**
+ * What a matching rule does to a cost component:
+ * add a fixed amount, multiply the component, or replace its amount
+ */
+export interface PricingRuleAction {
+  type: 'add' | 'multiply' | 'override'
+  component: PricingComponent
+  value: number // dollars for add and override, factor for multiply
+  per: 'order' | 'part' // add and override only
+}
+
+export interface PricingRule {
+  id: string
+  name: string
+  enabled: boolean
+  conditions: PricingRuleCondition[] // all must match; none matches every quote
+  action: PricingRuleAction
+}
+
+/**
+ * An immutable version of the shop rates and rules. The version in effect is the
+ * newest one whose effective date has passed.
+ */
+export interface PricingRuleSet {
+  version: number
+  effectiveFrom: string // ISO date
+  createdAt: string
+  createdBy?: string
+  note?: string
+  rates: PricingRates
+  rules: PricingRule[]
+}
+
+/**
+ * Facts about a quote that rule conditions are evaluated against
+ */
+export interface PricingFacts {
+  material: string
+  outerDiameter: number // inches
+  bendCount: number
+  quantity: number
+  customerTier: CustomerTier
+  finish: string
+}
@@ -0,0 +1,78 @@
+import type { Point3 } from './geometry'
+
+/**
+ * Rotary draw bender model in the machine frame (millimeters): the origin is the start of the
+ * bend at the bend die, +X points from the carriage toward the bend head, the die center lies
+ * at (0, CLR, 0) and +Z points up.
+ */
+export interface BenderModel {
+  dieHeight: number // bend die stack height
+  bendHead: { radius: number; depth: number } // housing below the die, around the die axis
+  clampDie: { length: number; width: number; height: number } // swings with the tube
+  pressureDie: { length: number; width: number; height: number } // static, along the tail
+  carriage: { length: number; width: number; height: number } // holds the tail end in the collet
+  floorHeight: number // tube centerline height above the floor
+  angleStep: number // degrees between simulated poses
+}
+
+export type CollisionObstacle = 'bend-die' | 'bend-head' | 'clamp-die' | 'pressure-die' | 'carriage' | 'floor' | 'tube'
+
+export interface CollisionBox {
+  obstacle: CollisionObstacle
+  center: Point3
+  size: Point3
+  rotationZ: number // radians about the die axis
+}
+
+export interface CollisionResult {
+  collided: boolean
+  bendIndex?: number // 1-based bend during which the collision happens
+  phase?: 'rotate' | 'bend'
+  angle?: number // rotation or bend angle reached when the collision happens, degrees
+  obstacle?: CollisionObstacle
+  point?: Point3 // centerline point that collides, machine frame
+  pose?: { lead: Point3[]; tail: Point3[] } // tube centerline at the collision, machine frame
+  radius?: number // CLR of the colliding bend
+  tailLength?: number // unbent tube between the bend die and the collet at the collision
+}
+
+/**
+ * Axis speeds and fixed times of a bending cell, used to estimate cycle times.
+ * Speeds in mm/s and degrees/s, times in seconds.
+ */
+export interface MachineProfile {
+  id: string
+  name: string
+  maxOuterDiameter: number // mm
+  feedSpeed: number // carriage feed (Y axis)
+  rotateSpeed: number // collet rotation (B axis)
+  bendSpeed: number // bend arm (C axis) while forming
+  returnSpeed: number // bend arm back to home after each bend
+  simultaneousFeedRotate: boolean // feed and rotation move together (all-electric machines)
+  clampTime: number // close clamp and pressure dies before each bend and open them after
+  loadUnloadTime: number // load a blank into the collet and take the finished part out
+  changeoverTime: number // swap one die set (bend, clamp and pressure dies, mandrel)
+}
+
+/**
+ * Time of one bend of the cycle, in seconds: feed to the bend, rotate to its plane,
+ * clamp and form, and return the bend arm
+ */
+export interface CycleStep {
+  bendIndex: number
+  feed: number
+  rotate: number
+  bend: number
+  return: number
+  total: number // feed and rotate overlap on machines that move them together
+}
+
+export interface CycleTimeEstimate {
+  machineId: string
+  steps: CycleStep[]
+  eject: number // feed of the last straight out of the machine
+  loadUnload: number
+  cycleTime: number // seconds per part
+  dieSets: number // distinct CLRs, each a die set to change over to
+  changeover: number // seconds per setup
+}
@@ -0,0 +1,65 @@
+export type ToolingKind = 'bend-die' | 'clamp-die' | 'pressure-die' | 'wiper-die' | 'mandrel'
+
+/**
+ * Inclusive range a tool fits, in millimeters
+ */
+export interface ToolingRange {
+  min: number
+  max: number
+}
+
+/**
+ * One tool in the shop's tooling catalog. Bend dies and wiper dies are cut for a
+ * centerline radius; mandrels fit a range of walls through the tube ID.
+ */
+export interface ToolingItem {
+  id: string
+  kind: ToolingKind
+  name: string
+  outerDiameter: ToolingRange
+  clr?: ToolingRange // bend and wiper dies
+  wallThickness?: ToolingRange // mandrels
+  available: boolean // false while out for repair or on loan
+}
+
+/**
+ * Tools matched to one bend of a tube. Tool ids by kind; kinds without a tool in the catalog are missing.
+ */
+export interface BendToolingMatch {
+  partName?: string
+  bendIndex: number
+  radius?: number // measured CLR; bends without one are not matched
+  needsMandrel: boolean
+  tools: Partial<Record<ToolingKind, string>>
+  missing: ToolingKind[]
+}
+
+/**
+ * A tool the order needs that the shop does not own
+ */
+export interface CustomDie {
+  key: string // kind and size; one die serves every bend and tube line that needs it
+  kind: ToolingKind
+  name: string
+  outerDiameter: number
+  clr?: number
+  wallThickness?: number
+  partName?: string
+  bends: number[] // bend indices of the first tube that needs it
+  cost: number // charge to the order, after amortization
+  suggestion?: ClrSuggestion // bend dies only
+}
+
+/**
+ * An owned bend die the customer could design to instead of ordering a custom die
+ */
+export interface ClrSuggestion {
+  toolId: string
+  toolName: string
+  clr: number
+}
+
+export interface ToolingReport {
+  matches: BendToolingMatch[]
+  customDies: CustomDie[]
+}
@@ -62,7 +62,7 @@ export interface ProjectFile {
   projectId: string
   fileName: string
   fileSize: number
-  fileType: 'step' | 'iges' | 'dxf' | 'stp' | 'igs'
+  fileType: 'step' | 'iges' | 'dxf' | 'stp' | 'igs' | 'csv' | 'stl' | 'obj' | '3mf' | 'gltf'
   fileUrl: string
   uploadedAt: Date
   isPrimary: boolean
@@ -0,0 +1,100 @@
+import { Vector3 } from 'three'
+import { describe, expect, it } from 'vitest'
+import type { BendTable } from '@/lib/types/geometry'
+import { extractBendTable, fromBendRequirements } from '../bendTable'
+import { filletPolyline } from '../wireframe'
+
+const ANGLE_TOLERANCE = 0.5 // degrees
+const POINT_TOLERANCE = 1 // mm
+const RADIUS_TOLERANCE = 0.02 // relative
+const FEED_TOLERANCE = 2 // mm
+
+/**
+ * Centerline of the tube a bend table describes, as a polyline with points about `spacing` apart
+ * that lie exactly on the bend arcs
+ */
+function sweptCenterline(table: BendTable, spacing = 5): Vector3[] {
+  const chain = filletPolyline(
+    table.points.map(p => new Vector3(p.x, p.y, p.z)),
+    table.bends.map(bend => bend.radius ?? 0)
+  )
+  const points = [chain[0].points[0]]
+  for (const curve of chain) {
+    for (let i = 1; i < curve.points.length; i++) {
+      const from = curve.points[i - 1]
+      const steps = Math.max(1, Math.ceil(curve.points[i].distanceTo(from) / spacing))
+      for (let step = 1; step <= steps; step++) {
+        const point = from.clone().lerp(curve.points[i], step / steps)
+        if (curve.arc) {
+          point.sub(curve.arc.center).setLength(curve.arc.radius).add(curve.arc.center)
+        }
+        points.push(point)
+      }
+    }
+  }
+  return points
+}
+
+function expectSameBends(actual: BendTable | null, design: BendTable) {
+  expect(actual).not.toBeNull()
+  expect(actual!.bends).toHaveLength(design.bends.length)
+  actual!.bends.forEach((bend, i) => {
+    expect(Math.abs(bend.angle - design.bends[i].angle)).toBeLessThan(ANGLE_TOLERANCE)
+    expect(Math.abs(bend.rotation - design.bends[i].rotation)).toBeLessThan(1)
+    expect(Math.abs(bend.radius! / design.bends[i].radius! - 1)).toBeLessThan(RADIUS_TOLERANCE)
+    expect(Math.abs(bend.feedLength - design.bends[i].feedLength)).toBeLessThan(FEED_TOLERANCE)
+  })
+  expect(Math.abs(actual!.finalLength - design.finalLength)).toBeLessThan(FEED_TOLERANCE)
+  // Start, intersections and end of the XYZ table
+  actual!.points.forEach((point, i) => {
+    const target = design.points[i]
+    expect(Math.hypot(point.x - target.x, point.y - target.y, point.z - target.z)).toBeLessThan(POINT_TOLERANCE)
+  })
+}
+
+// 1" tube, three 3" CLR bends in three planes, 48" long
+const threePlane = fromBendRequirements([
+  { angle: 45, rotation: 0, radius: 3, position: 12 },
+  { angle: 90, rotation: 90, radius: 3, position: 24 },
+  { angle: 30, rotation: -45, radius: 3, position: 36 }
+], 48 * 25.4)
+
+// Two opposed 45° bends with a 1.5" CLR, 18" long
+const sBend = fromBendRequirements([
+  { angle: 45, rotation: 0, radius: 1.5, position: 6 },
+  { angle: 45, rotation: 180, radius: 1.5, position: 12 }
+], 18 * 25.4)
+
+describe('extractBendTable', () => {
+  it('finds no bends on a straight tube', () => {
+    const table = extractBendTable(sweptCenterline(fromBendRequirements([], 300)))
+
+    expect(table?.bends).toHaveLength(0)
+    expect(table?.finalLength).toBeCloseTo(300, 0)
+  })
+
+  it('recovers the bends of a three-plane part', () => {
+    expectSameBends(extractBendTable(sweptCenterline(threePlane)), threePlane)
+  })
+
+  it('recovers the plane flip of an S-bend', () => {
+    const table = extractBendTable(sweptCenterline(sBend))
+
+    expectSameBends(table, sBend)
+    expect(Math.abs(table!.bends[1].rotation)).toBeCloseTo(180, 0)
+  })
+
+  it('does not depend on how densely the centerline is sampled', () => {
+    const dense = extractBendTable(sweptCenterline(threePlane, 1))
+    const sparse = extractBendTable(sweptCenterline(threePlane, 5))
+
+    expectSameBends(dense, threePlane)
+    expectSameBends(sparse, threePlane)
+  })
+
+  it('scales centerlines in file units to millimeters', () => {
+    const inches = sweptCenterline(threePlane).map(p => p.clone().divideScalar(25.4))
+
+    expectSameBends(extractBendTable(inches, { scale: 25.4, source: 'test' }), threePlane)
+  })
+})
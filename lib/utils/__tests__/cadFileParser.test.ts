@@ -0,0 +1,172 @@
+import { readFileSync } from 'node:fs'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { ParseCancelledError, parseCADFile, type ParsedGeometry } from '../cadFileParser'
+import { createMemoryParseCacheStore, setParseCacheStore } from '../parseCache'
+
+type Check = 'length' | 'angles' | 'radii'
+
+/**
+ * A fixture part and the design it was modeled from. Every check compares the analysis to the
+ * design; checks the heuristics cannot meet yet are listed in `knownGaps` and run as `it.fails`,
+ * so fixing one shows up as a failure to be moved out of the list.
+ */
+interface GoldenFixture {
+  file: string // relative to this directory
+  design: {
+    length?: number // mm, centerline length; omitted for parts that are not tubes
+    bends: Array<{ angle: number; radius: number }> // degrees, mm
+    units: string
+  }
+  knownGaps?: Check[]
+}
+
+const LENGTH_TOLERANCE = 0.02 // relative
+const ANGLE_TOLERANCE = 2 // degrees
+const RADIUS_TOLERANCE = 0.05 // relative
+
+// Round tubes swept from bend tables by exportTubeModel as STEP AP214 solids; 1" x 0.065" unless noted
+const FIXTURES: GoldenFixture[] = [
+  {
+    file: 'fixtures/straight-mm.stp',
+    design: { length: 300, bends: [], units: 'millimeter' },
+    knownGaps: ['length'] // reads 290.5
+  },
+  {
+    // 2" CLR
+    file: 'fixtures/single-bend-90-mm.stp',
+    design: { length: 406.4, bends: [{ angle: 90, radius: 50.8 }], units: 'millimeter' },
+    knownGaps: ['angles', 'radii'] // 86°, 45 mm
+  },
+  {
+    // 3/4" tube, two opposed 45° bends with a 1.5" CLR, modeled in inches
+    file: 'fixtures/s-bend-inch.stp',
+    design: { length: 457.2, bends: [{ angle: 45, radius: 38.1 }, { angle: 45, radius: 38.1 }], units: 'inch' },
+    knownGaps: ['length', 'radii'] // 446 mm, 44 mm
+  },
+  {
+    // 45°, 90° and 30° bends in three planes with a 3" CLR
+    file: 'fixtures/multi-plane-3d-mm.stp',
+    design: {
+      length: 1219.2,
+      bends: [{ angle: 45, radius: 76.2 }, { angle: 90, radius: 76.2 }, { angle: 30, radius: 76.2 }],
+      units: 'millimeter'
+    },
+    knownGaps: ['length', 'angles', 'radii'] // 1164 mm, 25° for the 30° bend, 79–159 mm
+  },
+  {
+    file: 'fixtures/multi-plane-3d-inch.stp',
+    design: {
+      length: 1219.2,
+      bends: [{ angle: 45, radius: 76.2 }, { angle: 90, radius: 76.2 }, { angle: 30, radius: 76.2 }],
+      units: 'inch'
+    },
+    knownGaps: ['length', 'angles', 'radii']
+  },
+  {
+    // The landing page sample: a 300 mm cube, not a tube
+    file: '../../../public/sample-cube.stp',
+    design: { bends: [], units: 'millimeter' }
+  }
+]
+
+const PARSE_TIMEOUT = 60_000
+
+const analyses = new Map<string, Promise<ParsedGeometry['analysis']>>()
+
+/**
+ * Parse a fixture once for all of its checks
+ */
+function parseFixture(path: string): Promise<ParsedGeometry['analysis']> {
+  if (!analyses.has(path)) {
+    const url = new URL(path, import.meta.url)
+    const file = new File([readFileSync(url)], url.pathname.split('/').pop()!)
+    analyses.set(path, parseCADFile(file).then(parsed => parsed.analysis))
+  }
+  return analyses.get(path)!
+}
+
+describe('parseCADFile golden fixtures', () => {
+  beforeAll(() => {
+    setParseCacheStore(null)
+    // The analysis logs every intermediate step
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  for (const fixture of FIXTURES) {
+    const { design } = fixture
+    const name = fixture.file.split('/').pop()
+    const check = (gap: Check) => fixture.knownGaps?.includes(gap) ? it.fails : it
+
+    describe(name!, () => {
+      it('detects the design units from the file', async () => {
+        const analysis = await parseFixture(fixture.file)
+
+        expect(analysis.originalUnits).toBe(design.units)
+        expect(analysis.unitDetection?.source).toBe('step-header')
+        expect(analysis.unitDetection?.needsConfirmation).toBe(false)
+      }, PARSE_TIMEOUT)
+
+      if (design.length !== undefined) {
+        check('length')('measures the design centerline length', async () => {
+          const analysis = await parseFixture(fixture.file)
+
+          expect(Math.abs(analysis.totalLength / design.length! - 1)).toBeLessThan(LENGTH_TOLERANCE)
+        }, PARSE_TIMEOUT)
+      }
+
+      check('angles')('extracts the design bends', async () => {
+        const analysis = await parseFixture(fixture.file)
+        const bends = analysis.bendTable?.bends ?? []
+
+        expect(bends).toHaveLength(design.bends.length)
+        bends.forEach((bend, i) => {
+          expect(Math.abs(bend.angle - design.bends[i].angle)).toBeLessThan(ANGLE_TOLERANCE)
+        })
+      }, PARSE_TIMEOUT)
+
+      if (design.bends.length > 0) {
+        check('radii')('measures the design bend radii', async () => {
+          const analysis = await parseFixture(fixture.file)
+          const bends = analysis.bendTable?.bends ?? []
+
+          expect(bends).toHaveLength(design.bends.length)
+          bends.forEach((bend, i) => {
+            expect(Math.abs((bend.radius ?? 0) / design.bends[i].radius - 1)).toBeLessThan(RADIUS_TOLERANCE)
+          })
+        }, PARSE_TIMEOUT)
+      }
+    })
+  }
+
+  it('analyzes inch and millimeter exports of one part to the same size', async () => {
+    const inch = await parseFixture('fixtures/multi-plane-3d-inch.stp')
+    const mm = await parseFixture('fixtures/multi-plane-3d-mm.stp')
+
+    expect(inch.unitDetection!.extentMm).toBeCloseTo(mm.unitDetection!.extentMm, 1)
+    expect(Math.abs(inch.totalLength / mm.totalLength - 1)).toBeLessThan(0.01)
+  }, PARSE_TIMEOUT)
+})
+
+describe('parseCADFile cache', () => {
+  beforeAll(() => {
+    setParseCacheStore(createMemoryParseCacheStore())
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    setParseCacheStore(null)
+  })
+
+  it('does not return a cached parse once cancelled', async () => {
+    const url = new URL('fixtures/straight-mm.stp', import.meta.url)
+    const file = () => new File([readFileSync(url)], 'straight-mm.stp')
+    await parseCADFile(file())
+
+    const controller = new AbortController()
+    controller.abort()
+    await expect(parseCADFile(file(), { signal: controller.signal })).rejects.toBeInstanceOf(ParseCancelledError)
+    await expect(parseCADFile(file())).resolves.toBeDefined()
+  }, PARSE_TIMEOUT)
+})
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import type { BendRequirement } from '@/lib/types/configuration'
+import type { BendTable, CrossSectionProfile } from '@/lib/types/geometry'
+import type { DfmIssue } from '@/lib/types/dfm'
+import { fromBendRequirements } from '../bendTable'
+import { checkManufacturability } from '../dfm'
+
+const MM_PER_INCH = 25.4
+const OD = MM_PER_INCH
+const WALL = 1.651 // 0.065", wall factor 15.4
+
+/**
+ * Bend table of a 48" tube; positions and radii in inches
+ */
+const tableOf = (bends: Array<Omit<BendRequirement, 'rotation'>>, length = 48) =>
+  fromBendRequirements(bends.map(bend => ({ rotation: 0, ...bend })), length * MM_PER_INCH)
+
+const measured = (outerDiameter: number, assumed = false): CrossSectionProfile =>
+  ({ shape: 'round', outerDiameter, innerDiameter: outerDiameter - 2 * WALL, wallThickness: WALL, confidence: 1, assumed })
+
+const issuesOf = (ruleId: string, issues: DfmIssue[]) =>
+  issues.filter(issue => issue.ruleId === ruleId).map(issue => [issue.severity, issue.bendIndex])
+
+describe('checkManufacturability', () => {
+  it.each([
+    { clr: 0.9, expected: [['blocking', 1]] }, // tighter than 1×D
+    { clr: 1.25, expected: [['warning', 1]] }, // below carbon steel's 1.5×D
+    { clr: 2, expected: [] }
+  ])('checks a $clr" CLR on 1" carbon steel', ({ clr, expected }) => {
+    const report = checkManufacturability({
+      bendTable: tableOf([{ angle: 90, radius: clr, position: 12 }]),
+      crossSection: measured(OD),
+      materialId: 'carbon-steel'
+    })
+
+    expect(issuesOf('min-clr', report.issues)).toEqual(expected)
+    expect(report.manufacturable).toBe(expected[0]?.[0] !== 'blocking')
+  })
+
+  it.each([
+    { wall: 1.651, expected: [] }, // wall factor 15
+    { wall: 0.5, expected: [['warning', 1]] }, // 51, over the 30 mandrel limit at 2D
+    { wall: 0.25, expected: [['blocking', 1]] } // 102, over the 80 collapse limit at 2D
+  ])('checks the wall factor of a $wall mm wall at 2D', ({ wall, expected }) => {
+    const report = checkManufacturability({
+      bendTable: tableOf([{ angle: 90, radius: 2, position: 12 }]),
+      crossSection: measured(OD),
+      wallThickness: wall
+    })
+
+    expect(issuesOf('wall-factor', report.issues)).toEqual(expected)
+  })
+
+  it.each([
+    // The first 3" CLR 90° ends at 16.71"; the second starts after the feed
+    { name: 'a clamp-length straight', second: 18.712, radius: 3, expected: [] },
+    { name: 'a 1" straight', second: 17.712, radius: 3, expected: [['warning', 2]] },
+    // Same intersections with 4" CLRs: the 4" tangents overlap by 1"
+    { name: 'overlapping tangents', second: 17.712, radius: 4, expected: [['blocking', 2]] }
+  ])('checks the straight between bends with $name', ({ second, radius, expected }) => {
+    const table = tableOf([{ angle: 90, radius: 3, position: 12 }, { angle: 90, radius: 3, position: second }])
+    const bendTable: BendTable = { ...table, bends: table.bends.map(bend => ({ ...bend, radius: radius * MM_PER_INCH })) }
+    const report = checkManufacturability({ bendTable, crossSection: measured(OD) })
+
+    expect(issuesOf('min-straight-between-bends', report.issues)).toEqual(expected)
+  })
+
+  it.each([
+    { name: 'long end straights', position: 12, length: 48, expected: 0 },
+    { name: 'a 1" leading straight', position: 1, length: 48, expected: 1 },
+    { name: 'a 1" trailing straight', position: 12, length: 12 + 4.712 + 1, expected: 1 },
+    { name: 'both ends short', position: 1, length: 1 + 4.712 + 1, expected: 2 }
+  ])('checks $name', ({ position, length, expected }) => {
+    const report = checkManufacturability({
+      bendTable: tableOf([{ angle: 90, radius: 3, position }], length),
+      crossSection: measured(OD)
+    })
+
+    expect(issuesOf('min-end-straight', report.issues)).toHaveLength(expected)
+    expect(report.manufacturable).toBe(true)
+  })
+
+  it.each([
+    { name: 'the stock OD without a measured profile', crossSection: undefined, expected: [['blocking', 1]] },
+    { name: 'the stock OD over an assumed wireframe OD', crossSection: measured(2 * OD, true), expected: [['blocking', 1]] },
+    { name: 'the measured OD over the stock OD', crossSection: measured(0.5 * OD), expected: [] }
+  ])('checks CLRs against $name', ({ crossSection, expected }) => {
+    // 0.9" CLR: blocking on 1" stock, 1.8D on a 1/2" measured profile
+    const report = checkManufacturability({
+      bendTable: tableOf([{ angle: 90, radius: 0.9, position: 12 }]),
+      crossSection,
+      outerDiameter: OD,
+      materialId: 'carbon-steel'
+    })
+
+    expect(issuesOf('min-clr', report.issues)).toEqual(expected)
+  })
+
+  it('blocks ODs outside the machine range', () => {
+    expect(issuesOf('machine-od', checkManufacturability({ outerDiameter: 100 }).issues)).toEqual([['blocking', undefined]])
+    expect(issuesOf('machine-od', checkManufacturability({ outerDiameter: 5 }).issues)).toEqual([['blocking', undefined]])
+  })
+
+  it('flags the bends with warnings or blocking issues', () => {
+    const report = checkManufacturability({
+      bendTable: tableOf([{ angle: 90, radius: 3, position: 12 }, { angle: 90, radius: 1.25, position: 24 }]),
+      crossSection: measured(OD),
+      materialId: 'carbon-steel'
+    })
+
+    expect(report.flaggedBends).toEqual([2])
+  })
+})
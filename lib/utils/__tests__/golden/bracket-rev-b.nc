@@ -0,0 +1,10 @@
+(Part: Bracket, rev B)
+(Quantity: 10)
+(Material: Customer supplied)
+(Tube: 19.050 mm OD x 1.245 mm wall)
+(Die set: not specified)
+(Springback: not compensated, machine angle = part angle)
+(Units: mm, degrees)
+N10 Y101.600 B0.000 C90.000
+N20 Y152.400
+N30 M30
@@ -0,0 +1,13 @@
+(Part: Exhaust System - Main Pipe)
+(Order: TB-2024-018)
+(Quantity: 2)
+(Material: 1020 DOM Carbon Steel)
+(Tube: 25.400 mm OD x 1.651 mm wall)
+(Die set: Bend die 1" OD × 3" CLR [76.200 mm CLR])
+(Springback: machine angles compensated)
+(Units: mm, degrees)
+N10 Y304.800 B0.000 C45.651 R76.200
+N20 Y244.953 B90.000 C91.301 R76.200
+N30 Y185.105 B-45.000 C30.434 R76.200
+N40 Y264.902
+N50 M30
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { fromBendRequirements, toBendRequirements } from '../bendTable'
+import { catalogDieSet, exportMachineProgram, type MachineProgramFormat, type MachineProgramInput } from '../machineProgram'
+import { DEFAULT_TOOLING_CATALOG, matchTooling } from '../tooling'
+
+// 1" x 0.065" carbon steel, three 3" CLR bends in three planes, 48" long
+const exhaust: MachineProgramInput = {
+  partName: 'Exhaust System - Main Pipe',
+  orderNumber: 'TB-2024-018',
+  materialId: 'carbon-steel',
+  materialName: '1020 DOM Carbon Steel',
+  tube: { outerDiameter: 25.4, wallThickness: 1.651 },
+  quantity: 2,
+  table: fromBendRequirements([
+    { angle: 45, rotation: 0, radius: 3, position: 12 },
+    { angle: 90, rotation: 90, radius: 3, position: 24 },
+    { angle: 30, rotation: -45, radius: 3, position: 36 }
+  ], 48 * 25.4)
+}
+exhaust.dieSet = catalogDieSet(matchTooling({ ...exhaust.tube, bendTable: exhaust.table }, DEFAULT_TOOLING_CATALOG).matches, DEFAULT_TOOLING_CATALOG)
+
+// Unknown material and a sharp corner: no compensation and no die set
+const bracket: MachineProgramInput = {
+  partName: 'Bracket, rev B',
+  materialName: 'Customer supplied',
+  tube: { outerDiameter: 19.05, wallThickness: 1.245 },
+  quantity: 10,
+  table: fromBendRequirements([
+    { angle: 90, rotation: 0, radius: 0, position: 4 }
+  ], 10 * 25.4)
+}
+
+const formats: MachineProgramFormat[] = ['lra-csv', 'xyz-csv', 'ybc-nc']
+
+describe('exportMachineProgram', () => {
+  for (const format of formats) {
+    it(`writes the ${format} program of a compensated three-plane part`, async () => {
+      const program = exportMachineProgram(exhaust, format)
+      await expect(program.content).toMatchFileSnapshot(`./golden/${program.fileName}`)
+    })
+
+    it(`writes the ${format} program of an uncompensated part without a die set`, async () => {
+      const program = exportMachineProgram(bracket, format)
+      await expect(program.content).toMatchFileSnapshot(`./golden/${program.fileName}`)
+    })
+  }
+
+  it('keeps machine angles already on the bend table', () => {
+    const table = { ...exhaust.table, bends: exhaust.table.bends.map(bend => ({ ...bend, machineAngle: bend.angle + 1 })) }
+    const program = exportMachineProgram({ ...exhaust, table }, 'ybc-nc')
+    expect(program.content).toContain('C46.000')
+    expect(program.content).toContain('C91.000')
+  })
+
+  it('uses the die set passed in', () => {
+    const dieSet = { name: 'Die 25-76', outerDiameter: 25.4, centerlineRadius: 76.2 }
+    const program = exportMachineProgram({ ...exhaust, dieSet }, 'lra-csv')
+    expect(program.content).toContain('# Die set: Die 25-76 (76.200 mm CLR)')
+  })
+
+  it('labels a die set estimated from the bend radii when no catalog die matched', () => {
+    const program = exportMachineProgram({ ...exhaust, dieSet: undefined }, 'lra-csv')
+    expect(program.content).toContain('# Die set: 1.000" OD x 3.000" CLR (76.200 mm CLR, estimated from bend radii, no catalog die matched)')
+  })
+})
+
+describe('catalogDieSet', () => {
+  const table = fromBendRequirements([
+    { angle: 90, rotation: 0, radius: 2, position: 6 },
+    { angle: 45, rotation: 90, radius: 3, position: 18 },
+    { angle: 45, rotation: 0, radius: 3, position: 30 }
+  ], 40 * 25.4)
+
+  it('uses the bend die most bends matched', () => {
+    const { matches } = matchTooling({ ...exhaust.tube, bendTable: table }, DEFAULT_TOOLING_CATALOG)
+    expect(catalogDieSet(matches, DEFAULT_TOOLING_CATALOG)).toEqual({
+      name: 'Bend die 1" OD × 3" CLR',
+      outerDiameter: expect.closeTo(25.4, 6),
+      centerlineRadius: expect.closeTo(76.2, 6)
+    })
+  })
+
+  it('is undefined when no bend matched a catalog die', () => {
+    const { matches } = matchTooling({ outerDiameter: 60, wallThickness: 2, bendTable: table }, DEFAULT_TOOLING_CATALOG)
+    expect(catalogDieSet(matches, DEFAULT_TOOLING_CATALOG)).toBeUndefined()
+  })
+})
+
+describe('fromBendRequirements', () => {
+  it('round-trips the bend requirements of a quote', () => {
+    const requirements = toBendRequirements(exhaust.table)
+    const table = fromBendRequirements(requirements, 48 * 25.4)
+    table.bends.forEach((bend, i) => {
+      expect(bend.feedLength).toBeCloseTo(exhaust.table.bends[i].feedLength, 6)
+      expect(bend.rotation).toBeCloseTo(exhaust.table.bends[i].rotation, 6)
+    })
+    expect(table.finalLength).toBeCloseTo(exhaust.table.finalLength, 6)
+  })
+})
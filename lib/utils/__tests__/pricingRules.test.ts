@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { PricingFacts, PricingRule } from '@/lib/types/pricing'
+import {
+  DEFAULT_PRICING_RATES,
+  getEffectiveRuleSet,
+  getPricingRuleSet,
+  loadPricingRuleSets,
+  ruleMatches,
+  savePricingRuleSet
+} from '../pricingRules'
+
+// Rule sets persist in the browser; keep them in memory here
+const storage = new Map<string, string>()
+
+const saveVersion = (effectiveFrom: string, consumablesPerBend: number) => savePricingRuleSet({
+  rates: { ...DEFAULT_PRICING_RATES, consumablesPerBend },
+  rules: [],
+  effectiveFrom
+})
+
+describe('pricing rule sets', () => {
+  beforeAll(() => {
+    vi.stubGlobal('window', globalThis)
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    })
+  })
+
+  afterAll(() => {
+    vi.unstubAllGlobals()
+  })
+
+  beforeEach(() => {
+    storage.clear()
+  })
+
+  it('numbers saved versions after the default version', () => {
+    expect(saveVersion('2030-01-01T00:00:00.000Z', 2).version).toBe(2)
+    expect(saveVersion('2031-01-01T00:00:00.000Z', 3).version).toBe(3)
+    expect(loadPricingRuleSets().map(set => set.version)).toEqual([1, 2, 3])
+  })
+
+  it('picks the version with the latest effective date that has passed', () => {
+    saveVersion('2030-01-01T00:00:00.000Z', 2)
+    saveVersion('2026-01-01T00:00:00.000Z', 3) // saved later, effective earlier
+
+    expect(getEffectiveRuleSet(new Date('2025-06-01')).version).toBe(1)
+    expect(getEffectiveRuleSet(new Date('2027-06-01')).version).toBe(3)
+    expect(getEffectiveRuleSet(new Date('2030-06-01')).version).toBe(2)
+  })
+
+  it('picks the newer version when two take effect together', () => {
+    saveVersion('2030-01-01T00:00:00.000Z', 2)
+    saveVersion('2030-01-01T00:00:00.000Z', 3)
+
+    expect(getEffectiveRuleSet(new Date('2030-06-01')).rates.consumablesPerBend).toBe(3)
+  })
+
+  it('writes every rate into a saved version', () => {
+    const { machineRates, ...rates } = DEFAULT_PRICING_RATES
+    savePricingRuleSet({
+      rates: { ...rates, machineRates: { 'electric-cnc-40': 120 } } as typeof DEFAULT_PRICING_RATES,
+      rules: [],
+      effectiveFrom: '2030-01-01T00:00:00.000Z'
+    })
+    const saved = JSON.parse(Array.from(storage.values())[0])[0]
+
+    expect(saved.rates.machineRates).toEqual({ ...machineRates, 'electric-cnc-40': 120 })
+    expect(getPricingRuleSet(2)?.rates.machineRates['hydraulic-nc-80']).toBe(machineRates['hydraulic-nc-80'])
+  })
+
+  it('finds no version that was never saved', () => {
+    expect(getPricingRuleSet(2)).toBeUndefined()
+  })
+})
+
+describe('ruleMatches', () => {
+  const facts: PricingFacts = {
+    material: 'stainless-steel',
+    outerDiameter: 1.5,
+    bendCount: 4,
+    quantity: 50,
+    customerTier: 'business',
+    finish: 'none'
+  }
+  const rule = (conditions: PricingRule['conditions'], enabled = true): PricingRule => ({
+    id: 'rule',
+    name: 'Rule',
+    enabled,
+    conditions,
+    action: { type: 'add', component: 'setup', value: 10, per: 'order' }
+  })
+
+  it.each([
+    { conditions: [], matches: true },
+    { conditions: [{ field: 'material', operator: 'equals', value: 'stainless-steel' }], matches: true },
+    { conditions: [{ field: 'material', operator: 'not-equals', value: 'stainless-steel' }], matches: false },
+    { conditions: [{ field: 'quantity', operator: 'at-least', value: 50 }], matches: true },
+    { conditions: [{ field: 'outerDiameter', operator: 'at-most', value: 1 }], matches: false },
+    {
+      conditions: [
+        { field: 'customerTier', operator: 'equals', value: 'business' },
+        { field: 'bendCount', operator: 'at-least', value: 6 }
+      ],
+      matches: false
+    }
+  ] as Array<{ conditions: PricingRule['conditions']; matches: boolean }>)('matches $conditions: $matches', ({ conditions, matches }) => {
+    expect(ruleMatches(rule(conditions), facts)).toBe(matches)
+  })
+
+  it('never matches a disabled rule', () => {
+    expect(ruleMatches(rule([], false), facts)).toBe(false)
+  })
+})
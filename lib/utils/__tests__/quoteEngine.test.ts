@@ -0,0 +1,234 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import type { ConfigurationState, TubeSpecification } from '@/lib/types/configuration'
+import type { PricingRule } from '@/lib/types/pricing'
+import type { AssemblyTubeLine } from '@/lib/types/geometry'
+import { fromBendRequirements } from '../bendTable'
+import { DEFAULT_PRICING_RATES, DEFAULT_PRICING_RULE_SET } from '../pricingRules'
+import { QUOTE_ENGINE_VERSION, calculateQuote, repriceQuote, type QuoteAnalysis } from '../quoteEngine'
+import { DEFAULT_TOOLING_CATALOG } from '../tooling'
+
+const ROUND_TUBE: TubeSpecification = { profile: 'round', diameter: '1"', wallThickness: '0.065"', length: 48 }
+
+function configurationFor(quantity: number, tubeSpec: TubeSpecification = ROUND_TUBE): ConfigurationState {
+  return {
+    materialSelection: { materialId: 'carbon-steel', tubeSpec },
+    specifications: {
+      quantity,
+      tolerances: { bendAngle: 1, centerlineRadius: 0.125, length: 0.0625 },
+      finishing: { type: 'none' },
+      rushOrder: false
+    }
+  } as ConfigurationState
+}
+
+/**
+ * A 48" tube with 90° bends of the given CLRs in inches, 12" apart
+ */
+function tubeWithBends(radii: number[], name?: string): QuoteAnalysis {
+  const totalLength = 48 * 25.4
+  return {
+    name,
+    totalLength,
+    estimatedBends: radii.length,
+    estimatedCuts: 1,
+    bendTable: fromBendRequirements(radii.map((radius, i) => ({ angle: 90, rotation: 0, radius, position: 12 * (i + 1) })), totalLength)
+  }
+}
+
+function assemblyOf(...tubes: QuoteAnalysis[]): QuoteAnalysis {
+  const tubeLines: AssemblyTubeLine[] = tubes.map((tube, i) => ({
+    ...tube,
+    key: `line-${i}`,
+    name: tube.name ?? `Tube ${i + 1}`,
+    bodyIds: [i],
+    quantity: 1
+  }))
+  return { ...tubes[0], assembly: { bodies: [], tubeLines } }
+}
+
+const toolingLine = (quote: ReturnType<typeof calculateQuote>) => quote.lineItems.find(item => item.rule === 'tooling-custom-dies')
+
+describe('calculateQuote tooling', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('charges nothing for tooling the shop owns', () => {
+    const quote = calculateQuote(configurationFor(10), tubeWithBends([3, 3]), { toolingCatalog: DEFAULT_TOOLING_CATALOG })
+
+    expect(quote.tooling?.matches).toHaveLength(2)
+    expect(quote.tooling?.customDies).toHaveLength(0)
+    expect(quote.toolingCost).toBe(0)
+  })
+
+  it('charges a custom die once per order across tube lines', () => {
+    const quote = calculateQuote(
+      configurationFor(5),
+      assemblyOf(tubeWithBends([4], 'Upper rail'), tubeWithBends([4, 3], 'Lower rail')),
+      { toolingCatalog: DEFAULT_TOOLING_CATALOG }
+    )
+
+    expect(quote.tooling?.matches).toHaveLength(3)
+    expect(quote.tooling?.customDies).toHaveLength(1)
+    expect(quote.tooling?.customDies[0]).toMatchObject({ kind: 'bend-die', partName: 'Upper rail' })
+    expect(quote.toolingCost).toBeCloseTo(DEFAULT_PRICING_RATES.customDieCosts['bend-die'])
+    expect(quote.lines?.[0].pricing.toolingCost).toBeCloseTo(DEFAULT_PRICING_RATES.customDieCosts['bend-die'])
+    expect(quote.lines?.[1].pricing.toolingCost).toBe(0)
+  })
+
+  it('spreads a custom die over the amortization quantity', () => {
+    const ruleSet = { ...DEFAULT_PRICING_RULE_SET, rates: { ...DEFAULT_PRICING_RATES, toolingAmortizationParts: 100 } }
+    const quote = calculateQuote(configurationFor(25), tubeWithBends([4]), { ruleSet, toolingCatalog: DEFAULT_TOOLING_CATALOG })
+
+    expect(quote.tooling?.customDies[0].cost).toBeCloseTo(DEFAULT_PRICING_RATES.customDieCosts['bend-die'] / 4)
+    expect(toolingLine(quote)?.amount).toBeCloseTo(DEFAULT_PRICING_RATES.customDieCosts['bend-die'] / 4)
+  })
+
+  it('leaves tooling of non-round profiles to be quoted by hand', () => {
+    const square: TubeSpecification = { profile: 'square', diameter: '1"', wallThickness: '0.065"', length: 48 }
+    const quote = calculateQuote(configurationFor(10, square), tubeWithBends([4]), { toolingCatalog: DEFAULT_TOOLING_CATALOG })
+
+    expect(quote.tooling).toBeUndefined()
+    expect(toolingLine(quote)).toBeUndefined()
+  })
+})
+
+describe('calculateQuote bending', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('charges bends as machine time plus consumables', () => {
+    const quote = calculateQuote(configurationFor(10), tubeWithBends([3, 3, 3]), { toolingCatalog: DEFAULT_TOOLING_CATALOG })
+    const bending = quote.lineItems.filter(item => item.component === 'bending')
+
+    expect(bending.map(item => item.rule)).toEqual(['bending-consumables'])
+    expect(quote.bendingCost).toBeCloseTo(3 * 10 * DEFAULT_PRICING_RATES.consumablesPerBend)
+    expect(quote.details.machineHours).toBeGreaterThan(0)
+  })
+
+  it('forms tight CLRs slower', () => {
+    const options = { toolingCatalog: DEFAULT_TOOLING_CATALOG }
+    const tight = calculateQuote(configurationFor(10), tubeWithBends([2, 2]), options)
+    const wide = calculateQuote(configurationFor(10), tubeWithBends([4, 4]), options)
+
+    expect(tight.details.cycleTime).toBeGreaterThan(wide.details.cycleTime!)
+  })
+
+  it('charges DFM-flagged bends as slower forming', () => {
+    // A 1.25" CLR is below the 1.5×D carbon steel bends without a mandrel
+    const part = tubeWithBends([1.25, 3])
+    const ruleSetWith = (dfmBendMultiplier: number) => ({
+      ...DEFAULT_PRICING_RULE_SET,
+      rates: { ...DEFAULT_PRICING_RATES, dfmBendMultiplier }
+    })
+    const plain = calculateQuote(configurationFor(10), part, { ruleSet: ruleSetWith(1), toolingCatalog: DEFAULT_TOOLING_CATALOG })
+    const flagged = calculateQuote(configurationFor(10), part, { ruleSet: ruleSetWith(1.5), toolingCatalog: DEFAULT_TOOLING_CATALOG })
+    const hourlyRate = DEFAULT_PRICING_RATES.laborRate + DEFAULT_PRICING_RATES.machineRates['electric-cnc-40']
+
+    expect(flagged.dfm?.flaggedBends).toEqual([1])
+    expect(plain.details.dfmSurcharge).toBe(0)
+    expect(flagged.details.dfmSurcharge).toBeCloseTo((flagged.details.cycleTime! - plain.details.cycleTime!) * 10 / 3600 * hourlyRate)
+    expect(flagged.lineItems.some(item => item.rule.includes('dfm'))).toBe(false)
+  })
+})
+
+describe('calculateQuote setup', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('charges die changeover once, as setup', () => {
+    // Two CLRs on the electric bender: two die sets at 20 min each
+    const quote = calculateQuote(configurationFor(10), tubeWithBends([3, 2]), { toolingCatalog: DEFAULT_TOOLING_CATALOG })
+    const hourlyRate = DEFAULT_PRICING_RATES.laborRate + DEFAULT_PRICING_RATES.machineRates['electric-cnc-40']
+    const setup = quote.lineItems.filter(item => item.component === 'setup')
+
+    expect(setup).toHaveLength(1)
+    expect(quote.setupCost).toBeCloseTo((2 * 1200 / 3600) * hourlyRate)
+    expect(quote.details.machineHours).toBeCloseTo(quote.details.cycleTime! * 10 / 3600)
+  })
+})
+
+describe('calculateQuote tube size', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  const stock = (diameter: string): TubeSpecification => ({ profile: 'round', diameter, wallThickness: '0.065"', length: 48 })
+  const crossSection = { shape: 'round' as const, outerDiameter: 25.4, innerDiameter: 0, wallThickness: 0, confidence: 1 }
+
+  it('prices a wireframe centerline at the selected stock OD', () => {
+    const wireframe = { ...tubeWithBends([3]), crossSection: { ...crossSection, assumed: true } }
+    const quote = calculateQuote(configurationFor(10, stock('1.5"')), wireframe, { toolingCatalog: DEFAULT_TOOLING_CATALOG })
+    const oneInch = calculateQuote(configurationFor(10, stock('1"')), wireframe, { toolingCatalog: DEFAULT_TOOLING_CATALOG })
+
+    expect(quote.tooling?.matches[0].tools['bend-die']).toBe('bend-die-1.5-3')
+    expect(quote.nesting?.[0].groupKey).toContain('|38.1|')
+    expect(quote.details.materialWeight).toBeGreaterThan(oneInch.details.materialWeight * 1.4)
+  })
+
+  it('prices a solid at the OD measured in the model', () => {
+    const solid = { ...tubeWithBends([3]), crossSection: { ...crossSection, innerDiameter: 22.1, wallThickness: 1.65 } }
+    const quote = calculateQuote(configurationFor(10, stock('1.5"')), solid, { toolingCatalog: DEFAULT_TOOLING_CATALOG })
+
+    expect(quote.tooling?.matches[0].tools['bend-die']).toBe('bend-die-1-3')
+  })
+})
+
+describe('calculateQuote pricing rules', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  const adjust = (id: string, type: 'multiply' | 'override', value: number): PricingRule =>
+    ({ id, name: id, enabled: true, conditions: [], action: { type, component: 'setup', value, per: 'order' } })
+  const setupWith = (...rules: PricingRule[]) =>
+    calculateQuote(configurationFor(10), tubeWithBends([3]), {
+      ruleSet: { ...DEFAULT_PRICING_RULE_SET, rules },
+      toolingCatalog: DEFAULT_TOOLING_CATALOG
+    }).setupCost
+
+  it('applies admin rules to a component in rule-set order', () => {
+    const base = setupWith()
+
+    expect(setupWith(adjust('double', 'multiply', 2))).toBeCloseTo(2 * base)
+    expect(setupWith(adjust('double', 'multiply', 2), adjust('flat', 'override', 100))).toBeCloseTo(100)
+    expect(setupWith(adjust('flat', 'override', 100), adjust('double', 'multiply', 2))).toBeCloseTo(200)
+  })
+
+  it('stamps the rule set and engine version', () => {
+    const quote = calculateQuote(configurationFor(10), tubeWithBends([3]), { toolingCatalog: DEFAULT_TOOLING_CATALOG })
+
+    expect(quote.ruleSetVersion).toBe(DEFAULT_PRICING_RULE_SET.version)
+    expect(quote.engineVersion).toBe(QUOTE_ENGINE_VERSION)
+  })
+})
+
+describe('repriceQuote', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  const options = { toolingCatalog: DEFAULT_TOOLING_CATALOG }
+
+  it('reproduces a quote from its stamp', () => {
+    const quote = calculateQuote(configurationFor(10), tubeWithBends([3, 2]), options)
+    const repriced = repriceQuote(configurationFor(10), tubeWithBends([3, 2]), quote, options)
+
+    expect(repriced.total).toBe(quote.total)
+    expect(repriced.lineItems).toEqual(quote.lineItems)
+  })
+
+  it('refuses a stamp from another engine version', () => {
+    const stamp = { ruleSetVersion: DEFAULT_PRICING_RULE_SET.version, engineVersion: QUOTE_ENGINE_VERSION - 1 }
+
+    expect(() => repriceQuote(configurationFor(10), tubeWithBends([3]), stamp, options)).toThrow(/quote engine v/)
+  })
+
+  it('refuses a rule set that was never saved', () => {
+    const stamp = { ruleSetVersion: 99, engineVersion: QUOTE_ENGINE_VERSION }
+
+    expect(() => repriceQuote(configurationFor(10), tubeWithBends([3]), stamp, options)).toThrow(/Unknown pricing rule set/)
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import type { NestedStick } from '@/lib/types/nesting'
+import { describeSticks, formatCutList, nestStock, type NestingOptions } from '../stockNesting'
+
+// Short sticks so every packing can be checked by hand
+const OPTIONS: NestingOptions = { stockLengths: [1000], kerf: 5, dropAllowance: 20, minRemnant: 100 }
+const MIXED: NestingOptions = { ...OPTIONS, stockLengths: [1000, 1500] }
+
+const nest = (pieces: Array<[string, number, number]>, options = OPTIONS) =>
+  nestStock('group', 'Carbon Steel 1" OD', pieces.map(([partName, length, quantity]) => ({ partName, length, quantity })), options)
+
+describe('nestStock', () => {
+  it('charges the drop allowance once per stick and a kerf per cut', () => {
+    const plan = nest([['Rail', 400, 2]])
+
+    expect(plan.sticks).toHaveLength(1)
+    expect(plan.sticks[0].usedLength).toBe(20 + 2 * 405)
+    expect(plan.sticks[0].remnant).toBe(170)
+    expect(plan.purchasedLength).toBe(1000)
+    expect(plan.partsLength).toBe(800)
+    expect(plan.yield).toBeCloseTo(0.8)
+  })
+
+  it('opens a stick when the kerf no longer fits', () => {
+    // 20 + 2 × 405 leaves 170, short of another 405
+    const plan = nest([['Rail', 400, 3]])
+
+    expect(plan.sticks.map(stick => stick.cuts.length)).toEqual([2, 1])
+    expect(plan.sticks[1].remnant).toBe(1000 - 20 - 405)
+  })
+
+  it('packs longest blanks first', () => {
+    const plan = nest([['Short', 300, 1], ['Long', 600, 1], ['Mid', 350, 1]])
+
+    expect(plan.sticks.map(stick => stick.cuts.map(cut => cut.partName))).toEqual([['Long', 'Mid'], ['Short']])
+  })
+
+  it('buys a mix of stock lengths when that buys less stock', () => {
+    // Short sticks only: 3 × 1000; long only: 2 × 1500; mixed: 1500 + 1000
+    const plan = nest([['Rail', 450, 5]], MIXED)
+
+    expect(plan.sticks.map(stick => stick.stockLength)).toEqual([1500, 1000])
+    expect(plan.sticks.map(stick => stick.cuts.length)).toEqual([3, 2])
+    expect(plan.purchasedLength).toBe(2500)
+  })
+
+  it('buys a single length when mixing does not help', () => {
+    const plan = nest([['Rail', 450, 4]], MIXED)
+
+    expect(plan.sticks.map(stick => stick.stockLength)).toEqual([1000, 1000])
+  })
+
+  it('leaves blanks longer than any stick out of the plan', () => {
+    // 1475 + 5 kerf is exactly the 1480 a 1500 stick can give
+    const plan = nest([['Frame', 1600, 2], ['Brace', 1475, 1]], MIXED)
+
+    expect(plan.oversized).toEqual([{ partName: 'Frame', length: 1600, quantity: 2 }])
+    expect(plan.sticks.map(stick => stick.stockLength)).toEqual([1500])
+    expect(plan.partsLength).toBe(1475)
+  })
+
+  it('keeps remnants at least minRemnant long and scraps the rest', () => {
+    const plan = nest([['Long', 900, 1], ['Short', 400, 1]])
+
+    expect(plan.sticks.map(stick => [stick.remnant, stick.scrap])).toEqual([[75, true], [575, false]])
+    expect(plan.remnants).toEqual([575])
+  })
+
+  it('buys nothing for no pieces', () => {
+    const plan = nest([])
+
+    expect(plan.sticks).toEqual([])
+    expect(plan.yield).toBe(0)
+  })
+})
+
+describe('describeSticks', () => {
+  it('counts sticks by length in feet, shortest first', () => {
+    const stick = (stockLength: number): NestedStick => ({ stockLength, cuts: [], usedLength: 0, remnant: 0, scrap: true })
+    const plan = { ...nest([]), sticks: [stick(7315.2), stick(6096), stick(6096)] }
+
+    expect(describeSticks(plan)).toBe('2 × 20 ft, 1 × 24 ft')
+  })
+})
+
+describe('formatCutList', () => {
+  it('lists cuts in saw order with the remnant on the last cut and oversized blanks after', () => {
+    const plan = nest([['Rail, upper', 400, 2], ['Frame', 1200, 1]])
+
+    expect(formatCutList([plan]).split('\n')).toEqual([
+      'Material,Stick,Stock length (mm),Cut,Part,Cut length (mm),Remnant (mm)',
+      '"Carbon Steel 1"" OD",1,1000.0,1,"Rail, upper",400.0,',
+      '"Carbon Steel 1"" OD",1,1000.0,2,"Rail, upper",400.0,170.0',
+      '"Carbon Steel 1"" OD",—,—,—,Frame,1200.0,oversized × 1'
+    ])
+  })
+
+  it('marks scrapped remnants', () => {
+    expect(formatCutList([nest([['Long', 900, 1]])])).toContain(',900.0,75.0 (scrap)')
+  })
+})
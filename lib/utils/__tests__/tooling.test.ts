@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import type { BendTable } from '@/lib/types/geometry'
+import { fromBendRequirements } from '../bendTable'
+import { DEFAULT_TOOLING_CATALOG, matchTooling } from '../tooling'
+
+// 1" x 0.065" carbon steel
+const tube = { outerDiameter: 25.4, wallThickness: 1.651, materialId: 'carbon-steel' }
+
+/**
+ * Bend table of 90° bends 6" apart with the given CLRs in inches, measured with an arc fit
+ * residual in mm
+ */
+function bendsAt(radii: number[], residual?: number): BendTable {
+  const table = fromBendRequirements(
+    radii.map((radius, i) => ({ angle: 90, rotation: 0, radius, position: 6 * (i + 1) })),
+    6 * (radii.length + 2) * 25.4
+  )
+  return { ...table, bends: table.bends.map(bend => ({ ...bend, radiusResidual: residual })) }
+}
+
+describe('matchTooling', () => {
+  it('matches owned dies to bends on an owned CLR', () => {
+    const { matches, customDies } = matchTooling({ ...tube, bendTable: bendsAt([3, 2]) }, DEFAULT_TOOLING_CATALOG)
+
+    expect(customDies).toHaveLength(0)
+    expect(matches.map(match => match.tools['bend-die'])).toEqual(['bend-die-1-3', 'bend-die-1-2'])
+    expect(matches[0].tools['clamp-die']).toBe('clamp-die-1')
+    expect(matches[0].tools['pressure-die']).toBe('pressure-die-1')
+    expect(matches[0].needsMandrel).toBe(false)
+  })
+
+  it('snaps a measured radius to the owned CLR within its fit', () => {
+    const measured = matchTooling({ ...tube, bendTable: bendsAt([3.1]) }, DEFAULT_TOOLING_CATALOG)
+    const loose = matchTooling({ ...tube, bendTable: bendsAt([3.4]) }, DEFAULT_TOOLING_CATALOG)
+    const uncertain = matchTooling({ ...tube, bendTable: bendsAt([3.4], 12) }, DEFAULT_TOOLING_CATALOG)
+
+    expect(measured.matches[0].tools['bend-die']).toBe('bend-die-1-3')
+    expect(loose.matches[0].missing).toEqual(['bend-die'])
+    expect(uncertain.matches[0].tools['bend-die']).toBe('bend-die-1-3')
+  })
+
+  it('picks the closest owned CLR when several fit', () => {
+    const { matches } = matchTooling({ ...tube, bendTable: bendsAt([1.9], 20) }, DEFAULT_TOOLING_CATALOG)
+
+    expect(matches[0].tools['bend-die']).toBe('bend-die-1-2')
+  })
+
+  it('charges one custom die per CLR and suggests the closest owned CLR', () => {
+    const { matches, customDies } = matchTooling(
+      { ...tube, partName: 'Frame', bendTable: bendsAt([4, 4, 2.5]) },
+      DEFAULT_TOOLING_CATALOG
+    )
+
+    expect(matches.every(match => match.missing.includes('bend-die'))).toBe(true)
+    expect(customDies).toHaveLength(2)
+    expect(customDies[0]).toMatchObject({ kind: 'bend-die', partName: 'Frame', bends: [1, 2] })
+    expect(customDies[0].suggestion?.toolId).toBe('bend-die-1-3')
+    expect(customDies[1].bends).toEqual([3])
+  })
+
+  it('adds a wiper die and mandrel to bends tighter than the no-mandrel CLR', () => {
+    const { matches, customDies } = matchTooling({ ...tube, bendTable: bendsAt([2, 1]) }, DEFAULT_TOOLING_CATALOG)
+
+    expect(matches[0].needsMandrel).toBe(false)
+    expect(matches[1].needsMandrel).toBe(true)
+    expect(matches[1].tools.mandrel).toBe('mandrel-1-0.035-0.083')
+    expect(matches[1].missing).toEqual(['bend-die', 'wiper-die'])
+    expect(customDies.map(die => die.kind)).toEqual(['bend-die', 'wiper-die'])
+  })
+
+  it('skips tools that are not available', () => {
+    const catalog = DEFAULT_TOOLING_CATALOG.map(item => item.id === 'bend-die-1-3' ? { ...item, available: false } : item)
+    const { matches, customDies } = matchTooling({ ...tube, bendTable: bendsAt([3]) }, catalog)
+
+    expect(matches[0].missing).toEqual(['bend-die'])
+    expect(customDies[0].suggestion?.toolId).toBe('bend-die-1-2')
+  })
+
+  it('matches only clamp and pressure dies to bends without a measured CLR', () => {
+    const { matches, customDies } = matchTooling({ ...tube, bendTable: bendsAt([0]) }, DEFAULT_TOOLING_CATALOG)
+
+    expect(Object.keys(matches[0].tools)).toEqual(['clamp-die', 'pressure-die'])
+    expect(customDies).toHaveLength(0)
+  })
+
+  it('matches nothing without a bend table', () => {
+    expect(matchTooling(tube, DEFAULT_TOOLING_CATALOG)).toEqual({ matches: [], customDies: [] })
+  })
+})
@@ -0,0 +1,307 @@
+import { Vector3 } from 'three'
+import type { BendTable, Point3 } from '@/lib/types/geometry'
+import type { BenderModel, CollisionBox, CollisionObstacle, CollisionResult } from '@/lib/types/simulation'
+
+export const DEFAULT_BENDER_MODEL: BenderModel = {
+  dieHeight: 120,
+  bendHead: { radius: 350, depth: 700 },
+  clampDie: { length: 120, width: 60, height: 100 },
+  pressureDie: { length: 400, width: 60, height: 100 },
+  carriage: { length: 300, width: 250, height: 250 },
+  floorHeight: 1100,
+  angleStep: 5
+}
+
+const MAX_SIMULATED_ANGLE = 179 // the tangent length is unbounded at 180°
+const DEFAULT_CLR_FACTOR = 2 // CLR assumed as a multiple of OD when a bend radius is unknown
+const CONTACT_TOLERANCE = 0.5 // mm of overlap ignored, the tube rides on the die faces
+
+function toPoint3(v: Vector3): Point3 {
+  return { x: v.x, y: v.y, z: v.z }
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
+
+/**
+ * Rotate a point about the die axis (parallel to Z through the die center)
+ */
+function rotateAboutDie(point: Vector3, radius: number, angle: number): Vector3 {
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const x = point.x
+  const y = point.y - radius
+  return new Vector3(x * cos - y * sin, x * sin + y * cos + radius, point.z)
+}
+
+function rotateAboutFeedAxis(point: Vector3, angle: number): Vector3 {
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return new Vector3(point.x, point.y * cos - point.z * sin, point.y * sin + point.z * cos)
+}
+
+/**
+ * Sample a polyline every `spacing` millimeters, skipping the first `skip` millimeters
+ */
+function samplePolyline(points: Vector3[], spacing: number, skip: number): Vector3[] {
+  const samples: Vector3[] = []
+  let travelled = 0
+  let next = skip
+  for (let i = 1; i < points.length; i++) {
+    const start = points[i - 1]
+    const length = start.distanceTo(points[i])
+    while (next <= travelled + length) {
+      samples.push(start.clone().lerp(points[i], length > 0 ? (next - travelled) / length : 0))
+      next += spacing
+    }
+    travelled += length
+  }
+  return samples
+}
+
+/**
+ * Centerline of the bend being formed, from the bend start to the clamp
+ */
+function bentArc(radius: number, bendAngle: number): Vector3[] {
+  const segments = Math.ceil(bendAngle / 5)
+  const arc: Vector3[] = []
+  for (let i = 0; i < segments; i++) {
+    arc.push(rotateAboutDie(new Vector3(), radius, toRadians((bendAngle * i) / segments)))
+  }
+  return arc
+}
+
+function insideBox(point: Vector3, min: Vector3, max: Vector3, margin: number): boolean {
+  return point.x >= min.x - margin && point.x <= max.x + margin &&
+    point.y >= min.y - margin && point.y <= max.y + margin &&
+    point.z >= min.z - margin && point.z <= max.z + margin
+}
+
+/**
+ * Boxes of the clamp die, pressure die and carriage for a bend state, in the machine frame
+ */
+export function getObstacleBoxes(
+  model: BenderModel,
+  radius: number,
+  outerDiameter: number,
+  bendAngle: number,
+  tailLength: number
+): CollisionBox[] {
+  const r = outerDiameter / 2
+  const clampCenter = rotateAboutDie(
+    new Vector3(model.clampDie.length / 2, -r - model.clampDie.width / 2, 0),
+    radius,
+    toRadians(bendAngle)
+  )
+
+  return [
+    {
+      obstacle: 'clamp-die',
+      center: toPoint3(clampCenter),
+      size: { x: model.clampDie.length, y: model.clampDie.width, z: model.clampDie.height },
+      rotationZ: toRadians(bendAngle)
+    },
+    {
+      obstacle: 'pressure-die',
+      center: { x: -model.pressureDie.length / 2, y: -r - model.pressureDie.width / 2, z: 0 },
+      size: { x: model.pressureDie.length, y: model.pressureDie.width, z: model.pressureDie.height },
+      rotationZ: 0
+    },
+    {
+      obstacle: 'carriage',
+      center: { x: -tailLength - model.carriage.length / 2, y: 0, z: 0 },
+      size: { x: model.carriage.length, y: model.carriage.width, z: model.carriage.height },
+      rotationZ: 0
+    }
+  ]
+}
+
+/**
+ * Find the obstacle a tube centerline point runs into, if any
+ */
+function findObstacle(
+  point: Vector3,
+  model: BenderModel,
+  radius: number,
+  outerDiameter: number,
+  bendAngle: number,
+  tailLength: number
+): CollisionObstacle | null {
+  const r = outerDiameter / 2 - CONTACT_TOLERANCE
+  const halfDie = model.dieHeight / 2
+
+  if (point.z < -model.floorHeight + r) return 'floor'
+
+  const fromDieAxis = Math.hypot(point.x, point.y - radius)
+  if (fromDieAxis < radius - r && Math.abs(point.z) < halfDie + r) return 'bend-die'
+  if (
+    fromDieAxis < model.bendHead.radius + r &&
+    point.z < -halfDie + r &&
+    point.z > -halfDie - model.bendHead.depth - r
+  ) {
+    return 'bend-head'
+  }
+
+  // The clamp die moves with the bend: test in its own frame
+  const inClampFrame = rotateAboutDie(point, radius, -toRadians(bendAngle))
+  if (insideBox(
+    inClampFrame,
+    new Vector3(0, -outerDiameter / 2 - model.clampDie.width, -model.clampDie.height / 2),
+    new Vector3(model.clampDie.length, -outerDiameter / 2, model.clampDie.height / 2),
+    r
+  )) {
+    return 'clamp-die'
+  }
+
+  if (insideBox(
+    point,
+    new Vector3(-model.pressureDie.length, -outerDiameter / 2 - model.pressureDie.width, -model.pressureDie.height / 2),
+    new Vector3(0, -outerDiameter / 2, model.pressureDie.height / 2),
+    r
+  )) {
+    return 'pressure-die'
+  }
+
+  if (insideBox(
+    point,
+    new Vector3(-tailLength - model.carriage.length, -model.carriage.width / 2, -model.carriage.height / 2),
+    new Vector3(-tailLength, model.carriage.width / 2, model.carriage.height / 2),
+    r
+  )) {
+    return 'carriage'
+  }
+
+  // The swinging part must not run into the unbent tail
+  if (point.x < 0 && point.x > -tailLength && Math.hypot(point.y, point.z) < 2 * r) {
+    return 'tube'
+  }
+
+  return null
+}
+
+/**
+ * Replay the bend sequence of a bend table on a rotary draw bender and report the first collision.
+ * Each bend is simulated as the plane rotation of the finished part (collet turn) followed by
+ * the swing of the already bent lead around the die; the tail stays straight along -X.
+ * The clamped straight right after each bend is in contact with the tooling and is not checked.
+ */
+export function simulateBendSequence(
+  table: BendTable,
+  outerDiameter: number,
+  modelOverrides: Partial<BenderModel> = {}
+): CollisionResult {
+  const model = { ...DEFAULT_BENDER_MODEL, ...modelOverrides }
+  const points = table.points.map(p => new Vector3(p.x, p.y, p.z))
+  const bends = table.bends
+  if (bends.length === 0 || points.length < bends.length + 2 || outerDiameter <= 0) {
+    return { collided: false }
+  }
+
+  const radii = bends.map(bend => bend.radius || outerDiameter * DEFAULT_CLR_FACTOR)
+  const spacing = Math.max(outerDiameter / 2, 2)
+
+  // Unbent length from the start of each bend to the tube end
+  const remaining: number[] = new Array(bends.length)
+  let length = table.finalLength
+  for (let i = bends.length - 1; i >= 0; i--) {
+    length += radii[i] * toRadians(bends[i].angle)
+    remaining[i] = length
+    length += bends[i].feedLength
+  }
+
+  for (let i = 0; i < bends.length; i++) {
+    const bend = bends[i]
+    const radius = radii[i]
+    const angle = Math.min(bend.angle, MAX_SIMULATED_ANGLE)
+    const tangent = radius * Math.tan(toRadians(angle) / 2)
+
+    // Machine frame of the finished bend: tail along -X, bend toward +Y
+    const vertex = points[i + 1]
+    const tailDirection = points[i + 2].clone().sub(vertex).normalize()
+    const leadDirection = points[i].clone().sub(vertex).normalize()
+    const ex = tailDirection.clone().negate()
+    let ez = ex.clone().cross(leadDirection)
+    if (ez.lengthSq() < 1e-12) {
+      ez = Math.abs(ex.z) < 0.9 ? ex.clone().cross(new Vector3(0, 0, 1)) : ex.clone().cross(new Vector3(1, 0, 0))
+    }
+    ez.normalize()
+    const ey = ez.clone().cross(ex)
+    const toMachine = (p: Vector3) => {
+      const offset = p.clone().sub(vertex)
+      return new Vector3(tangent + offset.dot(ex), offset.dot(ey), offset.dot(ez))
+    }
+
+    // Lead centerline from the clamp end back to the tube start, in the finished pose
+    const lead = [...points.slice(0, i + 1)].reverse()
+    lead.unshift(vertex.clone().add(leadDirection.clone().multiplyScalar(tangent)))
+    const finishedLead = samplePolyline(lead, spacing, model.clampDie.length).map(toMachine)
+    const finishedOutline = lead.map(toMachine)
+
+    const poseAt = (bendAngle: number, rotation: number) => {
+      const transform = (p: Vector3) =>
+        rotateAboutDie(rotateAboutFeedAxis(rotateAboutDie(p, radius, -toRadians(angle)), rotation), radius, toRadians(bendAngle))
+      return { transform, samples: finishedLead.map(transform) }
+    }
+
+    const check = (phase: 'rotate' | 'bend', bendAngle: number, rotation: number, reported: number): CollisionResult | null => {
+      const tailLength = remaining[i] - radius * toRadians(bendAngle)
+      const { transform, samples } = poseAt(bendAngle, rotation)
+      for (const sample of samples) {
+        const obstacle = findObstacle(sample, model, radius, outerDiameter, bendAngle, tailLength)
+        if (obstacle) {
+          return {
+            collided: true,
+            bendIndex: bend.index,
+            phase,
+            angle: reported,
+            obstacle,
+            point: toPoint3(sample),
+            pose: {
+              lead: [...bentArc(radius, bendAngle), ...finishedOutline.map(transform)].map(toPoint3),
+              tail: [{ x: 0, y: 0, z: 0 }, { x: -tailLength, y: 0, z: 0 }]
+            },
+            radius,
+            tailLength
+          }
+        }
+      }
+      return null
+    }
+
+    // Collet rotation into the bend plane, then the bend itself
+    const rotationSteps = Math.ceil(Math.abs(bend.rotation) / model.angleStep)
+    for (let step = 0; step < rotationSteps; step++) {
+      const turned = (bend.rotation * step) / rotationSteps
+      const hit = check('rotate', 0, toRadians(turned - bend.rotation), turned)
+      if (hit) return hit
+    }
+
+    const bendSteps = Math.max(1, Math.ceil(angle / model.angleStep))
+    for (let step = 0; step <= bendSteps; step++) {
+      const bendAngle = (angle * step) / bendSteps
+      const hit = check('bend', bendAngle, 0, bendAngle)
+      if (hit) return hit
+    }
+  }
+
+  return { collided: false }
+}
+
+export function describeCollision(result: CollisionResult): string {
+  if (!result.collided) return 'The bend sequence clears the machine.'
+
+  const obstacleNames: Record<CollisionObstacle, string> = {
+    'bend-die': 'the bend die',
+    'bend-head': 'the bend head',
+    'clamp-die': 'the clamp die',
+    'pressure-die': 'the pressure die',
+    carriage: 'the carriage',
+    floor: 'the floor',
+    tube: 'its own tail'
+  }
+  const action = result.phase === 'rotate'
+    ? `while rotating ${result.angle?.toFixed(0)}° into the plane of bend ${result.bendIndex}`
+    : `at ${result.angle?.toFixed(0)}° into bend ${result.bendIndex}`
+  return `The part hits ${obstacleNames[result.obstacle!]} ${action}. It may need to be split or resequenced.`
+}
@@ -0,0 +1,476 @@
+import { Vector3 } from 'three'
+import type { BendTable, BendTableEntry, Point3 } from '@/lib/types/geometry'
+import type { BendRequirement } from '@/lib/types/configuration'
+import type { DfmReport } from '@/lib/types/dfm'
+
+interface BendTableOptions {
+  scale?: number // multiplier from centerline units to millimeters
+  minBendAngle?: number // degrees; smaller direction changes are treated as straight
+  source?: string
+}
+
+interface StraightRun {
+  points: Vector3[]
+  origin: Vector3
+  direction: Vector3
+  startIndex: number // index of the first run point in the resampled centerline
+  endIndex: number // index of the last run point in the resampled centerline
+}
+
+interface ArcFit {
+  radius: number
+  residual: number // RMS distance of the arc points from the fitted fillet
+}
+
+const RESAMPLE_COUNT = 200
+const TANGENT_WINDOW = 3
+const STRAIGHT_TOLERANCE_DEG = 5
+export const DEFAULT_MIN_BEND_ANGLE_DEG = 3
+
+function toPoint3(v: Vector3): Point3 {
+  return { x: v.x, y: v.y, z: v.z }
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI
+}
+
+/**
+ * Resample a polyline at uniform arc-length spacing
+ */
+function resamplePolyline(points: Vector3[], count: number): Vector3[] {
+  const cumulative: number[] = [0]
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + points[i].distanceTo(points[i - 1]))
+  }
+
+  const total = cumulative[cumulative.length - 1]
+  if (total <= 0) return []
+
+  const resampled: Vector3[] = []
+  let segment = 1
+  for (let i = 0; i < count; i++) {
+    const target = (i / (count - 1)) * total
+    while (segment < points.length - 1 && cumulative[segment] < target) {
+      segment++
+    }
+    const span = cumulative[segment] - cumulative[segment - 1]
+    const t = span > 0 ? (target - cumulative[segment - 1]) / span : 0
+    resampled.push(points[segment - 1].clone().lerp(points[segment], Math.min(1, Math.max(0, t))))
+  }
+
+  return resampled
+}
+
+/**
+ * Moving-average smoothing that keeps the end points fixed
+ */
+function smoothPolyline(points: Vector3[], window: number = 2): Vector3[] {
+  return points.map((point, i) => {
+    if (i === 0 || i === points.length - 1) return point.clone()
+    const reach = Math.min(window, i, points.length - 1 - i)
+    const sum = new Vector3()
+    for (let j = i - reach; j <= i + reach; j++) {
+      sum.add(points[j])
+    }
+    return sum.multiplyScalar(1 / (reach * 2 + 1))
+  })
+}
+
+/**
+ * Fit a line through a run of points, oriented along the direction of travel
+ */
+function fitStraightRun(points: Vector3[], startIndex: number, endIndex: number): StraightRun {
+  const origin = new Vector3()
+  for (const point of points) origin.add(point)
+  origin.multiplyScalar(1 / points.length)
+
+  const direction = points[points.length - 1].clone().sub(points[0]).normalize()
+  return { points, origin, direction, startIndex, endIndex }
+}
+
+/**
+ * Split an ordered centerline into straight runs separated by curved (bend) sections
+ */
+function findStraightRuns(points: Vector3[], minRunLength: number): StraightRun[] {
+  const tolerance = (STRAIGHT_TOLERANCE_DEG * Math.PI) / 180
+  const isStraight = points.map((point, i) => {
+    const back = points[Math.max(0, i - TANGENT_WINDOW)]
+    const ahead = points[Math.min(points.length - 1, i + TANGENT_WINDOW)]
+    const incoming = point.clone().sub(back)
+    const outgoing = ahead.clone().sub(point)
+    if (incoming.lengthSq() === 0 || outgoing.lengthSq() === 0) return true
+    return incoming.angleTo(outgoing) < tolerance
+  })
+
+  const runs: StraightRun[] = []
+  let current: Vector3[] = []
+  let currentStart = 0
+
+  const closeRun = (endIndex: number) => {
+    if (current.length >= 2) {
+      const runLength = current[0].distanceTo(current[current.length - 1])
+      if (runLength >= minRunLength) {
+        runs.push(fitStraightRun(current, currentStart, endIndex))
+      }
+    }
+    current = []
+  }
+
+  for (let i = 0; i < points.length; i++) {
+    if (isStraight[i]) {
+      if (current.length === 0) currentStart = i
+      current.push(points[i])
+    } else {
+      closeRun(i - 1)
+    }
+  }
+  closeRun(points.length - 1)
+
+  return runs
+}
+
+/**
+ * Merge neighbouring runs whose directions differ by less than the minimum bend angle
+ */
+function mergeCollinearRuns(runs: StraightRun[], minBendAngle: number): StraightRun[] {
+  const threshold = (minBendAngle * Math.PI) / 180
+  const merged: StraightRun[] = []
+
+  for (const run of runs) {
+    const previous = merged[merged.length - 1]
+    if (previous && previous.direction.angleTo(run.direction) < threshold) {
+      merged[merged.length - 1] = fitStraightRun(
+        [...previous.points, ...run.points],
+        previous.startIndex,
+        run.endIndex
+      )
+    } else {
+      merged.push(run)
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Midpoint of the shortest segment between two (possibly skew) lines
+ */
+function closestPointBetweenLines(a: StraightRun, b: StraightRun): Vector3 {
+  const w0 = a.origin.clone().sub(b.origin)
+  const ab = a.direction.dot(b.direction)
+  const d = a.direction.dot(w0)
+  const e = b.direction.dot(w0)
+  const denom = 1 - ab * ab
+
+  if (Math.abs(denom) < 1e-9) {
+    // Parallel lines: fall back to the gap between the two runs
+    return a.points[a.points.length - 1].clone().add(b.points[0]).multiplyScalar(0.5)
+  }
+
+  const s = (ab * e - d) / denom
+  const t = (e - ab * d) / denom
+  const onA = a.origin.clone().add(a.direction.clone().multiplyScalar(s))
+  const onB = b.origin.clone().add(b.direction.clone().multiplyScalar(t))
+  return onA.add(onB).multiplyScalar(0.5)
+}
+
+/**
+ * Fit the bend circle to the curved section between two straight runs. The circle is kept
+ * tangent to both runs, so its center lies on the bisector of the corner at R / cos(A/2) from
+ * the intersection and only the radius is fitted, in least squares against the straight-arc-straight
+ * fillet. A free circle fit on the few points of a short bend overestimates the radius.
+ */
+function fitBendArc(arcPoints: Vector3[], before: StraightRun, after: StraightRun, intersection: Vector3): ArcFit | null {
+  const normal = before.direction.clone().cross(after.direction)
+  if (normal.lengthSq() < 1e-12) return null
+  normal.normalize()
+
+  const angle = before.direction.angleTo(after.direction)
+  const halfAngleTan = Math.tan(angle / 2)
+  if (halfAngleTan <= 1e-6) return null
+
+  const bisector = after.direction.clone().sub(before.direction).normalize()
+  const centerDistance = 1 / Math.cos(angle / 2) // center offset per unit radius
+
+  // Squared distance of the points to the fillet: the incoming straight up to the first tangent
+  // point, the arc, then the outgoing straight
+  const errorAt = (radius: number) => {
+    const center = intersection.clone().addScaledVector(bisector, radius * centerDistance)
+    const tangent = radius * halfAngleTan
+    const start = intersection.clone().addScaledVector(before.direction, -tangent)
+    const end = intersection.clone().addScaledVector(after.direction, tangent)
+    const startRadial = start.clone().sub(center)
+    const endRadial = end.clone().sub(center)
+    return arcPoints.reduce((sum, p) => {
+      const offset = p.clone().sub(center)
+      const h = offset.dot(normal)
+      const inPlane = offset.clone().addScaledVector(normal, -h)
+      let distanceSq = Infinity
+      if (inPlane.clone().cross(startRadial).dot(normal) <= 0 && endRadial.clone().cross(inPlane).dot(normal) <= 0) {
+        distanceSq = (inPlane.length() - radius) ** 2 + h * h
+      }
+      const alongBefore = Math.min(0, p.clone().sub(start).dot(before.direction))
+      distanceSq = Math.min(distanceSq, p.distanceToSquared(start.clone().addScaledVector(before.direction, alongBefore)))
+      const alongAfter = Math.max(0, p.clone().sub(end).dot(after.direction))
+      distanceSq = Math.min(distanceSq, p.distanceToSquared(end.clone().addScaledVector(after.direction, alongAfter)))
+      return sum + distanceSq
+    }, 0)
+  }
+
+  if (arcPoints.length > 0) {
+    // The tangent points have to stay on the straights
+    const room = Math.min(
+      intersection.distanceTo(before.points[0]),
+      intersection.distanceTo(after.points[after.points.length - 1])
+    )
+    const maxRadius = room / halfAngleTan
+    if (maxRadius > 0) {
+      // Coarse scan, then golden-section refinement around the best sample
+      const samples = 64
+      let best = 1
+      for (let i = 1; i <= samples; i++) {
+        if (errorAt((maxRadius * i) / samples) < errorAt((maxRadius * best) / samples)) best = i
+      }
+      let lo = (maxRadius * (best - 1)) / samples
+      let hi = (maxRadius * Math.min(samples, best + 1)) / samples
+      const ratio = (Math.sqrt(5) - 1) / 2
+      for (let i = 0; i < 40; i++) {
+        const a = hi - ratio * (hi - lo)
+        const b = lo + ratio * (hi - lo)
+        if (errorAt(a) < errorAt(b)) hi = b
+        else lo = a
+      }
+      const radius = (lo + hi) / 2
+      return { radius, residual: Math.sqrt(errorAt(radius) / arcPoints.length) }
+    }
+  }
+
+  // No curved samples: infer the radius from where the straights stop (tangent points)
+  const tangentLength = (
+    intersection.distanceTo(before.points[before.points.length - 1]) +
+    intersection.distanceTo(after.points[0])
+  ) / 2
+
+  return { radius: tangentLength / halfAngleTan, residual: NaN }
+}
+
+function projectOntoRun(point: Vector3, run: StraightRun): Vector3 {
+  const offset = point.clone().sub(run.origin).dot(run.direction)
+  return run.origin.clone().add(run.direction.clone().multiplyScalar(offset))
+}
+
+/**
+ * Convert ordered XYZ intersection points (start, intersections..., end) into an LRA bend table.
+ * Feed lengths are measured between intersection points; when centerline radii are known
+ * the tangent length of each adjacent bend is subtracted so L is the true straight feed.
+ */
+export function calculateLraFromIntersections(
+  points: Point3[],
+  radii: number[] = []
+): Pick<BendTable, 'bends' | 'finalLength'> {
+  if (points.length < 2) {
+    return { bends: [], finalLength: 0 }
+  }
+
+  const vectors = points.map(p => new Vector3(p.x, p.y, p.z))
+  const segments: Vector3[] = []
+  for (let i = 1; i < vectors.length; i++) {
+    segments.push(vectors[i].clone().sub(vectors[i - 1]))
+  }
+
+  const tangentLengths: number[] = []
+  const bends: BendTableEntry[] = []
+  let previousNormal: Vector3 | null = null
+
+  for (let i = 1; i < segments.length; i++) {
+    const incoming = segments[i - 1]
+    const outgoing = segments[i]
+    const angle = incoming.angleTo(outgoing)
+    const radius = radii[i - 1] ?? 0
+    tangentLengths.push(radius * Math.tan(angle / 2))
+
+    const normal = incoming.clone().cross(outgoing)
+    let rotation = 0
+    if (previousNormal && normal.lengthSq() > 1e-12) {
+      normal.normalize()
+      rotation = toDegrees(previousNormal.angleTo(normal))
+      const sign = previousNormal.clone().cross(normal).dot(incoming)
+      if (sign < 0) rotation = -rotation
+    }
+    if (normal.lengthSq() > 1e-12) {
+      previousNormal = normal.normalize()
+    }
+
+    bends.push({
+      index: i,
+      feedLength: 0,
+      rotation,
+      angle: toDegrees(angle),
+      radius: radii[i - 1],
+      intersection: toPoint3(vectors[i])
+    })
+  }
+
+  for (let i = 0; i < bends.length; i++) {
+    const before = i > 0 ? tangentLengths[i - 1] : 0
+    bends[i].feedLength = Math.max(0, segments[i].length() - before - tangentLengths[i])
+  }
+
+  const lastTangent = tangentLengths.length > 0 ? tangentLengths[tangentLengths.length - 1] : 0
+  const finalLength = Math.max(0, segments[segments.length - 1].length() - lastTangent)
+
+  return { bends, finalLength }
+}
+
+/**
+ * Inverse of calculateLraFromIntersections: ordered XYZ points (start, intersections..., end) of
+ * an LRA bend sequence. The tube starts at the origin feeding along +X with the first bend in the
+ * XY plane; each bend rotates the bend plane about the feed direction, then bends.
+ */
+export function calculateIntersectionsFromLra(
+  bends: Array<Pick<BendTableEntry, 'feedLength' | 'rotation' | 'angle' | 'radius'>>,
+  finalLength: number
+): Point3[] {
+  const points = [new Vector3()]
+  const direction = new Vector3(1, 0, 0)
+  const normal = new Vector3(0, 0, 1)
+  let position = new Vector3()
+  let previousTangent = 0
+
+  for (const bend of bends) {
+    const angle = (bend.angle * Math.PI) / 180
+    const tangent = (bend.radius ?? 0) * Math.tan(angle / 2)
+    position = position.clone().addScaledVector(direction, previousTangent + bend.feedLength + tangent)
+    points.push(position.clone())
+    normal.applyAxisAngle(direction, (bend.rotation * Math.PI) / 180)
+    direction.applyAxisAngle(normal, angle)
+    previousTangent = tangent
+  }
+
+  points.push(position.clone().addScaledVector(direction, previousTangent + finalLength))
+  return points.map(toPoint3)
+}
+
+/**
+ * Rebuild a bend table (millimeters) from quoted bend requirements (inches), the inverse of
+ * toBendRequirements. Bends without a known radius become sharp intersections.
+ */
+export function fromBendRequirements(requirements: BendRequirement[], totalLength: number): BendTable {
+  const MM_PER_INCH = 25.4
+  let consumed = 0
+
+  const entries = requirements.map((requirement, i) => {
+    const radius = requirement.radius > 0 ? requirement.radius * MM_PER_INCH : undefined
+    const feedLength = Math.max(0, requirement.position * MM_PER_INCH - consumed)
+    consumed = requirement.position * MM_PER_INCH + (radius ?? 0) * (requirement.angle * Math.PI) / 180
+    return {
+      index: i + 1,
+      feedLength,
+      rotation: requirement.rotation ?? 0,
+      angle: requirement.angle,
+      radius,
+      radiusResidual: requirement.radiusResidual !== undefined ? requirement.radiusResidual * MM_PER_INCH : undefined,
+      machineAngle: requirement.machineAngle,
+      radiusGrowth: requirement.radiusGrowth !== undefined ? requirement.radiusGrowth * MM_PER_INCH : undefined
+    }
+  })
+  const finalLength = Math.max(0, totalLength - consumed)
+  const points = calculateIntersectionsFromLra(entries, finalLength)
+
+  return {
+    bends: entries.map((entry, i) => ({ ...entry, intersection: points[i + 1] })),
+    finalLength,
+    points,
+    confidence: 1,
+    source: 'quote'
+  }
+}
+
+/**
+ * Extract an ordered LRA / XYZ bend table from a tube centerline polyline
+ */
+export function extractBendTable(
+  centerline: Vector3[],
+  options: BendTableOptions = {}
+): BendTable | null {
+  const scale = options.scale ?? 1
+  const minBendAngle = options.minBendAngle ?? DEFAULT_MIN_BEND_ANGLE_DEG
+
+  if (centerline.length < 2) return null
+
+  const scaled = centerline.map(p => p.clone().multiplyScalar(scale))
+  const resampled = resamplePolyline(scaled, RESAMPLE_COUNT)
+  if (resampled.length < 2) return null
+
+  const smoothed = smoothPolyline(resampled)
+  const totalLength = smoothed.reduce((sum, p, i) => (i === 0 ? 0 : sum + p.distanceTo(smoothed[i - 1])), 0)
+  const runs = mergeCollinearRuns(findStraightRuns(smoothed, totalLength * 0.02), minBendAngle)
+
+  if (runs.length === 0) return null
+
+  const intersections: Vector3[] = [projectOntoRun(smoothed[0], runs[0])]
+  const arcFits: Array<ArcFit | null> = []
+  for (let i = 1; i < runs.length; i++) {
+    const intersection = closestPointBetweenLines(runs[i - 1], runs[i])
+    // Smoothing flattens the arc, so the radius is fitted to the unsmoothed points
+    const arcPoints = resampled.slice(runs[i - 1].endIndex, runs[i].startIndex + 1)
+    intersections.push(intersection)
+    arcFits.push(fitBendArc(arcPoints, runs[i - 1], runs[i], intersection))
+  }
+  intersections.push(projectOntoRun(smoothed[smoothed.length - 1], runs[runs.length - 1]))
+
+  const points = intersections.map(toPoint3)
+  const radii = arcFits.map(fit => fit?.radius ?? 0)
+  const { bends, finalLength } = calculateLraFromIntersections(points, radii)
+
+  bends.forEach((bend, i) => {
+    const fit = arcFits[i]
+    if (!fit) {
+      bend.radius = undefined
+    } else if (isFinite(fit.residual)) {
+      bend.radiusResidual = fit.residual
+    }
+  })
+
+  // Confidence drops when much of the centerline could not be assigned to a straight run
+  const straightLength = runs.reduce(
+    (sum, run) => sum + run.points[0].distanceTo(run.points[run.points.length - 1]),
+    0
+  )
+  const coverage = totalLength > 0 ? Math.min(1, straightLength / totalLength) : 0
+  const confidence = Math.max(0.1, Math.min(0.9, 0.3 + coverage * 0.6))
+
+  return {
+    bends,
+    finalLength,
+    points,
+    confidence,
+    source: options.source || 'centerline'
+  }
+}
+
+/**
+ * Convert a bend table into bend requirements (inches) for pricing and DFM checks.
+ * Position is measured along the centerline from the tube start to the start of each bend.
+ */
+export function toBendRequirements(table: BendTable, dfm?: DfmReport): BendRequirement[] {
+  const MM_PER_INCH = 25.4
+  let position = 0
+
+  return table.bends.map(bend => {
+    position += bend.feedLength
+    const requirement: BendRequirement = {
+      angle: bend.angle,
+      rotation: bend.rotation,
+      radius: (bend.radius ?? 0) / MM_PER_INCH,
+      position: position / MM_PER_INCH,
+      radiusResidual: bend.radiusResidual !== undefined ? bend.radiusResidual / MM_PER_INCH : undefined,
+      isValid: dfm ? !dfm.flaggedBends.includes(bend.index) : undefined,
+      machineAngle: bend.machineAngle,
+      radiusGrowth: bend.radiusGrowth !== undefined ? bend.radiusGrowth / MM_PER_INCH : undefined
+    }
+    position += (bend.radius ?? 0) * (bend.angle * Math.PI) / 180
+    return requirement
+  })
+}
@@ -0,0 +1,206 @@
+import { Vector3 } from 'three'
+import { calculateIntersectionsFromLra } from './bendTable'
+
+export type BendTableFormat = 'xyz' | 'lra'
+
+/**
+ * A bend table read from a CSV / TXT upload, as intersection points in file units
+ */
+export interface ImportedBendTable {
+  format: BendTableFormat
+  points: Vector3[] // start, intersections..., end
+  radii: number[] // CLR per intersection, 0 where the file gives none
+  units: string | null // from a units line or column suffix, null when the file does not say
+}
+
+type Column = 'x' | 'y' | 'z' | 'length' | 'rotation' | 'angle' | 'radius'
+
+const COLUMN_NAMES: Record<string, Column> = {
+  x: 'x',
+  y: 'y',
+  z: 'z',
+  l: 'length',
+  len: 'length',
+  length: 'length',
+  feed: 'length',
+  distance: 'length',
+  r: 'rotation',
+  rot: 'rotation',
+  rotation: 'rotation',
+  plane: 'rotation',
+  a: 'angle',
+  ang: 'angle',
+  angle: 'angle',
+  clr: 'radius',
+  radius: 'radius',
+  rad: 'radius'
+}
+
+const UNIT_NAMES: Record<string, string> = {
+  mm: 'millimeter',
+  millimeter: 'millimeter',
+  millimeters: 'millimeter',
+  cm: 'centimeter',
+  m: 'meter',
+  in: 'inch',
+  inch: 'inch',
+  inches: 'inch',
+  '"': 'inch',
+  ft: 'foot'
+}
+
+const MAX_BEND_ANGLE = 179 // a fold-back has no tangent point
+const MAX_REPORTED_ERRORS = 5
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
+
+function detectDelimiter(line: string): string | RegExp {
+  if (line.includes('\t')) return '\t'
+  if (line.includes(';')) return ';'
+  if (line.includes(',')) return ','
+  return /\s+/
+}
+
+/**
+ * Map header cells to columns. Unit suffixes such as `X (in)` or `L [mm]` set the file units.
+ */
+function parseHeader(cells: string[]): { columns: Array<Column | null>; units: string | null } {
+  let units: string | null = null
+  const columns = cells.map(cell => {
+    const match = cell.trim().toLowerCase().match(/^([a-z]+)\s*(?:[([]\s*([a-z"]+)\s*[)\]])?/)
+    if (!match) return null
+    if (match[2] && UNIT_NAMES[match[2]] && !['angle', 'rotation'].includes(COLUMN_NAMES[match[1]])) {
+      units = UNIT_NAMES[match[2]]
+    }
+    return COLUMN_NAMES[match[1]] ?? null
+  })
+  return { columns, units }
+}
+
+/**
+ * Check that the straights between intersections are long enough for the bend arcs
+ */
+function validateTangents(points: Vector3[], radii: number[], rowOf: (intersection: number) => number, errors: string[]) {
+  const tangents = points.map((point, i) => {
+    if (i === 0 || i === points.length - 1) return 0
+    const incoming = point.clone().sub(points[i - 1])
+    const outgoing = points[i + 1].clone().sub(point)
+    if (incoming.lengthSq() === 0 || outgoing.lengthSq() === 0) return 0
+    const angle = incoming.angleTo(outgoing)
+    if (angle > toRadians(MAX_BEND_ANGLE)) {
+      errors.push(`Row ${rowOf(i)}: the tube doubles back on itself (bend over ${MAX_BEND_ANGLE}°)`)
+    }
+    return (radii[i - 1] ?? 0) * Math.tan(angle / 2)
+  })
+
+  for (let i = 1; i < points.length; i++) {
+    const length = points[i].distanceTo(points[i - 1])
+    if (length === 0) {
+      errors.push(`Row ${rowOf(i)}: repeats the previous point`)
+    } else if (tangents[i - 1] + tangents[i] > length + 1e-6) {
+      errors.push(`Row ${rowOf(i)}: the CLR is too large for the straight before this point`)
+    }
+  }
+}
+
+/**
+ * Parse an XYZ or LRA bend table. Accepts comma, semicolon, tab or whitespace separated columns,
+ * `#` / `//` comments and an optional `units: inch` line. Tables without a header are read as
+ * X, Y, Z[, CLR]. LRA rows give the straight feed before each bend; a last row with no angle is
+ * the final straight. Throws with the offending rows when the table is not a valid tube.
+ */
+export function parseBendTableText(text: string): ImportedBendTable {
+  let units: string | null = null
+  let columns: Array<Column | null> | null = null
+  let delimiter: string | RegExp | null = null
+  const rows: Array<{ line: number; values: number[] }> = []
+  const errors: string[] = []
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.replace(/(#|\/\/).*$/, '').trim()
+    const unitLine = raw.match(/units?\s*[:=]\s*([a-z"]+)/i)
+    if (unitLine && UNIT_NAMES[unitLine[1].toLowerCase()]) {
+      units = UNIT_NAMES[unitLine[1].toLowerCase()]
+      return
+    }
+    if (!line) return
+
+    delimiter = delimiter ?? detectDelimiter(line)
+    const cells = line.split(delimiter).map(cell => cell.trim()).filter(cell => cell !== '')
+
+    if (/[a-z]/i.test(line.replace(/e[+-]?\d/gi, '')) && rows.length === 0 && !columns) {
+      const header = parseHeader(cells)
+      columns = header.columns
+      units = units ?? header.units
+      return
+    }
+
+    // Semicolon-separated files from European spreadsheets use decimal commas
+    const values = cells.map(cell => Number(delimiter === ';' ? cell.replace(',', '.') : cell))
+    if (values.some(value => !isFinite(value))) {
+      errors.push(`Row ${index + 1}: "${raw.trim()}" is not numeric`)
+      return
+    }
+    rows.push({ line: index + 1, values })
+  })
+
+  const header: Array<Column | null> = columns ?? ['x', 'y', 'z', 'radius']
+  // In an XYZ table a lone R column is the bend radius, not a rotation
+  if (header.includes('x') && !header.includes('radius')) {
+    header.forEach((name, i) => { if (name === 'rotation') header[i] = 'radius' })
+  }
+  const column = (name: Column) => header.indexOf(name)
+  const isXyz = column('x') >= 0 && column('y') >= 0
+  const isLra = column('angle') >= 0 && column('length') >= 0
+
+  if (!isXyz && !isLra) {
+    throw new Error('Bend table needs X / Y / Z or L / R / A columns')
+  }
+
+  const read = (values: number[], name: Column) => (column(name) >= 0 ? values[column(name)] ?? 0 : 0)
+  let points: Vector3[]
+  let radii: number[]
+  let rowOf: (intersection: number) => number
+
+  if (isXyz) {
+    points = rows.map(row => new Vector3(read(row.values, 'x'), read(row.values, 'y'), read(row.values, 'z')))
+    radii = rows.slice(1, -1).map(row => read(row.values, 'radius'))
+    rowOf = i => rows[i]?.line ?? 0
+    if (points.length < 2) errors.push('An XYZ table needs at least a start and an end point')
+  } else {
+    const lra = rows.map(row => ({
+      length: read(row.values, 'length'),
+      rotation: read(row.values, 'rotation'),
+      angle: read(row.values, 'angle'),
+      radius: read(row.values, 'radius')
+    }))
+    lra.forEach((row, i) => {
+      if (row.length < 0) errors.push(`Row ${rows[i].line}: negative feed length`)
+      if (row.angle < 0 || row.angle > MAX_BEND_ANGLE) errors.push(`Row ${rows[i].line}: bend angle must be between 0 and ${MAX_BEND_ANGLE}°`)
+      if (row.angle > 0 && row.radius < 0) errors.push(`Row ${rows[i].line}: negative CLR`)
+      if (row.angle <= 0 && i < lra.length - 1) errors.push(`Row ${rows[i].line}: only the last row may have no bend`)
+    })
+    if (lra.length === 0) errors.push('An LRA table needs at least one row')
+    if (errors.length > 0) throw new Error(formatErrors(errors))
+
+    // Rows with a bend, then the final straight from a last row without one
+    const bends = lra.filter(row => row.angle > 0).map(row => ({ ...row, feedLength: row.length }))
+    const finalLength = lra[lra.length - 1].angle > 0 ? 0 : lra[lra.length - 1].length
+    points = calculateIntersectionsFromLra(bends, finalLength).map(p => new Vector3(p.x, p.y, p.z))
+    radii = bends.map(row => row.radius)
+    rowOf = i => rows[Math.min(i, rows.length) - 1]?.line ?? 0
+  }
+
+  if (radii.some(radius => radius < 0)) errors.push('CLR values must not be negative')
+  validateTangents(points, radii, rowOf, errors)
+  if (errors.length > 0) throw new Error(formatErrors(errors))
+
+  return { format: isXyz ? 'xyz' : 'lra', points, radii, units }
+}
+
+function formatErrors(errors: string[]): string {
+  const shown = errors.slice(0, MAX_REPORTED_ERRORS).join('; ')
+  return errors.length > MAX_REPORTED_ERRORS ? `${shown}; and ${errors.length - MAX_REPORTED_ERRORS} more` : shown
+}
@@ -1,10 +1,32 @@
 import { BufferGeometry, Vector3, BufferAttribute, Box3 } from 'three'
+import type { AssemblyAnalysis, AssemblyBody, AssemblyTubeLine, BendTable, CrossSectionProfile, Point3 } from '@/lib/types/geometry'
+import type { ParseProgress, ParseStage, UnitDetection, UnitSource } from '@/lib/types/parser'
+import { calculateLraFromIntersections, DEFAULT_MIN_BEND_ANGLE_DEG, extractBendTable } from './bendTable'
+import { measureCrossSection, combineCrossSections } from './crossSection'
+import { parseBendTableText } from './bendTableImport'
+import { getDxfUnits, tessellateDxfEntities } from './dxfEntities'
+import { getMeshFormat, loadMeshFile, weldMesh, type MeshFormat } from './meshImport'
+import { parseCacheKey, readParseCache, writeParseCache } from './parseCache'
+import {
+  chainCurves,
+  chainIntersections,
+  chainPoints,
+  curveLength,
+  extractIgesWireframe,
+  extractStepWireframe,
+  filletPolyline,
+  sweepCenterline,
+  type WireCurve
+} from './wireframe'
 
 // Import CAD parsing libraries
 // Note: occt-import-js is imported dynamically to avoid SSR issues
 let occtInstance: any = null
 
-interface ParsedGeometry {
+// Output units occt-import-js can convert tessellations to
+const OCCT_LINEAR_UNITS = ['millimeter', 'centimeter', 'meter', 'inch', 'foot']
+
+export interface ParsedGeometry {
   meshes: Array<{
     geometry: BufferGeometry
     position?: [number, number, number]
@@ -18,8 +40,21 @@ interface ParsedGeometry {
     units: string
     originalUnits?: string
     unitConfidence?: number
+    unitDetection?: UnitDetection
     lengthCalculationMethod?: string
     lengthConfidence?: number
+    bendTable?: BendTable
+    crossSection?: CrossSectionProfile
+    assembly?: AssemblyAnalysis
+    centerline?: {
+      points: Point3[] // display coordinates of the wireframe centerline
+      displayScale: number // display units per millimeter, to re-sweep at another OD
+    }
+    meshImport?: {
+      format: MeshFormat
+      unitsDeclared: boolean // false when units were guessed and should be confirmed
+      mergedVertices: number // duplicate vertices welded together
+    }
     boundingBox: {
       min: { x: number; y: number; z: number }
       max: { x: number; y: number; z: number }
@@ -28,9 +63,54 @@ interface ParsedGeometry {
   }
 }
 
-interface CADParserOptions {
+export interface CADParserOptions {
   scale?: number
   centerGeometry?: boolean
+  onProgress?: (progress: ParseProgress) => void
+  signal?: AbortSignal
+  centerlineDiameter?: number // mm, OD swept along wireframe centerlines
+  units?: string // units picked by the customer; win over whatever the file declares
+}
+
+// Bump whenever a change to parsing or analysis changes results; cached parses of other versions are dropped
+export const PARSER_VERSION = 6
+
+export const DEFAULT_CENTERLINE_DIAMETER = 25.4
+const MESH_CONFIDENCE_FACTOR = 0.7 // faceted scans are noisier than B-rep tessellation
+
+// Below this unit confidence the customer has to confirm or override the units before quoting
+export const UNIT_CONFIRMATION_THRESHOLD = 0.8
+const DECLARED_UNIT_CONFIDENCE = 0.95 // declared units that fit the part size
+const GEOMETRY_UNIT_CONFIDENCE = 0.6 // cap for units guessed from size; mm and inch parts overlap
+
+/**
+ * Units a file declares, before they are checked against the part size
+ */
+interface DeclaredUnits {
+  units: string
+  source: UnitSource
+}
+
+/**
+ * Thrown when parsing is aborted through CADParserOptions.signal
+ */
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Parsing cancelled')
+    this.name = 'ParseCancelledError'
+  }
+}
+
+export const PARSE_STAGES: ParseStage[] = ['reading', 'tessellating', 'analyzing-units', 'centerline', 'bends']
+
+/**
+ * Report the start of a parse stage, yield so the UI can repaint and stop if the caller cancelled
+ */
+async function enterStage(stage: ParseStage, options: CADParserOptions): Promise<void> {
+  if (options.signal?.aborted) throw new ParseCancelledError()
+  options.onProgress?.({ stage, progress: PARSE_STAGES.indexOf(stage) / PARSE_STAGES.length })
+  await new Promise(resolve => setTimeout(resolve, 0))
+  if (options.signal?.aborted) throw new ParseCancelledError()
 }
 
 /**
@@ -75,58 +155,44 @@ const UNIT_CONVERSION_TO_MM: Record<string, number> = {
   '': 1
 }
 
+// SI prefixes of the metre in STEP length units
+const STEP_SI_PREFIXES: Record<string, string> = {
+  '': 'meter',
+  'CENTI': 'centimeter',
+  'MILLI': 'millimeter',
+  'MICRO': 'micrometer'
+}
+
+const STEP_UNIT_SCAN_BYTES = 64 * 1024 // read from each end of a STEP file when looking for its units
+
 /**
- * Parse units directly from STEP file content
+ * Parse the length unit of a STEP file: a LENGTH_UNIT entity that is either an SI metre with
+ * an optional prefix or a CONVERSION_BASED_UNIT such as 'INCH'. Unit entities sit near the
+ * start or, more often, the end of the data section, so only the head and tail are read.
  */
 async function parseUnitsFromStepFile(file: File): Promise<string | null> {
   try {
-    // Read first few KB of STEP file to find unit information
-    const chunk = file.slice(0, 8192) // Read first 8KB
-    const text = await chunk.text()
-    
-    // Look for SI_UNIT patterns in STEP file
-    const siUnitPatterns = [
-      /SI_UNIT\s*\(\s*\*\s*,\s*\.([^,)]+)\.\s*,/gi,
-      /SI_UNIT\s*\(\s*\*\s*,\s*([^,)]+)\s*,/gi,
-      /LENGTH_UNIT\s*\(\s*\)\s*,\s*\.([^,)]+)\./gi,
-      /UNIT\s*\(\s*LENGTH_MEASURE\s*,\s*\.([^,)]+)\./gi
-    ]
-    
-    for (const pattern of siUnitPatterns) {
-      const matches = text.matchAll(pattern)
-      for (const match of matches) {
-        if (match[1]) {
-          let unit = match[1].toLowerCase().trim()
-          // Remove dots and normalize
-          unit = unit.replace(/\./g, '')
-          
-          console.log('🔍 Found STEP unit from file parsing:', unit)
-          
-          // Map common STEP unit variations
-          const unitMapping: Record<string, string> = {
-            'milli': 'millimeter',
-            'millimetre': 'millimeter', 
-            'metre': 'meter',
-            'inch': 'inch',
-            'foot': 'foot'
-          }
-          
-          return unitMapping[unit] || unit
-        }
+    const chunks = file.size <= STEP_UNIT_SCAN_BYTES * 2
+      ? [await file.text()]
+      : [await file.slice(0, STEP_UNIT_SCAN_BYTES).text(), await file.slice(-STEP_UNIT_SCAN_BYTES).text()]
+    const text = chunks.join(';\n') // no entity spans the skipped middle
+
+    for (const [entity] of text.matchAll(/=[^;=]*LENGTH_UNIT[^;]*;/gi)) {
+      const conversion = entity.match(/CONVERSION_BASED_UNIT\s*\(\s*'([^']*)'/i)
+      if (conversion) {
+        const unit = normalizeUnitName(conversion[1])
+        console.log('🔍 Found STEP conversion based unit:', conversion[1])
+        if (UNIT_CONVERSION_TO_MM[unit]) return unit
+        continue
       }
-    }
-    
-    // Look for UNCERTAINTY_MEASURE_WITH_UNIT patterns which often contain unit info
-    const uncertaintyPattern = /UNCERTAINTY_MEASURE_WITH_UNIT[^(]*\([^,]*,\s*\.([^,)]+)\./gi
-    const uncertaintyMatches = text.matchAll(uncertaintyPattern)
-    for (const match of uncertaintyMatches) {
-      if (match[1]) {
-        const unit = match[1].toLowerCase().replace(/\./g, '').trim()
-        console.log('🔍 Found STEP unit from uncertainty measure:', unit)
-        return unit === 'milli' ? 'millimeter' : unit
+
+      const si = entity.match(/SI_UNIT\s*\(\s*(?:\*\s*,\s*)?(?:\.(\w+)\.|\$)\s*,\s*\.METRE\.\s*\)/i)
+      if (si) {
+        console.log('🔍 Found STEP SI length unit:', si[0])
+        return STEP_SI_PREFIXES[(si[1] ?? '').toUpperCase()] ?? null
       }
     }
-    
+
     return null
   } catch (error) {
     console.warn('Failed to parse units from STEP file:', error)
@@ -134,35 +200,89 @@ async function parseUnitsFromStepFile(file: File): Promise<string | null> {
   }
 }
 
+// IGES global section unit flags (parameter 14); flag 3 means "see the unit name"
+const IGES_UNIT_FLAGS: Record<number, string> = {
+  1: 'inch',
+  2: 'millimeter',
+  4: 'foot',
+  6: 'meter',
+  9: 'micrometer',
+  10: 'centimeter'
+}
+
 /**
- * Detect units from parsed CAD file result with enhanced STEP file parsing
+ * Split the IGES global section into its parameters. Parameters 1 and 2 may redefine the
+ * parameter and record delimiters; strings are Hollerith constants such as 4HINCH.
  */
-async function detectUnitsFromResult(result: any, fileType: 'step' | 'iges', originalFile?: File): Promise<string> {
-  // Try to extract unit information from the parsed result first
-  if (result.units) {
-    return normalizeUnitName(result.units.toLowerCase())
-  }
-  
-  if (result.metadata && result.metadata.units) {
-    return normalizeUnitName(result.metadata.units.toLowerCase())
+function splitIgesGlobal(text: string): string[] {
+  let delimiter = ','
+  let terminator = ';'
+  const fields: string[] = []
+  let pos = 0
+
+  while (pos < text.length) {
+    let value = ''
+    const hollerith = text.slice(pos).match(/^\s*(\d+)H/)
+    if (hollerith) {
+      const start = pos + hollerith[0].length
+      value = text.slice(start, start + Number(hollerith[1]))
+      pos = start + Number(hollerith[1])
+    } else {
+      while (pos < text.length && text[pos] !== delimiter && text[pos] !== terminator) value += text[pos++]
+      value = value.trim()
+    }
+
+    fields.push(value)
+    if (fields.length === 1 && value) delimiter = value
+    if (fields.length === 2 && value) terminator = value
+
+    while (pos < text.length && text[pos] !== delimiter && text[pos] !== terminator) pos++
+    if (text[pos] === terminator) break
+    pos++
   }
-  
-  // For STEP files, look for length unit information in parsed result
-  if (fileType === 'step' && result.lengthUnit) {
-    return normalizeUnitName(result.lengthUnit.toLowerCase())
+
+  return fields
+}
+
+/**
+ * Parse units from the IGES global section: parameter 14 is the unit flag, 15 the unit name
+ */
+async function parseUnitsFromIgesFile(file: File): Promise<string | null> {
+  try {
+    // The start and global sections come first; 64KB covers any real-world header
+    const text = await file.slice(0, 65536).text()
+    const global = text
+      .split(/\r?\n/)
+      .filter(line => line[72] === 'G')
+      .map(line => line.slice(0, 72))
+      .join('')
+    if (!global) return null
+
+    const fields = splitIgesGlobal(global)
+    const flag = parseInt(fields[13], 10)
+    const name = fields[14] ? normalizeUnitName(fields[14]) : undefined
+    const unit = IGES_UNIT_FLAGS[flag] ?? (name && UNIT_CONVERSION_TO_MM[name] ? name : null)
+
+    console.log('🔍 Found IGES unit from global section:', { flag, name, unit })
+    return unit
+  } catch (error) {
+    console.warn('Failed to parse units from IGES file:', error)
+    return null
   }
-  
-  // For STEP files, try parsing the original file content
-  if (fileType === 'step' && originalFile) {
-    const stepUnits = await parseUnitsFromStepFile(originalFile)
-    if (stepUnits) {
-      return normalizeUnitName(stepUnits)
-    }
+}
+
+/**
+ * Detect the units a STEP or IGES file declares in its unit entities or global section.
+ * Returns null when the file declares none, so the units are estimated from the part size.
+ */
+async function detectDeclaredUnits(fileType: 'step' | 'iges', file: File): Promise<DeclaredUnits | null> {
+  const units = fileType === 'step' ? await parseUnitsFromStepFile(file) : await parseUnitsFromIgesFile(file)
+  if (units) {
+    return { units: normalizeUnitName(units), source: fileType === 'step' ? 'step-header' : 'iges-global' }
   }
-  
-  // Fallback: estimate from geometry size
+
   console.warn('Could not detect units from file, using geometry-based estimation')
-  return 'millimeter' // Default assumption
+  return null
 }
 
 /**
@@ -281,6 +401,41 @@ function estimateUnitsFromGeometry(boundingSize: Vector3): string {
   return 'millimeter' // Default
 }
 
+/**
+ * Settle the units of a part. The customer's choice wins; declared units are kept even when the
+ * part size does not fit them, with the better fit suggested; undeclared units are guessed from
+ * the size. Units are never replaced silently, low confidence asks the customer to confirm.
+ */
+function resolveUnits(declared: DeclaredUnits | null, size: Vector3, options: CADParserOptions): UnitDetection {
+  const maxDimension = Math.max(size.x, size.y, size.z)
+  const detection = (units: string, source: UnitSource, confidence: number, suggestedUnit?: string): UnitDetection => ({
+    units,
+    source,
+    confidence,
+    suggestedUnit,
+    extentMm: convertToMillimeters(maxDimension, units),
+    needsConfirmation: confidence < UNIT_CONFIRMATION_THRESHOLD
+  })
+
+  if (options.units) {
+    return detection(normalizeUnitName(options.units), 'user', 1)
+  }
+
+  if (declared) {
+    const validation = validateUnitsAgainstGeometry(declared.units, size)
+    if (validation.isValid) {
+      return detection(declared.units, declared.source, DECLARED_UNIT_CONFIDENCE)
+    }
+    const suggestedUnit = validation.suggestedUnit !== declared.units ? validation.suggestedUnit : undefined
+    console.warn(`⚠️ Declared units '${declared.units}' seem incorrect for geometry size${suggestedUnit ? `, '${suggestedUnit}' fits better` : ''}`)
+    return detection(declared.units, declared.source, validation.confidence, suggestedUnit)
+  }
+
+  const units = estimateUnitsFromGeometry(size)
+  const validation = validateUnitsAgainstGeometry(units, size)
+  return detection(units, 'geometry', Math.min(GEOMETRY_UNIT_CONFIDENCE, validation.confidence))
+}
+
 /**
  * 3D Skeletonization Algorithm for Centerline Extraction
  * Based on distance transform and iterative thinning
@@ -965,6 +1120,71 @@ function calculateAveragePointSpacing(points: Vector3[]): number {
   return count > 0 ? totalDist / count : 1
 }
 
+const SOLID_WALL_RATIO = 0.95 // inner / outer distance cluster above which the part is a solid bar
+const MIN_SWEPT_AREA_AGREEMENT = 0.5 // share of the surface a tube along a centerline has to explain
+
+/**
+ * How well a tube swept along the centerline explains the surface: the wall radii the surface
+ * points' distances to the polyline cluster around, and their spread relative to the outer
+ * radius. Near zero for a true centerline; one that wanders inside the tube scores high.
+ */
+function measureTubeFit(centerline: Vector3[], surfacePoints: Vector3[]): { residual: number; innerRadius: number; outerRadius: number } {
+  const none = { residual: Infinity, innerRadius: 0, outerRadius: 0 }
+  if (centerline.length < 2 || surfacePoints.length === 0) return none
+
+  const distances = surfacePoints.map(p => {
+    let best = Infinity
+    for (let i = 1; i < centerline.length; i++) {
+      const a = centerline[i - 1]
+      const segment = centerline[i].clone().sub(a)
+      const lengthSq = segment.lengthSq()
+      const t = lengthSq > 0 ? Math.min(1, Math.max(0, p.clone().sub(a).dot(segment) / lengthSq)) : 0
+      best = Math.min(best, p.distanceToSquared(a.clone().addScaledVector(segment, t)))
+    }
+    return Math.sqrt(best)
+  })
+
+  // Two walls: split the distances into an inner and an outer cluster
+  let inner = Math.min(...distances)
+  let outer = Math.max(...distances)
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const split = (inner + outer) / 2
+    const innerSet = distances.filter(d => d <= split)
+    const outerSet = distances.filter(d => d > split)
+    if (innerSet.length > 0) inner = innerSet.reduce((sum, d) => sum + d, 0) / innerSet.length
+    if (outerSet.length > 0) outer = outerSet.reduce((sum, d) => sum + d, 0) / outerSet.length
+  }
+  if (outer <= 0) return none
+
+  const split = (inner + outer) / 2
+  const squared = distances.reduce((sum, d) => sum + (d - (d <= split ? inner : outer)) ** 2, 0)
+  return { residual: Math.sqrt(squared / distances.length) / outer, innerRadius: inner, outerRadius: outer }
+}
+
+/**
+ * Total triangle area of the meshes
+ */
+function meshSurfaceArea(meshes: Array<{ geometry: BufferGeometry }>): number {
+  const a = new Vector3()
+  const b = new Vector3()
+  const c = new Vector3()
+  let area = 0
+  for (const mesh of meshes) {
+    const positions = mesh.geometry.attributes.position as BufferAttribute | undefined
+    if (!positions) continue
+    const index = mesh.geometry.index
+    const count = index ? index.count : positions.count
+    for (let i = 0; i + 2 < count; i += 3) {
+      const [ia, ib, ic] = index ? [index.getX(i), index.getX(i + 1), index.getX(i + 2)] : [i, i + 1, i + 2]
+      a.fromBufferAttribute(positions, ia)
+      b.fromBufferAttribute(positions, ib)
+      c.fromBufferAttribute(positions, ic)
+      area += b.sub(a).cross(c.sub(a)).length() / 2
+    }
+  }
+  return area
+}
+
 /**
  * Multi-method tube length calculation with cross-validation
  */
@@ -972,12 +1192,19 @@ async function calculateTubeLengthMultiMethod(
   meshes: Array<{ geometry: BufferGeometry }>, 
   boundingSize: Vector3,
   units: string
-): Promise<{ bestLength: number; method: string; confidence: number; allResults: Array<{ method: string; length: number; confidence: number }> }> {
+): Promise<{
+  bestLength: number
+  method: string
+  confidence: number
+  allResults: Array<{ method: string; length: number; confidence: number }>
+  centerline?: { method: string; points: Vector3[] }
+}> {
   if (meshes.length === 0) {
     return { bestLength: 0, method: 'none', confidence: 0, allResults: [] }
   }
 
-  const results: Array<{ method: string; length: number; confidence: number }> = []
+  // `path` is a polyline the length was measured along that is not a centerline
+  const results: Array<{ method: string; length: number; confidence: number; centerline?: Vector3[]; path?: Vector3[] }> = []
 
   // Method 1: 3D Skeletonization
   try {
@@ -986,7 +1213,8 @@ async function calculateTubeLengthMultiMethod(
       results.push({
         method: '3D Skeletonization',
         length: skeletonResult.length,
-        confidence: skeletonResult.confidence
+        confidence: skeletonResult.confidence,
+        centerline: skeletonResult.centerline
       })
     }
   } catch (error) {
@@ -995,12 +1223,13 @@ async function calculateTubeLengthMultiMethod(
 
   // Method 2: PCA-based slicing (existing method)
   try {
-    const pcaLength = estimateCenterlineLengthBySlicing(meshes)
-    if (pcaLength > 0) {
+    const sliceResult = extractCenterlineBySlicing(meshes)
+    if (sliceResult.length > 0) {
       results.push({
         method: 'PCA Slicing',
-        length: pcaLength,
-        confidence: 0.7
+        length: sliceResult.length,
+        confidence: 0.7,
+        centerline: sliceResult.centerline
       })
     }
   } catch (error) {
@@ -1009,12 +1238,13 @@ async function calculateTubeLengthMultiMethod(
 
   // Method 3: Path calculation (existing method)
   try {
-    const pathLength = calculatePathLength(meshes)
-    if (pathLength > 0) {
+    const pathResult = calculatePathLength(meshes)
+    if (pathResult.length > 0) {
       results.push({
         method: 'Path Calculation',
-        length: pathLength,
-        confidence: 0.6
+        length: pathResult.length,
+        confidence: 0.6,
+        path: pathResult.path
       })
     }
   } catch (error) {
@@ -1045,6 +1275,28 @@ async function calculateTubeLengthMultiMethod(
     confidence: boundingBoxConfidence
   })
 
+  // A method's own confidence says nothing about whether the line it measured follows the tube:
+  // score each line by how closely a tube swept along it reproduces the mesh's surface area
+  const surfaceArea = meshSurfaceArea(meshes)
+  if (surfaceArea > 0) {
+    const surfacePoints = samplePointsFromMeshes(meshes, 1500)
+    for (let i = results.length - 1; i >= 0; i--) {
+      const result = results[i]
+      const line = result.centerline ?? result.path
+      if (!line || line.length < 2) continue
+      const fit = measureTubeFit(line, surfacePoints)
+      const walls = fit.innerRadius < fit.outerRadius * SOLID_WALL_RATIO ? fit.innerRadius + fit.outerRadius : fit.outerRadius
+      const sweptArea = 2 * Math.PI * walls * result.length
+      const agreement = Math.min(sweptArea, surfaceArea) / Math.max(sweptArea, surfaceArea)
+      console.log(`🧵 ${result.method} path: swept area ${(agreement * 100).toFixed(0)}% of the mesh, fit residual ${fit.residual.toFixed(3)}`)
+      if (agreement < MIN_SWEPT_AREA_AGREEMENT || !Number.isFinite(fit.residual)) {
+        results.splice(i, 1) // not a tube along this line
+      } else {
+        result.confidence = 0.95 * agreement * Math.max(0, 1 - fit.residual)
+      }
+    }
+  }
+
   // Select best result based on confidence
   if (results.length === 0) {
     return { bestLength: 0, method: 'none', confidence: 0, allResults: [] }
@@ -1072,24 +1324,31 @@ async function calculateTubeLengthMultiMethod(
     console.log(`📊 Length calculation cross-validation - CV: ${coefficientOfVariation.toFixed(3)}, Results: ${results.map(r => `${r.method}: ${r.length.toFixed(2)}`).join(', ')}`)
   }
 
+  // Bend data comes from the best-fitting centerline, which is also the length result whenever it is trusted most
+  const centerlineResult = results.find(r => r.centerline && r.centerline.length >= 2)
+
   return {
     bestLength: bestResult.length,
     method: bestResult.method,
     confidence: finalConfidence,
-    allResults: results
+    allResults: results.map(({ method, length, confidence }) => ({ method, length, confidence })),
+    centerline: centerlineResult
+      ? { method: centerlineResult.method, points: centerlineResult.centerline! }
+      : undefined
   }
 }
 
 /**
  * Calculate path length by sampling points along the geometry
  */
-function calculatePathLength(meshes: Array<{ geometry: BufferGeometry }>): number {
-  if (meshes.length !== 1) return 0 // Only works for single mesh for now
+function calculatePathLength(meshes: Array<{ geometry: BufferGeometry }>): { path: Vector3[]; length: number } {
+  const failed = { path: [], length: 0 }
+  if (meshes.length !== 1) return failed // Only works for single mesh for now
   
   const geometry = meshes[0].geometry
   const positions = geometry.attributes.position
   
-  if (!positions || positions.count < 10) return 0
+  if (!positions || positions.count < 10) return failed
   
   // Sample points along the geometry to create a path
   const sampleCount = Math.min(50, Math.floor(positions.count / 10))
@@ -1117,36 +1376,77 @@ function calculatePathLength(meshes: Array<{ geometry: BufferGeometry }>): numbe
   if (geometry_bbox) {
     const diagonal = geometry_bbox.min.distanceTo(geometry_bbox.max)
     if (totalDistance > diagonal * 0.8) {
-      return totalDistance
+      return { path: points, length: totalDistance }
     }
   }
   
-  return 0 // Return 0 if path analysis failed
+  return failed // path analysis failed
 }
 
 /**
- * Sample points uniformly from meshes up to a target count
+ * Sample points uniformly over the mesh surfaces up to a target count. B-rep tessellations put
+ * vertices only where faces meet, so the points are spread over the triangles by area rather
+ * than taken from the vertices; meshes without faces fall back to their vertices.
  */
 function samplePointsFromMeshes(meshes: Array<{ geometry: BufferGeometry }>, targetSampleCount: number = 1500): Vector3[] {
   const sampledPoints: Vector3[] = []
   if (meshes.length === 0) {
     return sampledPoints
   }
-  
-  const samplesPerMesh = Math.max(50, Math.floor(targetSampleCount / meshes.length))
-  
+
+  const triangles: Array<[Vector3, Vector3, Vector3]> = []
+  const cumulativeArea: number[] = []
+  let totalArea = 0
   for (const mesh of meshes) {
     const positions = mesh.geometry.attributes.position as BufferAttribute | undefined
     if (!positions) continue
-    const count = positions.count
-    if (count === 0) continue
-    
-    const stride = Math.max(1, Math.floor(count / samplesPerMesh))
-    for (let i = 0; i < count; i += stride) {
-      sampledPoints.push(new Vector3(positions.getX(i), positions.getY(i), positions.getZ(i)))
+    const index = mesh.geometry.index
+    const count = index ? index.count : positions.count
+    for (let i = 0; i + 2 < count; i += 3) {
+      const corners = [0, 1, 2].map(k =>
+        new Vector3().fromBufferAttribute(positions, index ? index.getX(i + k) : i + k)
+      ) as [Vector3, Vector3, Vector3]
+      const area = corners[1].clone().sub(corners[0]).cross(corners[2].clone().sub(corners[0])).length() / 2
+      if (area <= 0) continue
+      totalArea += area
+      triangles.push(corners)
+      cumulativeArea.push(totalArea)
+    }
+  }
+
+  if (totalArea <= 0) {
+    const samplesPerMesh = Math.max(50, Math.floor(targetSampleCount / meshes.length))
+    for (const mesh of meshes) {
+      const positions = mesh.geometry.attributes.position as BufferAttribute | undefined
+      if (!positions || positions.count === 0) continue
+      const stride = Math.max(1, Math.floor(positions.count / samplesPerMesh))
+      for (let i = 0; i < positions.count; i += stride) {
+        sampledPoints.push(new Vector3(positions.getX(i), positions.getY(i), positions.getZ(i)))
+      }
     }
+    return sampledPoints
   }
-  
+
+  // Stratified over the cumulative area, with low-discrepancy barycentric coordinates so the
+  // samples (and everything measured from them) are the same on every parse
+  let triangle = 0
+  for (let k = 0; k < targetSampleCount; k++) {
+    const target = ((k + 0.5) / targetSampleCount) * totalArea
+    while (triangle < triangles.length - 1 && cumulativeArea[triangle] < target) triangle++
+    let u = (k * 0.6180339887) % 1
+    let v = (k * 0.7548776662) % 1
+    if (u + v > 1) {
+      u = 1 - u
+      v = 1 - v
+    }
+    const [a, b, c] = triangles[triangle]
+    sampledPoints.push(
+      a.clone()
+        .addScaledVector(b.clone().sub(a), u)
+        .addScaledVector(c.clone().sub(a), v)
+    )
+  }
+
   return sampledPoints
 }
 
@@ -1205,19 +1505,20 @@ function computePrincipalAxis(points: Vector3[]): Vector3 | null {
 }
 
 /**
- * Estimate centerline length by slicing point cloud along principal axis.
+ * Extract a centerline by slicing point cloud along principal axis.
  * This approximates the tube centerline by connecting centroids of thin slabs.
  */
-function estimateCenterlineLengthBySlicing(
+function extractCenterlineBySlicing(
   meshes: Array<{ geometry: BufferGeometry }>,
   numSlices: number = 120
-): number {
+): { centerline: Vector3[]; length: number } {
+  const empty: { centerline: Vector3[]; length: number } = { centerline: [], length: 0 }
   try {
-    const points = samplePointsFromMeshes(meshes, 2000)
-    if (points.length < 10) return 0
+    const points = samplePointsFromMeshes(meshes, 16000)
+    if (points.length < 10) return empty
     
     const axis = computePrincipalAxis(points)
-    if (!axis) return 0
+    if (!axis) return empty
     
     // Compute projections onto axis
     // Use the average point as origin for numerical stability
@@ -1235,10 +1536,10 @@ function estimateCenterlineLengthBySlicing(
       if (proj > maxProj) maxProj = proj
     }
     
-    if (!isFinite(minProj) || !isFinite(maxProj) || maxProj <= minProj) return 0
+    if (!isFinite(minProj) || !isFinite(maxProj) || maxProj <= minProj) return empty
     
     const sliceWidth = (maxProj - minProj) / numSlices
-    if (sliceWidth <= 0) return 0
+    if (sliceWidth <= 0) return empty
     
     // Accumulate centroids per slice
     const sumX = new Array<number>(numSlices).fill(0)
@@ -1265,7 +1566,7 @@ function estimateCenterlineLengthBySlicing(
       }
     }
     
-    if (centroids.length < 2) return 0
+    if (centroids.length < 2) return empty
     
     // Optional smoothing (moving average) to reduce noise
     const smoothed: Vector3[] = []
@@ -1301,19 +1602,93 @@ function estimateCenterlineLengthBySlicing(
     const size = new Vector3().subVectors(max, min)
     const dominantDimension = Math.max(size.x, size.y, size.z)
     
-    if (!isFinite(length) || length <= 0) return 0
+    if (!isFinite(length) || length <= 0) return empty
     
     // If computed length is suspiciously small compared to dominant dimension, fallback
     if (length < dominantDimension * 0.8) {
-      return 0
+      return empty
     }
     
-    return length
+    return { centerline: smoothed, length }
   } catch (e) {
-    return 0
+    return empty
   }
 }
 
+const STRAIGHT_SECTION_TOLERANCE = (4 * Math.PI) / 180 // tangent drift allowed along a straight section
+const TANGENT_SPAN = 2 // centerline points either side a local tangent is taken over
+
+/**
+ * Index range of the longest straight stretch of a centerline: consecutive points whose local
+ * tangents stay within tolerance of the tangent where the stretch starts
+ */
+function findStraightSection(centerline: Vector3[]): { start: number; end: number; tangents: Vector3[] } | null {
+  if (centerline.length < 3) return null
+  const last = centerline.length - 1
+  const tangents = centerline.map((_, i) =>
+    centerline[Math.min(last, i + TANGENT_SPAN)].clone().sub(centerline[Math.max(0, i - TANGENT_SPAN)]).normalize()
+  )
+
+  let best: { start: number; end: number; length: number } | null = null
+  let start = 0
+  let length = 0
+  for (let i = 1; i <= last; i++) {
+    if (tangents[i].angleTo(tangents[start]) > STRAIGHT_SECTION_TOLERANCE) {
+      start = i
+      length = 0
+      continue
+    }
+    length += centerline[i].distanceTo(centerline[i - 1])
+    if (!best || length > best.length) best = { start, end: i, length }
+  }
+
+  return best && best.end > best.start ? { start: best.start, end: best.end, tangents } : null
+}
+
+/**
+ * Detect the tube profile by slicing the solid across a straight section, perpendicular to the
+ * local tangent of the centerline extracted from the mesh; without one, across the principal axis.
+ */
+function detectCrossSection(
+  meshes: Array<{ geometry: BufferGeometry }>,
+  centerline: Vector3[] | undefined,
+  unitScale: number
+): CrossSectionProfile | undefined {
+  const slices: Array<{ origin: Vector3; direction: Vector3 }> = []
+
+  const straight = centerline ? findStraightSection(centerline) : null
+  if (centerline && straight) {
+    for (const t of [0.3, 0.5, 0.7]) {
+      const index = Math.round(straight.start + (straight.end - straight.start) * t)
+      slices.push({ origin: centerline[index], direction: straight.tangents[index] })
+    }
+  } else {
+    const points = samplePointsFromMeshes(meshes, 2000)
+    const axis = computePrincipalAxis(points)
+    if (axis && points.length > 0) {
+      const center = new Vector3()
+      for (const p of points) center.add(p)
+      center.multiplyScalar(1 / points.length)
+      const extent = Math.max(...points.map(p => Math.abs(p.clone().sub(center).dot(axis))))
+      for (const t of [-0.4, 0, 0.4]) {
+        slices.push({ origin: center.clone().addScaledVector(axis, extent * t), direction: axis })
+      }
+    }
+  }
+
+  const profiles: CrossSectionProfile[] = []
+  for (const { origin, direction } of slices) {
+    try {
+      const profile = measureCrossSection(meshes, origin, direction, unitScale)
+      if (profile) profiles.push(profile)
+    } catch (error) {
+      console.warn('Cross-section slice failed:', error)
+    }
+  }
+
+  return combineCrossSections(profiles) ?? undefined
+}
+
 /**
  * Advanced bend analysis using geometric algorithms
  */
@@ -1608,15 +1983,17 @@ function estimateBendsFromComplexity(totalVertices: number, totalTriangles: numb
  */
 async function analyzeGeometry(
   meshes: Array<{ geometry: BufferGeometry }>, 
-  detectedUnits: string,
-  originalFile?: File
+  declaredUnits: DeclaredUnits | null,
+  originalFile?: File,
+  options: CADParserOptions = {},
+  resolvedUnits?: UnitDetection
 ): Promise<ParsedGeometry['analysis']> {
   if (meshes.length === 0) {
     return {
       totalLength: 0,
       estimatedBends: 0,
       estimatedCuts: 2, // Default assumption: 2 cuts (start and end)
-      units: detectedUnits || 'unknown',
+      units: declaredUnits?.units || 'unknown',
       boundingBox: {
         min: { x: 0, y: 0, z: 0 },
         max: { x: 0, y: 0, z: 0 },
@@ -1625,6 +2002,8 @@ async function analyzeGeometry(
     }
   }
 
+  await enterStage('analyzing-units', options)
+
   // Calculate overall bounding box
   const overallBox = new Box3()
   
@@ -1636,16 +2015,21 @@ async function analyzeGeometry(
 
   const size = overallBox.getSize(new Vector3())
   
-  // Validate units against geometry
-  const unitValidation = validateUnitsAgainstGeometry(detectedUnits, size)
-  let finalUnits = detectedUnits
+  // Check units against geometry (assembly bodies share the units settled for the whole assembly)
+  const unitDetection = resolvedUnits ?? resolveUnits(declaredUnits, size, options)
+  const finalUnits = unitDetection.units
+
+  console.log(`📏 Unit detection - Units: ${finalUnits} (${unitDetection.source}), Confidence: ${unitDetection.confidence.toFixed(2)}, Max dimension: ${Math.max(size.x, size.y, size.z).toFixed(3)}`)
+
+  await enterStage('centerline', options)
+
+  // Calculate tube length using multiple methods
+  const lengthResults = await calculateTubeLengthMultiMethod(meshes, size, finalUnits)
   
-  if (!unitValidation.isValid && unitValidation.suggestedUnit) {
-    console.warn(`⚠️ Detected units '${detectedUnits}' seem incorrect for geometry size. Suggesting '${unitValidation.suggestedUnit}'`)
-    finalUnits = unitValidation.suggestedUnit
-  }
+  // Convert final length to millimeters for consistent storage
+  const lengthInMM = convertToMillimeters(lengthResults.bestLength, finalUnits)
 
-  console.log(`📏 Unit validation - Units: ${finalUnits}, Confidence: ${unitValidation.confidence.toFixed(2)}, Max dimension: ${Math.max(size.x, size.y, size.z).toFixed(3)}`)
+  await enterStage('bends', options)
 
   // Use improved bend detection algorithm
   const bendAnalysis = analyzeBends(meshes, size)
@@ -1659,11 +2043,17 @@ async function analyzeGeometry(
     estimatedCuts += Math.floor(estimatedBends / 3) // Additional cuts for complex parts
   }
 
-  // Calculate tube length using multiple methods
-  const lengthResults = await calculateTubeLengthMultiMethod(meshes, size, finalUnits)
-  
-  // Convert final length to millimeters for consistent storage
-  const lengthInMM = convertToMillimeters(lengthResults.bestLength, finalUnits)
+  // Derive the LRA / XYZ bend table from the extracted centerline (in millimeters)
+  let bendTable: BendTable | undefined
+  if (lengthResults.centerline) {
+    bendTable = extractBendTable(lengthResults.centerline.points, {
+      scale: convertToMillimeters(1, finalUnits),
+      source: lengthResults.centerline.method
+    }) ?? undefined
+  }
+
+  // Detect OD / ID / wall and profile shape from cross-section slices
+  const crossSection = detectCrossSection(meshes, lengthResults.centerline?.points, convertToMillimeters(1, finalUnits))
   
   const analysis = {
     totalLength: lengthInMM, // Store in millimeters for consistency
@@ -1671,9 +2061,12 @@ async function analyzeGeometry(
     estimatedCuts,
     units: 'millimeter', // Always store as millimeter
     originalUnits: finalUnits, // Keep track of original units
-    unitConfidence: unitValidation.confidence,
+    unitConfidence: unitDetection.confidence,
+    unitDetection,
     lengthCalculationMethod: lengthResults.method,
     lengthConfidence: lengthResults.confidence,
+    bendTable,
+    crossSection,
     boundingBox: {
       min: { x: overallBox.min.x, y: overallBox.min.y, z: overallBox.min.z },
       max: { x: overallBox.max.x, y: overallBox.max.y, z: overallBox.max.z },
@@ -1689,14 +2082,291 @@ async function analyzeGeometry(
     bendConfidence: bendAnalysis.confidence,
     totalLengthMM: analysis.totalLength,
     originalUnits: finalUnits,
-    unitConfidence: unitValidation.confidence,
+    unitConfidence: unitDetection.confidence,
     calculationMethod: lengthResults.method,
-    lengthConfidence: lengthResults.confidence
+    lengthConfidence: lengthResults.confidence,
+    bendTableBends: bendTable?.bends.length ?? 0,
+    crossSection
+  })
+
+  return analysis
+}
+
+/**
+ * Analyze a wireframe centerline. Length is exact and, for line / arc chains, so is the bend
+ * table; free-form centerlines go through the same bend extraction as solids.
+ */
+async function analyzeCenterline(
+  chain: WireCurve[],
+  declaredUnits: DeclaredUnits | null,
+  options: CADParserOptions = {}
+): Promise<ParsedGeometry['analysis']> {
+  await enterStage('analyzing-units', options)
+
+  const points = chainPoints(chain)
+  const box = new Box3().setFromPoints(points)
+  const size = box.getSize(new Vector3())
+
+  const unitDetection = resolveUnits(declaredUnits, size, options)
+  const finalUnits = unitDetection.units
+  const toMM = convertToMillimeters(1, finalUnits)
+
+  await enterStage('centerline', options)
+
+  const length = chain.reduce((sum, curve) => sum + curveLength(curve), 0)
+
+  await enterStage('bends', options)
+
+  let bendTable: BendTable | undefined
+  const exact = chainIntersections(chain, DEFAULT_MIN_BEND_ANGLE_DEG)
+  if (exact) {
+    const tablePoints = exact.points.map(p => ({ x: p.x * toMM, y: p.y * toMM, z: p.z * toMM }))
+    const { bends, finalLength } = calculateLraFromIntersections(tablePoints, exact.radii.map(r => r * toMM))
+    bends.forEach(bend => {
+      if (!bend.radius) bend.radius = undefined
+    })
+    bendTable = { bends, finalLength, points: tablePoints, confidence: 1, source: 'wireframe' }
+  } else {
+    bendTable = extractBendTable(points, { scale: toMM, source: 'wireframe' }) ?? undefined
+  }
+
+  const estimatedBends = bendTable?.bends.length ?? 0
+  let estimatedCuts = 2
+  if (estimatedBends > 3) {
+    estimatedCuts += Math.floor(estimatedBends / 3)
+  }
+
+  // A centerline has no wall; the OD is the stock the customer picked
+  const crossSection: CrossSectionProfile = {
+    shape: 'round',
+    outerDiameter: options.centerlineDiameter ?? DEFAULT_CENTERLINE_DIAMETER,
+    innerDiameter: 0,
+    wallThickness: 0,
+    confidence: 1,
+    assumed: true
+  }
+
+  const analysis = {
+    totalLength: length * toMM,
+    estimatedBends,
+    estimatedCuts,
+    units: 'millimeter',
+    originalUnits: finalUnits,
+    unitConfidence: unitDetection.confidence,
+    unitDetection,
+    lengthCalculationMethod: 'Wireframe centerline',
+    lengthConfidence: 1,
+    bendTable,
+    crossSection,
+    boundingBox: {
+      min: { x: box.min.x, y: box.min.y, z: box.min.z },
+      max: { x: box.max.x, y: box.max.y, z: box.max.z },
+      size: { x: size.x, y: size.y, z: size.z }
+    }
+  }
+
+  console.log('〰️ Wireframe centerline analysis:', {
+    curves: chain.length,
+    totalLengthMM: analysis.totalLength,
+    originalUnits: finalUnits,
+    exactBends: !!exact,
+    bendTableBends: estimatedBends
   })
 
   return analysis
 }
 
+/**
+ * Build the parse result of a wireframe centerline: the chosen OD swept along the path for display
+ */
+async function parseCenterline(
+  chain: WireCurve[],
+  declaredUnits: DeclaredUnits | null,
+  options: CADParserOptions
+): Promise<ParsedGeometry> {
+  const analysis = await analyzeCenterline(chain, declaredUnits, options)
+
+  // Center and scale like solid display meshes (~10 units for the largest dimension)
+  const points = chainPoints(chain)
+  const box = new Box3().setFromPoints(points)
+  const center = box.getCenter(new Vector3())
+  const size = box.getSize(new Vector3())
+  const maxSize = Math.max(size.x, size.y, size.z)
+  const displayScale = (maxSize > 0 ? 10 / maxSize : 1) * (options.scale ?? 1)
+  const displayPoints = points.map(p => p.clone().sub(center).multiplyScalar(displayScale))
+
+  // Display units per millimeter
+  const perMM = displayScale / convertToMillimeters(1, analysis.originalUnits!)
+  const geometry = sweepCenterline(displayPoints, (analysis.crossSection!.outerDiameter / 2) * perMM)
+  geometry.computeBoundingBox()
+
+  return {
+    meshes: [{ geometry }],
+    analysis: {
+      ...analysis,
+      centerline: { points: displayPoints.map(p => ({ x: p.x, y: p.y, z: p.z })), displayScale: perMM }
+    }
+  }
+}
+
+const MIN_TUBE_SLENDERNESS = 4 // length / OD below which a body is treated as a fitting or bracket
+
+/**
+ * Group parsed meshes into bodies using the STEP product tree. Every tree node that owns meshes
+ * becomes one body named after the node (or its nearest named ancestor). Without a tree, every
+ * mesh is its own body.
+ */
+function groupMeshesIntoBodies(
+  result: any,
+  meshSourceIndices: number[]
+): Array<{ name: string; meshIndices: number[] }> {
+  const analysisIndexBySource = new Map(meshSourceIndices.map((source, index) => [source, index]))
+  const bodies: Array<{ name: string; meshIndices: number[] }> = []
+
+  const visit = (node: any, inheritedName: string) => {
+    if (!node) return
+    const name = node.name || inheritedName
+    const meshIndices = (Array.isArray(node.meshes) ? node.meshes : [])
+      .map((source: number) => analysisIndexBySource.get(source))
+      .filter((index: number | undefined): index is number => index !== undefined)
+
+    if (meshIndices.length > 0) {
+      bodies.push({ name, meshIndices })
+    }
+    for (const child of node.children || []) {
+      visit(child, name)
+    }
+  }
+  visit(result.root, '')
+
+  const assigned = new Set(bodies.flatMap(body => body.meshIndices))
+  meshSourceIndices.forEach((source, index) => {
+    if (!assigned.has(index)) {
+      bodies.push({ name: result.meshes[source]?.name || '', meshIndices: [index] })
+    }
+  })
+
+  return bodies.map((body, index) => ({ ...body, name: body.name || `Body ${index + 1}` }))
+}
+
+/**
+ * Decide whether an analyzed body is a tube: it needs a measurable profile and has to be
+ * long compared to its diameter, which rules out elbows, clamps and brackets
+ */
+function classifyBody(analysis: ParsedGeometry['analysis']): AssemblyBody['kind'] {
+  const profile = analysis.crossSection
+  if (!profile || profile.outerDiameter <= 0) return 'other'
+  return analysis.totalLength / profile.outerDiameter >= MIN_TUBE_SLENDERNESS ? 'tube' : 'other'
+}
+
+/**
+ * Signature used to roll up identical tubes: length, OD and the bend sequence
+ */
+function tubeSignature(body: AssemblyBody): string {
+  const angles = body.bendTable?.bends.map(bend => Math.round(bend.angle)).join(',') ?? `${body.estimatedBends}`
+  const od = body.crossSection ? body.crossSection.outerDiameter.toFixed(1) : '?'
+  return `${Math.round(body.totalLength)}|${od}|${angles}`
+}
+
+/**
+ * Analyze every body of an assembly separately and roll identical tubes into quote lines.
+ * The top-level analysis describes the longest tube so single-line consumers keep working.
+ */
+async function analyzeAssembly(
+  meshes: ParsedGeometry['meshes'],
+  bodyGroups: Array<{ name: string; meshIndices: number[] }>,
+  declaredUnits: DeclaredUnits | null,
+  originalFile: File | undefined,
+  options: CADParserOptions
+): Promise<ParsedGeometry['analysis']> {
+  console.log(`🧩 Analyzing assembly with ${bodyGroups.length} bodies`)
+
+  // Check units once against the whole assembly; small fittings on their own would mislead it
+  const overallBox = new Box3()
+  for (const mesh of meshes) {
+    if (mesh.geometry.boundingBox) overallBox.union(mesh.geometry.boundingBox)
+  }
+  const unitDetection = resolveUnits(declaredUnits, overallBox.getSize(new Vector3()), options)
+
+  // Spread the per-body analysis stages over the analysis part of the progress bar
+  const analysisStart = PARSE_STAGES.indexOf('analyzing-units') / PARSE_STAGES.length
+  const bodies: AssemblyBody[] = []
+  const bodyAnalyses: Array<ParsedGeometry['analysis']> = []
+
+  for (let i = 0; i < bodyGroups.length; i++) {
+    const group = bodyGroups[i]
+    const analysis = await analyzeGeometry(
+      group.meshIndices.map(index => meshes[index]),
+      declaredUnits,
+      originalFile,
+      {
+        ...options,
+        onProgress: options.onProgress && (progress => options.onProgress!({
+          stage: progress.stage,
+          progress: analysisStart + ((i + (progress.progress - analysisStart) / (1 - analysisStart)) / bodyGroups.length) * (1 - analysisStart)
+        }))
+      },
+      unitDetection
+    )
+
+    const body: AssemblyBody = {
+      id: i + 1,
+      name: group.name,
+      kind: classifyBody(analysis),
+      meshIndices: group.meshIndices,
+      totalLength: analysis.totalLength,
+      estimatedBends: analysis.estimatedBends,
+      estimatedCuts: analysis.estimatedCuts,
+      bendTable: analysis.bendTable,
+      crossSection: analysis.crossSection
+    }
+    bodies.push(body)
+    bodyAnalyses.push(analysis)
+    console.log(`🧩 Body ${body.id} "${body.name}": ${body.kind}, ${body.totalLength.toFixed(1)}mm, ${body.estimatedBends} bends`)
+  }
+
+  const linesByKey = new Map<string, AssemblyTubeLine>()
+  for (const body of bodies) {
+    if (body.kind !== 'tube') continue
+    const key = tubeSignature(body)
+    const line = linesByKey.get(key)
+    if (line) {
+      line.bodyIds.push(body.id)
+      line.quantity++
+    } else {
+      linesByKey.set(key, {
+        key,
+        name: body.name,
+        bodyIds: [body.id],
+        quantity: 1,
+        totalLength: body.totalLength,
+        estimatedBends: body.estimatedBends,
+        estimatedCuts: body.estimatedCuts,
+        bendTable: body.bendTable,
+        crossSection: body.crossSection
+      })
+    }
+  }
+  const tubeLines = Array.from(linesByKey.values()).sort((a, b) => b.totalLength - a.totalLength)
+
+  // Describe the assembly by its longest tube, or the longest body when nothing looks like a tube
+  const primaryId = tubeLines[0]?.bodyIds[0]
+    ?? bodies.reduce((longest, body) => (body.totalLength > longest.totalLength ? body : longest)).id
+  const primary = bodyAnalyses[primaryId - 1]
+
+  return {
+    ...primary,
+    unitConfidence: unitDetection.confidence,
+    unitDetection,
+    assembly: { bodies, tubeLines },
+    boundingBox: {
+      min: { x: overallBox.min.x, y: overallBox.min.y, z: overallBox.min.z },
+      max: { x: overallBox.max.x, y: overallBox.max.y, z: overallBox.max.z },
+      size: { x: overallBox.max.x - overallBox.min.x, y: overallBox.max.y - overallBox.min.y, z: overallBox.max.z - overallBox.min.z }
+    }
+  }
+}
+
 /**
  * Parse STEP or IGES files using occt-import-js
  */
@@ -1706,6 +2376,8 @@ async function parseStepOrIges(
   options: CADParserOptions = {}
 ): Promise<ParsedGeometry> {
   try {
+    await enterStage('reading', options)
+
     // Dynamic import and initialize the library if not already done
     if (!occtInstance) {
       const occtimportjs = await import('occt-import-js')
@@ -1715,9 +2387,10 @@ async function parseStepOrIges(
       
       // Initialize with WASM path configuration
       occtInstance = await occtImportFactory({
-        locateFile: (path: string) => {
+        locateFile: (path: string, scriptDirectory: string = '') => {
           if (path.endsWith('.wasm')) {
-            return `/occt-import-js.wasm`
+            // Browsers load the WASM from /public; Node reads it next to the package script
+            return typeof location !== 'undefined' ? `/occt-import-js.wasm` : scriptDirectory + path
           }
           return path
         }
@@ -1729,24 +2402,40 @@ async function parseStepOrIges(
 
     console.log(`Parsing ${fileType.toUpperCase()} file with size:`, uint8Array.length, 'bytes')
 
-    // Call the appropriate parsing method
+    const declaredUnits = await detectDeclaredUnits(fileType, file)
+    console.log(`Declared units for ${fileType.toUpperCase()} file:`, declaredUnits)
+
+    await enterStage('tessellating', options)
+
+    // occt converts coordinates to millimeters unless told otherwise; keep them in the declared
+    // units so the analysis, and a customer override of those units, work on file values
+    const linearUnit = declaredUnits && OCCT_LINEAR_UNITS.includes(declaredUnits.units) ? declaredUnits.units : 'millimeter'
     const result = fileType === 'step' 
-      ? occtInstance.ReadStepFile(uint8Array, null)
-      : occtInstance.ReadIgesFile(uint8Array, null)
+      ? occtInstance.ReadStepFile(uint8Array, { linearUnit })
+      : occtInstance.ReadIgesFile(uint8Array, { linearUnit })
+    const tessellationUnits: DeclaredUnits | null = declaredUnits && { ...declaredUnits, units: linearUnit }
 
     console.log('Parse result:', result)
 
+    if (!result || !result.success || !result.meshes?.length) {
+      // Files without solids may still carry the tube centerline as a wire
+      const curves = fileType === 'step' ? extractStepWireframe(await file.text()) : extractIgesWireframe(await file.text())
+      const chain = chainCurves(curves)
+      if (chain) {
+        console.log(`〰️ ${fileType.toUpperCase()} wireframe centerline with ${chain.length} curves`)
+        return await parseCenterline(chain, declaredUnits, options)
+      }
+    }
+
     if (!result || !result.success) {
       throw new Error(`Failed to parse ${fileType.toUpperCase()} file: ${result?.errorText || 'Unknown error'}`)
     }
 
-    // Detect units from the parsed result
-    const detectedUnits = await detectUnitsFromResult(result, fileType, file)
-    console.log(`Detected units for ${fileType.toUpperCase()} file:`, detectedUnits)
 
     // Keep original meshes for accurate analysis, and separate display meshes for viewer scaling/centering
     const analysisMeshes: ParsedGeometry['meshes'] = []
     const displayMeshes: ParsedGeometry['meshes'] = []
+    const meshSourceIndices: number[] = [] // index into result.meshes for each analysis mesh
 
     // Process the parsed mesh data (using the correct structure from examples)
     if (result.meshes && Array.isArray(result.meshes)) {
@@ -1807,44 +2496,36 @@ async function parseStepOrIges(
           center: { x: center.x, y: center.y, z: center.z }
         })
 
-        // Create a display copy for viewer scaling/centering
-        const geometryDisplay = geometryOriginal.clone()
-        // Auto-scale and center geometry for better visibility
-        const maxSize = Math.max(size.x, size.y, size.z)
-        
-        if (maxSize > 0) {
-          // Scale to a reasonable size (target ~10 units for the largest dimension)
-          const targetSize = 10
-          const autoScale = targetSize / maxSize
-          
-          console.log(`Auto-scaling mesh (display) ${i + 1} by factor ${autoScale} (original max size: ${maxSize})`)
-          geometryDisplay.scale(autoScale, autoScale, autoScale)
-          
-          // Re-compute bounding box after scaling
-          geometryDisplay.computeBoundingBox()
-        }
+        analysisMeshes.push({ geometry: geometryOriginal })
+        meshSourceIndices.push(i)
+        console.log(`Successfully processed mesh ${i + 1}`)
+      }
 
-        // Always center the geometry
-        geometryDisplay.center()
-        
-        // Re-compute final bounding box
-        geometryDisplay.computeBoundingBox()
-        const finalBbox = geometryDisplay.boundingBox!
-        const finalSize = finalBbox.getSize(new Vector3())
-        
-        console.log(`Final mesh ${i + 1} size:`, {
-          x: finalSize.x, y: finalSize.y, z: finalSize.z
-        })
+      // Scale and center all display meshes together so assembly bodies keep their relative placement
+      const assemblyBox = new Box3()
+      for (const mesh of analysisMeshes) {
+        assemblyBox.union(mesh.geometry.boundingBox!)
+      }
+      const assemblySize = assemblyBox.getSize(new Vector3())
+      const assemblyCenter = assemblyBox.getCenter(new Vector3())
+      const maxSize = Math.max(assemblySize.x, assemblySize.y, assemblySize.z)
+      // Scale to a reasonable size (target ~10 units for the largest dimension)
+      const autoScale = maxSize > 0 ? 10 / maxSize : 1
+      console.log(`Auto-scaling display meshes by factor ${autoScale} (original max size: ${maxSize})`)
+
+      for (const mesh of analysisMeshes) {
+        // Create a display copy for viewer scaling/centering
+        const geometryDisplay = mesh.geometry.clone()
+        geometryDisplay.translate(-assemblyCenter.x, -assemblyCenter.y, -assemblyCenter.z)
+        geometryDisplay.scale(autoScale, autoScale, autoScale)
 
         // Apply user-specified transformations
         if (options.scale && options.scale !== 1) {
           geometryDisplay.scale(options.scale, options.scale, options.scale)
         }
 
-        // Store meshes: original for analysis, display for rendering
-        analysisMeshes.push({ geometry: geometryOriginal })
+        geometryDisplay.computeBoundingBox()
         displayMeshes.push({ geometry: geometryDisplay })
-        console.log(`Successfully processed mesh ${i + 1}`)
       }
     }
 
@@ -1895,8 +2576,13 @@ async function parseStepOrIges(
       throw new Error('No valid geometry found in file. The file may not contain renderable mesh data.')
     }
 
+    // Keep assembly bodies apart so each tube gets its own length and bends
+    const bodies = meshSourceIndices.length > 0 ? groupMeshesIntoBodies(result, meshSourceIndices) : []
+
     // Analyze the geometry for length, bends, and cuts
-    const analysis = await analyzeGeometry(analysisMeshes, detectedUnits, file)
+    const analysis = bodies.length > 1
+      ? await analyzeAssembly(analysisMeshes, bodies, tessellationUnits, file, options)
+      : await analyzeGeometry(analysisMeshes, tessellationUnits, file, options)
     
     console.log(`Successfully extracted ${analysisMeshes.length} mesh(es) from ${fileType.toUpperCase()} file`)
     console.log('📊 Geometry Analysis:', analysis)
@@ -1904,6 +2590,7 @@ async function parseStepOrIges(
     return { meshes: displayMeshes, analysis }
 
   } catch (error) {
+    if (error instanceof ParseCancelledError) throw error
     console.error(`Error parsing ${fileType.toUpperCase()} file:`, error)
     throw new Error(`Failed to parse ${fileType.toUpperCase()} file: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
@@ -1914,13 +2601,17 @@ async function parseStepOrIges(
  */
 async function parseDxf(file: File, options: CADParserOptions = {}): Promise<ParsedGeometry> {
   try {
+    await enterStage('reading', options)
+
     // Dynamic import to avoid potential SSR issues
     const { DXFLoader } = await import('three-dxf-loader')
     
     const loader = new DXFLoader()
     const text = await file.text()
+
+    await enterStage('tessellating', options)
     
-    const dxfData = loader.parse(text)
+    const dxfData = loader.parse(text)?.dxf
     
     if (!dxfData) {
       throw new Error('Failed to parse DXF file')
@@ -1928,44 +2619,34 @@ async function parseDxf(file: File, options: CADParserOptions = {}): Promise<Par
 
     const meshes: ParsedGeometry['meshes'] = []
 
-    // Process DXF entities
-    if (dxfData.entities) {
-      // Create a single geometry from all DXF entities
+    // Tessellate arcs, bulges, splines and block references into curves
+    const curves = tessellateDxfEntities(dxfData)
+    console.log(`📐 DXF: ${dxfData.entities?.length ?? 0} entities tessellated into ${curves.length} curves`)
+
+    // A single open chain of curves is a tube centerline
+    const chain = chainCurves(curves)
+    if (chain) {
+      const units = getDxfUnits(dxfData)
+      console.log(`〰️ DXF wireframe centerline with ${chain.length} curves`)
+      return await parseCenterline(chain, units ? { units, source: 'dxf-header' } : null, options)
+    }
+
+    if (curves.length > 0) {
+      // Create a single line geometry from all DXF entities
       const geometry = new BufferGeometry()
       const positions: number[] = []
       const indices: number[] = []
 
       let vertexIndex = 0
 
-      // Process lines, polylines, and other entities
-      for (const entity of dxfData.entities) {
-        if (entity.type === 'LINE') {
-          // Add line vertices
-          positions.push(entity.start.x, entity.start.y, entity.start.z || 0)
-          positions.push(entity.end.x, entity.end.y, entity.end.z || 0)
-          
-          // Add line indices
-          indices.push(vertexIndex, vertexIndex + 1)
-          vertexIndex += 2
-        } else if (entity.type === 'POLYLINE' || entity.type === 'LWPOLYLINE') {
-          // Add polyline vertices
-          const vertices = entity.vertices || []
-          for (let i = 0; i < vertices.length; i++) {
-            const vertex = vertices[i]
-            positions.push(vertex.x, vertex.y, vertex.z || 0)
-            
-            if (i > 0) {
-              indices.push(vertexIndex - 1, vertexIndex)
-            }
-            vertexIndex++
+      for (const curve of curves) {
+        curve.points.forEach((point, i) => {
+          positions.push(point.x, point.y, point.z)
+          if (i > 0) {
+            indices.push(vertexIndex - 1, vertexIndex)
           }
-          
-          // Close polyline if needed
-          if (entity.closed && vertices.length > 2) {
-            indices.push(vertexIndex - 1, vertexIndex - vertices.length)
-          }
-        }
-        // Add more entity types as needed (CIRCLE, ARC, etc.)
+          vertexIndex++
+        })
       }
 
       if (positions.length > 0) {
@@ -1991,45 +2672,141 @@ async function parseDxf(file: File, options: CADParserOptions = {}): Promise<Par
       throw new Error('No valid geometry found in DXF file')
     }
 
-    // For DXF files, units are harder to detect, so we'll estimate from geometry
-    let detectedUnits = 'millimeter' // Default for DXF
-    
-    if (meshes.length > 0) {
-      const geometry = meshes[0].geometry
-      if (geometry.boundingBox) {
-        const size = geometry.boundingBox.getSize(new Vector3())
-        detectedUnits = estimateUnitsFromGeometry(size)
-      }
+    // Prefer the $INSUNITS header; unitless drawings are estimated from geometry
+    const headerUnits = getDxfUnits(dxfData)
+    if (headerUnits) {
+      console.log(`📏 DXF $INSUNITS: ${headerUnits}`)
     }
     
     // Analyze the geometry
-    const analysis = await analyzeGeometry(meshes, detectedUnits)
+    const analysis = await analyzeGeometry(meshes, headerUnits ? { units: headerUnits, source: 'dxf-header' } : null, undefined, options)
     
     console.log('📊 DXF Geometry Analysis:', analysis)
     return { meshes, analysis }
 
   } catch (error) {
+    if (error instanceof ParseCancelledError) throw error
     console.error('Error parsing DXF file:', error)
     throw new Error(`Failed to parse DXF file: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
 }
 
 /**
- * Main CAD file parser function
+ * Parse STL, OBJ, 3MF and glTF meshes through the same analysis as STEP / IGES tessellations.
+ * Meshes without declared units use the units passed in the options or a geometry estimate,
+ * and every confidence is reduced because facets only approximate the tube surface.
+ */
+async function parseMesh(file: File, format: MeshFormat, options: CADParserOptions = {}): Promise<ParsedGeometry> {
+  try {
+    await enterStage('reading', options)
+    const imported = await loadMeshFile(file, format)
+
+    await enterStage('tessellating', options)
+
+    const analysisMeshes: ParsedGeometry['meshes'] = []
+    let mergedVertices = 0
+    for (const geometry of imported.geometries) {
+      if (!geometry.getAttribute('position')?.count) continue
+      const welded = await weldMesh(geometry)
+      mergedVertices += welded.merged
+      analysisMeshes.push({ geometry: welded.geometry })
+    }
+
+    if (analysisMeshes.length === 0) {
+      throw new Error('No triangles found in mesh file')
+    }
+    console.log(`🔺 ${format.toUpperCase()}: ${analysisMeshes.length} mesh(es), welded ${mergedVertices} duplicate vertices`)
+
+    const box = new Box3()
+    for (const mesh of analysisMeshes) {
+      box.union(mesh.geometry.boundingBox!)
+    }
+    const size = box.getSize(new Vector3())
+    const center = box.getCenter(new Vector3())
+
+    // Units the customer picked win, then units the format declares, then a guess
+    const declaredUnits: DeclaredUnits | null = imported.units ? { units: imported.units, source: 'mesh-file' } : null
+    const analysis = await analyzeGeometry(analysisMeshes, declaredUnits, undefined, options)
+
+    analysis.lengthConfidence = (analysis.lengthConfidence ?? 0.5) * MESH_CONFIDENCE_FACTOR
+    if (analysis.bendTable) analysis.bendTable.confidence *= MESH_CONFIDENCE_FACTOR
+    if (analysis.crossSection) analysis.crossSection.confidence *= MESH_CONFIDENCE_FACTOR
+    analysis.meshImport = { format, unitsDeclared: !!(options.units || imported.units), mergedVertices }
+
+    // Scale and center display copies together (~10 units for the largest dimension)
+    const maxSize = Math.max(size.x, size.y, size.z)
+    const displayScale = (maxSize > 0 ? 10 / maxSize : 1) * (options.scale ?? 1)
+    const displayMeshes = analysisMeshes.map(mesh => {
+      const geometry = mesh.geometry.clone()
+      geometry.translate(-center.x, -center.y, -center.z)
+      geometry.scale(displayScale, displayScale, displayScale)
+      geometry.computeBoundingBox()
+      return { geometry }
+    })
+
+    console.log('📊 Mesh Geometry Analysis:', analysis)
+    return { meshes: displayMeshes, analysis }
+
+  } catch (error) {
+    if (error instanceof ParseCancelledError) throw error
+    console.error(`Error parsing ${format.toUpperCase()} file:`, error)
+    throw new Error(`Failed to parse ${format.toUpperCase()} file: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Parse CSV / TXT bend tables (XYZ intersection points or LRA rows) into a centerline
+ */
+async function parseBendTableFile(file: File, options: CADParserOptions = {}): Promise<ParsedGeometry> {
+  try {
+    await enterStage('reading', options)
+    const text = await file.text()
+
+    await enterStage('tessellating', options)
+    const table = parseBendTableText(text)
+    const chain = filletPolyline(table.points, table.radii)
+
+    const parsed = await parseCenterline(chain, table.units ? { units: table.units, source: 'bend-table' } : null, options)
+    parsed.analysis.lengthCalculationMethod = `${table.format.toUpperCase()} bend table`
+
+    console.log('📊 Bend Table Analysis:', parsed.analysis)
+    return parsed
+
+  } catch (error) {
+    if (error instanceof ParseCancelledError) throw error
+    console.error('Error parsing bend table:', error)
+    throw new Error(`Failed to parse bend table: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Main CAD file parser function. Results are cached by file content, parser version and the
+ * options that change them, so reopening a quote does not parse the same file again.
  */
 export async function parseCADFile(
   file: File,
   options: CADParserOptions = {}
 ): Promise<ParsedGeometry> {
-  const fileName = file.name.toLowerCase()
-  const extension = fileName.split('.').pop()
-
   const defaultOptions: CADParserOptions = {
     scale: 1,
     centerGeometry: true,
     ...options
   }
 
+  const cacheKey = await parseCacheKey(file, PARSER_VERSION, defaultOptions).catch(() => null)
+  const cached = cacheKey ? await readParseCache(cacheKey, PARSER_VERSION) : null
+  if (options.signal?.aborted) throw new ParseCancelledError()
+  if (cached) return cached
+
+  const parsed = await parseByExtension(file, defaultOptions)
+  // Awaited: the worker transfers the mesh buffers as soon as this returns
+  if (cacheKey) await writeParseCache(cacheKey, PARSER_VERSION, file.name, parsed)
+  return parsed
+}
+
+async function parseByExtension(file: File, defaultOptions: CADParserOptions): Promise<ParsedGeometry> {
+  const extension = file.name.toLowerCase().split('.').pop()
+
   switch (extension) {
     case 'step':
     case 'stp':
@@ -2041,6 +2818,17 @@ export async function parseCADFile(
     
     case 'dxf':
       return parseDxf(file, defaultOptions)
+
+    case 'csv':
+    case 'txt':
+      return parseBendTableFile(file, defaultOptions)
+
+    case 'stl':
+    case 'obj':
+    case '3mf':
+    case 'gltf':
+    case 'glb':
+      return parseMesh(file, getMeshFormat(extension)!, defaultOptions)
     
     default:
       throw new Error(`Unsupported file format: ${extension}`)
@@ -2051,7 +2839,7 @@ export async function parseCADFile(
  * Get supported file extensions
  */
 export function getSupportedExtensions(): string[] {
-  return ['step', 'stp', 'iges', 'igs', 'dxf']
+  return ['step', 'stp', 'iges', 'igs', 'dxf', 'csv', 'txt', 'stl', 'obj', '3mf', 'gltf', 'glb']
 }
 
 /**
@@ -0,0 +1,97 @@
+import { parseCADFile, ParseCancelledError } from './cadFileParser'
+import type { CADParserOptions, ParsedGeometry } from './cadFileParser'
+import { deserializeMesh } from './parseCache'
+import type { ParseStage, ParserWorkerRequest, ParserWorkerResponse } from '@/lib/types/parser'
+
+export const PARSE_STAGE_LABELS: Record<ParseStage, string> = {
+  reading: 'Reading file',
+  tessellating: 'Tessellating geometry',
+  'analyzing-units': 'Analyzing units',
+  centerline: 'Extracting centerline',
+  bends: 'Detecting bends'
+}
+
+// A finished worker is kept so the occt WASM module stays warm for the next file
+let idleWorker: Worker | null = null
+let nextRequestId = 1
+
+function acquireWorker(): Worker {
+  const worker = idleWorker ?? new Worker(new URL('../workers/cadParser.worker.ts', import.meta.url), { type: 'module' })
+  idleWorker = null
+  return worker
+}
+
+function releaseWorker(worker: Worker) {
+  if (idleWorker) {
+    worker.terminate()
+  } else {
+    idleWorker = worker
+  }
+}
+
+/**
+ * Parse a CAD file in a Web Worker. Progress is reported per stage and aborting the signal
+ * terminates the worker, stopping tessellation and analysis immediately.
+ * Falls back to parsing on the main thread where workers are unavailable.
+ */
+export function parseCADFileInWorker(file: File, options: CADParserOptions = {}): Promise<ParsedGeometry> {
+  if (typeof Worker === 'undefined') {
+    return parseCADFile(file, options)
+  }
+
+  const { onProgress, signal, ...parseOptions } = options
+  if (signal?.aborted) {
+    return Promise.reject(new ParseCancelledError())
+  }
+
+  const worker = acquireWorker()
+  const id = nextRequestId++
+
+  return new Promise<ParsedGeometry>((resolve, reject) => {
+    const cleanup = () => {
+      worker.removeEventListener('message', handleMessage)
+      worker.removeEventListener('error', handleError)
+      signal?.removeEventListener('abort', handleAbort)
+    }
+
+    const handleMessage = (event: MessageEvent<ParserWorkerResponse>) => {
+      const message = event.data
+      if (message.id !== id) return
+
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress)
+          break
+        case 'result':
+          cleanup()
+          releaseWorker(worker)
+          resolve({ meshes: message.meshes.map(deserializeMesh), analysis: message.analysis })
+          break
+        case 'error':
+          cleanup()
+          releaseWorker(worker)
+          reject(new Error(message.message))
+          break
+      }
+    }
+
+    const handleError = (event: ErrorEvent) => {
+      cleanup()
+      worker.terminate()
+      reject(new Error(event.message || 'CAD parser worker failed'))
+    }
+
+    const handleAbort = () => {
+      cleanup()
+      worker.terminate()
+      reject(new ParseCancelledError())
+    }
+
+    worker.addEventListener('message', handleMessage)
+    worker.addEventListener('error', handleError)
+    signal?.addEventListener('abort', handleAbort)
+
+    const request: ParserWorkerRequest = { type: 'parse', id, file, options: parseOptions }
+    worker.postMessage(request)
+  })
+}
@@ -0,0 +1,310 @@
+import { BufferGeometry, Vector3 } from 'three'
+import type { CrossSectionProfile } from '@/lib/types/geometry'
+
+interface SliceComponent {
+  points: Array<{ x: number; y: number }>
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+}
+
+const ROUNDNESS_TOLERANCE = 0.04 // max relative spread of radii for a round profile
+const SQUARENESS_TOLERANCE = 0.05 // max relative difference of sides for a square profile
+const ELLIPSE_TOLERANCE = 0.1 // max normalized ellipse-equation deviation for an oval profile
+
+/**
+ * Intersect every triangle of the meshes with a plane and return the cut segments
+ * in plane coordinates (u, v) relative to the plane origin
+ */
+function slicePlane(
+  meshes: Array<{ geometry: BufferGeometry }>,
+  origin: Vector3,
+  normal: Vector3
+): Array<[{ x: number; y: number }, { x: number; y: number }]> {
+  const n = normal.clone().normalize()
+  const helper = Math.abs(n.x) < 0.9 ? new Vector3(1, 0, 0) : new Vector3(0, 1, 0)
+  const u = helper.cross(n).normalize()
+  const v = n.clone().cross(u).normalize()
+
+  const segments: Array<[{ x: number; y: number }, { x: number; y: number }]> = []
+  const a = new Vector3()
+  const b = new Vector3()
+  const c = new Vector3()
+
+  const toPlane = (p: Vector3) => {
+    const offset = p.clone().sub(origin)
+    return { x: offset.dot(u), y: offset.dot(v) }
+  }
+
+  for (const mesh of meshes) {
+    const positions = mesh.geometry.attributes.position
+    if (!positions) continue
+    const index = mesh.geometry.index
+    const triangleCount = index ? index.count / 3 : positions.count / 3
+
+    for (let t = 0; t < triangleCount; t++) {
+      const i0 = index ? index.getX(t * 3) : t * 3
+      const i1 = index ? index.getX(t * 3 + 1) : t * 3 + 1
+      const i2 = index ? index.getX(t * 3 + 2) : t * 3 + 2
+      a.set(positions.getX(i0), positions.getY(i0), positions.getZ(i0))
+      b.set(positions.getX(i1), positions.getY(i1), positions.getZ(i1))
+      c.set(positions.getX(i2), positions.getY(i2), positions.getZ(i2))
+
+      const da = a.clone().sub(origin).dot(n)
+      const db = b.clone().sub(origin).dot(n)
+      const dc = c.clone().sub(origin).dot(n)
+
+      const crossings: Vector3[] = []
+      const edges: Array<[Vector3, Vector3, number, number]> = [[a, b, da, db], [b, c, db, dc], [c, a, dc, da]]
+      for (const [p, q, dp, dq] of edges) {
+        if ((dp < 0 && dq >= 0) || (dp >= 0 && dq < 0)) {
+          const s = dp / (dp - dq)
+          crossings.push(p.clone().lerp(q, s))
+        }
+      }
+
+      if (crossings.length === 2) {
+        segments.push([toPlane(crossings[0]), toPlane(crossings[1])])
+      }
+    }
+  }
+
+  return segments
+}
+
+/**
+ * Group cut segments into connected components (closed loops) by shared end points
+ */
+function groupSegments(
+  segments: Array<[{ x: number; y: number }, { x: number; y: number }]>,
+  tolerance: number
+): SliceComponent[] {
+  const parent = new Map<string, string>()
+  const key = (p: { x: number; y: number }) => `${Math.round(p.x / tolerance)}:${Math.round(p.y / tolerance)}`
+  const find = (k: string): string => {
+    let root = k
+    while (parent.get(root) !== root) root = parent.get(root)!
+    parent.set(k, root)
+    return root
+  }
+  const ensure = (k: string) => {
+    if (!parent.has(k)) parent.set(k, k)
+  }
+
+  for (const [p, q] of segments) {
+    const kp = key(p)
+    const kq = key(q)
+    ensure(kp)
+    ensure(kq)
+    parent.set(find(kp), find(kq))
+  }
+
+  const components = new Map<string, SliceComponent>()
+  for (const [p, q] of segments) {
+    const root = find(key(p))
+    let component = components.get(root)
+    if (!component) {
+      component = { points: [], minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity }
+      components.set(root, component)
+    }
+    for (const point of [p, q]) {
+      component.points.push(point)
+      component.minX = Math.min(component.minX, point.x)
+      component.maxX = Math.max(component.maxX, point.x)
+      component.minY = Math.min(component.minY, point.y)
+      component.maxY = Math.max(component.maxY, point.y)
+    }
+  }
+
+  return Array.from(components.values())
+}
+
+function componentCentroid(component: SliceComponent): { x: number; y: number } {
+  let x = 0
+  let y = 0
+  for (const p of component.points) {
+    x += p.x
+    y += p.y
+  }
+  return { x: x / component.points.length, y: y / component.points.length }
+}
+
+/**
+ * Width and height of a loop measured along its own principal axes
+ */
+function principalExtents(points: Array<{ x: number; y: number }>, center: { x: number; y: number }): {
+  width: number
+  height: number
+  angle: number // direction of the width axis
+  offset: { a: number; b: number } // box center relative to the given center, in the rotated frame
+} {
+  let sxx = 0, sxy = 0, syy = 0
+  for (const p of points) {
+    const dx = p.x - center.x
+    const dy = p.y - center.y
+    sxx += dx * dx
+    sxy += dx * dy
+    syy += dy * dy
+  }
+
+  // Squares and circles have an isotropic covariance, so also try the edge directions of the loop
+  const candidates = [0.5 * Math.atan2(2 * sxy, sxx - syy)]
+  const step = Math.max(1, Math.floor(points.length / 128)) * 2
+  for (let i = 0; i + 1 < points.length; i += step) {
+    candidates.push(Math.atan2(points[i + 1].y - points[i].y, points[i + 1].x - points[i].x))
+  }
+
+  let best = { width: 0, height: 0, area: Infinity, angle: 0, offset: { a: 0, b: 0 } }
+  for (const angle of candidates) {
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    let minA = Infinity, maxA = -Infinity, minB = Infinity, maxB = -Infinity
+    for (const p of points) {
+      const a = (p.x - center.x) * cos + (p.y - center.y) * sin
+      const b = -(p.x - center.x) * sin + (p.y - center.y) * cos
+      minA = Math.min(minA, a); maxA = Math.max(maxA, a)
+      minB = Math.min(minB, b); maxB = Math.max(maxB, b)
+    }
+    const width = maxA - minA
+    const height = maxB - minB
+    if (width * height < best.area) {
+      const swap = height > width
+      best = {
+        width: Math.max(width, height),
+        height: Math.min(width, height),
+        area: width * height,
+        angle: swap ? angle + Math.PI / 2 : angle,
+        offset: swap
+          ? { a: (minB + maxB) / 2, b: -(minA + maxA) / 2 }
+          : { a: (minA + maxA) / 2, b: (minB + maxB) / 2 }
+      }
+    }
+  }
+
+  return { width: best.width, height: best.height, angle: best.angle, offset: best.offset }
+}
+
+/**
+ * Check whether a loop follows the ellipse inscribed in its bounding box
+ * (rectangles reach roughly 2 in the corners, ellipses stay at 1)
+ */
+function isElliptical(
+  points: Array<{ x: number; y: number }>,
+  center: { x: number; y: number },
+  extents: ReturnType<typeof principalExtents>
+): boolean {
+  const cos = Math.cos(extents.angle)
+  const sin = Math.sin(extents.angle)
+  const semiMajor = extents.width / 2
+  const semiMinor = extents.height / 2
+  if (semiMajor <= 0 || semiMinor <= 0) return false
+
+  return points.every(p => {
+    const a = (p.x - center.x) * cos + (p.y - center.y) * sin - extents.offset.a
+    const b = -(p.x - center.x) * sin + (p.y - center.y) * cos - extents.offset.b
+    const value = (a * a) / (semiMajor * semiMajor) + (b * b) / (semiMinor * semiMinor)
+    return Math.abs(value - 1) < ELLIPSE_TOLERANCE
+  })
+}
+
+function radialSpread(points: Array<{ x: number; y: number }>, center: { x: number; y: number }): {
+  mean: number
+  spread: number
+} {
+  const radii = points.map(p => Math.hypot(p.x - center.x, p.y - center.y))
+  const mean = radii.reduce((sum, r) => sum + r, 0) / radii.length
+  const max = Math.max(...radii)
+  const min = Math.min(...radii)
+  return { mean, spread: mean > 0 ? (max - min) / mean : Infinity }
+}
+
+/**
+ * Measure the tube profile (shape, OD, ID, wall) from a single planar cut of the solid.
+ * The plane should be perpendicular to a straight section of the tube; only the loops that
+ * enclose the plane origin are used so other legs of a bent tube crossing the plane are ignored.
+ */
+export function measureCrossSection(
+  meshes: Array<{ geometry: BufferGeometry }>,
+  origin: Vector3,
+  direction: Vector3,
+  scale: number = 1
+): CrossSectionProfile | null {
+  const segments = slicePlane(meshes, origin, direction)
+  if (segments.length < 6) return null
+
+  const averageSegment = segments.reduce((sum, [p, q]) => sum + Math.hypot(q.x - p.x, q.y - p.y), 0) / segments.length
+  const components = groupSegments(segments, Math.max(averageSegment * 0.01, 1e-6))
+    .filter(c => c.points.length >= 6 && c.minX <= 0 && c.maxX >= 0 && c.minY <= 0 && c.maxY >= 0)
+    .sort((a, b) => (b.maxX - b.minX) * (b.maxY - b.minY) - (a.maxX - a.minX) * (a.maxY - a.minY))
+
+  if (components.length === 0) return null
+
+  const outer = components[0]
+  const inner = components[1]
+  const center = componentCentroid(outer)
+  const outerRadial = radialSpread(outer.points, center)
+
+  if (outerRadial.spread < ROUNDNESS_TOLERANCE) {
+    const outerDiameter = outerRadial.mean * 2 * scale
+    const innerRadial = inner ? radialSpread(inner.points, center) : null
+    const innerDiameter = innerRadial ? innerRadial.mean * 2 * scale : 0
+    const spread = Math.max(outerRadial.spread, innerRadial?.spread ?? 0)
+
+    return {
+      shape: 'round',
+      outerDiameter,
+      innerDiameter,
+      wallThickness: innerDiameter > 0 ? (outerDiameter - innerDiameter) / 2 : outerDiameter / 2,
+      confidence: Math.max(0.3, Math.min(0.95, 0.95 - spread * 5))
+    }
+  }
+
+  const outerExtents = principalExtents(outer.points, center)
+  const innerExtents = inner ? principalExtents(inner.points, componentCentroid(inner)) : null
+  const isSquare = (outerExtents.width - outerExtents.height) / outerExtents.width < SQUARENESS_TOLERANCE
+  const isOval = !isSquare && isElliptical(outer.points, center, outerExtents)
+  const wall = innerExtents
+    ? ((outerExtents.width - innerExtents.width) + (outerExtents.height - innerExtents.height)) / 4
+    : outerExtents.height / 2
+
+  return {
+    shape: isOval ? 'oval' : isSquare ? 'square' : 'rectangular',
+    outerDiameter: outerExtents.width * scale,
+    innerDiameter: innerExtents ? innerExtents.width * scale : 0,
+    wallThickness: wall * scale,
+    width: outerExtents.width * scale,
+    height: outerExtents.height * scale,
+    confidence: 0.75
+  }
+}
+
+/**
+ * Combine several slices into one profile, taking the median of each dimension
+ */
+export function combineCrossSections(profiles: CrossSectionProfile[]): CrossSectionProfile | null {
+  if (profiles.length === 0) return null
+
+  // Majority vote on shape, then median dimensions among agreeing slices
+  const votes = new Map<CrossSectionProfile['shape'], CrossSectionProfile[]>()
+  for (const profile of profiles) {
+    votes.set(profile.shape, [...(votes.get(profile.shape) ?? []), profile])
+  }
+  const agreeing = Array.from(votes.values()).sort((a, b) => b.length - a.length)[0]
+
+  const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b)
+    return sorted[Math.floor(sorted.length / 2)]
+  }
+
+  const first = agreeing[0]
+  return {
+    shape: first.shape,
+    outerDiameter: median(agreeing.map(p => p.outerDiameter)),
+    innerDiameter: median(agreeing.map(p => p.innerDiameter)),
+    wallThickness: median(agreeing.map(p => p.wallThickness)),
+    width: first.width !== undefined ? median(agreeing.map(p => p.width ?? 0)) : undefined,
+    height: first.height !== undefined ? median(agreeing.map(p => p.height ?? 0)) : undefined,
+    confidence: median(agreeing.map(p => p.confidence)) * (agreeing.length / profiles.length)
+  }
+}
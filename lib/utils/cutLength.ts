@@ -0,0 +1,93 @@
+import type { BendTable } from '@/lib/types/geometry'
+
+/**
+ * Allowances added to the developed length of a part, in millimeters unless noted
+ */
+export interface CutAllowances {
+  gripFactor: number // minimum straight held by the first clamp, as a multiple of OD
+  trimPerEnd: number // facing / deburr stock removed at each end
+  kerf: number // saw blade width lost per cut
+}
+
+export interface CutLengthResult {
+  centerlineLength: number // measured centerline arc length
+  developedLength: number // centerline corrected for neutral-axis shift in the bends
+  gripAllowance: number // extra straight for the first clamp, trimmed after bending
+  trimAllowance: number
+  cutLength: number // saw length of the blank
+  stockConsumption: number // cut length plus kerf, what one part takes from a bar
+}
+
+export const DEFAULT_CUT_ALLOWANCES: CutAllowances = {
+  gripFactor: 2,
+  trimPerEnd: 1.5,
+  kerf: 2.5
+}
+
+/**
+ * Neutral-axis shift per material, relative to the elastic curved-beam shift I / (A · CLR).
+ * Plastic bending moves the neutral axis further toward the inside of the bend on harder alloys,
+ * so the centerline stretches and less blank is needed than the centerline length.
+ */
+export const NEUTRAL_AXIS_FACTORS: Record<string, number> = {
+  aluminum: 1.0,
+  'stainless-steel': 1.4,
+  'carbon-steel': 1.2
+}
+
+const DEFAULT_NEUTRAL_AXIS_FACTOR = 1.0
+const DEFAULT_CLR_FACTOR = 2
+
+/**
+ * Inward shift of the neutral axis for a bend of a tube. For a thin-walled tube I / A is
+ * half the squared mean radius.
+ */
+export function neutralAxisShift(
+  radius: number,
+  outerDiameter: number,
+  wallThickness: number,
+  materialId?: string
+): number {
+  if (radius <= 0 || outerDiameter <= 0) return 0
+
+  const meanRadius = (outerDiameter - Math.min(wallThickness, outerDiameter / 2)) / 2
+  const factor = (materialId && NEUTRAL_AXIS_FACTORS[materialId]) || DEFAULT_NEUTRAL_AXIS_FACTOR
+  return Math.min(factor * (meanRadius * meanRadius) / (2 * radius), outerDiameter / 2)
+}
+
+/**
+ * Blank length of one part (millimeters) from its centerline length and bend table
+ */
+export function calculateCutLength(
+  centerlineLength: number,
+  table: BendTable | undefined,
+  tube: { outerDiameter: number; wallThickness: number },
+  materialId?: string,
+  allowances: CutAllowances = DEFAULT_CUT_ALLOWANCES
+): CutLengthResult {
+  const bends = table?.bends ?? []
+
+  // Each bend stretches the centerline by the neutral-axis shift times the bend angle
+  const stretch = bends.reduce((sum, bend) => {
+    const radius = bend.radius || tube.outerDiameter * DEFAULT_CLR_FACTOR
+    const shift = neutralAxisShift(radius, tube.outerDiameter, tube.wallThickness, materialId)
+    return sum + shift * (bend.angle * Math.PI) / 180
+  }, 0)
+  const developedLength = Math.max(0, centerlineLength - stretch)
+
+  // A first straight shorter than the clamp needs extra grip stock that is cut off afterwards
+  const gripAllowance = bends.length > 0
+    ? Math.max(0, allowances.gripFactor * tube.outerDiameter - bends[0].feedLength)
+    : 0
+  const trimAllowance = 2 * allowances.trimPerEnd
+  const cutLength = developedLength + gripAllowance + trimAllowance
+
+  return {
+    centerlineLength,
+    developedLength,
+    gripAllowance,
+    trimAllowance,
+    cutLength,
+    stockConsumption: cutLength + allowances.kerf
+  }
+}
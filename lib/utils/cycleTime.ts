@@ -0,0 +1,110 @@
+import type { BendTable, BendTableEntry } from '@/lib/types/geometry'
+import type { CycleStep, CycleTimeEstimate, MachineProfile } from '@/lib/types/simulation'
+
+// Bending cells on the shop floor, smallest first (these would typically come from a database)
+export const MACHINE_PROFILES: MachineProfile[] = [
+  {
+    id: 'electric-cnc-40',
+    name: 'All-electric CNC bender (1.5" max)',
+    maxOuterDiameter: 38.1,
+    feedSpeed: 1000,
+    rotateSpeed: 360,
+    bendSpeed: 120,
+    returnSpeed: 180,
+    simultaneousFeedRotate: true,
+    clampTime: 0.8,
+    loadUnloadTime: 12,
+    changeoverTime: 1200
+  },
+  {
+    id: 'hydraulic-nc-80',
+    name: 'Hydraulic NC bender (3" max)',
+    maxOuterDiameter: 76.2,
+    feedSpeed: 400,
+    rotateSpeed: 120,
+    bendSpeed: 40,
+    returnSpeed: 60,
+    simultaneousFeedRotate: false,
+    clampTime: 2.0,
+    loadUnloadTime: 25,
+    changeoverTime: 2700
+  }
+]
+
+const ASSUMED_BEND_ANGLE = 90 // degrees, for parts without a bend table
+const CLR_MATCH = 0.5 // mm; radii closer than this run on the same die set
+
+/**
+ * The smallest machine that bends the OD, or the largest machine for anything bigger
+ */
+export function selectMachineProfile(outerDiameter: number, profiles: MachineProfile[] = MACHINE_PROFILES): MachineProfile {
+  return profiles.find(profile => outerDiameter <= profile.maxOuterDiameter) ?? profiles[profiles.length - 1]
+}
+
+/**
+ * Shortest collet rotation for a plane rotation, in degrees
+ */
+function rotationTravel(rotation: number): number {
+  const normalized = ((rotation % 360) + 360) % 360
+  return Math.min(normalized, 360 - normalized)
+}
+
+export interface CycleTimeInput {
+  bendTable?: BendTable
+  totalLength: number // mm, used with estimatedBends when there is no bend table
+  estimatedBends: number
+  formFactors?: number[] // multiplier on the forming time of each bend, in feed order (1 when unset)
+}
+
+/**
+ * Estimate the machine cycle of one part from the bend table: each bend feeds, rotates,
+ * clamps and forms at the machine's axis speeds, then returns the bend arm. Parts without a
+ * bend table are assumed to have coplanar 90° bends evenly spaced along the tube. Form factors
+ * slow the forming of bends that need more care, such as tight CLRs or profile tube.
+ */
+export function estimateCycleTime(input: CycleTimeInput, profile: MachineProfile): CycleTimeEstimate {
+  const bends: Array<Pick<BendTableEntry, 'index' | 'feedLength' | 'rotation' | 'angle' | 'machineAngle' | 'radius'>> =
+    input.bendTable?.bends ??
+    Array.from({ length: input.estimatedBends }, (_, i) => ({
+      index: i + 1,
+      feedLength: input.totalLength / (input.estimatedBends + 1),
+      rotation: 0,
+      angle: ASSUMED_BEND_ANGLE
+    }))
+  const finalLength = input.bendTable?.finalLength ?? (bends.length > 0 ? input.totalLength / (bends.length + 1) : input.totalLength)
+
+  const steps: CycleStep[] = bends.map((bend, i) => {
+    const angle = bend.machineAngle ?? bend.angle
+    const feed = bend.feedLength / profile.feedSpeed
+    const rotate = rotationTravel(bend.rotation) / profile.rotateSpeed
+    const form = profile.clampTime + (angle / profile.bendSpeed) * (input.formFactors?.[i] ?? 1)
+    const back = angle / profile.returnSpeed
+    return {
+      bendIndex: bend.index,
+      feed,
+      rotate,
+      bend: form,
+      return: back,
+      total: (profile.simultaneousFeedRotate ? Math.max(feed, rotate) : feed + rotate) + form + back
+    }
+  })
+
+  const radii: number[] = []
+  for (const radius of bends.map(bend => bend.radius).filter((radius): radius is number => radius !== undefined)) {
+    if (!radii.some(other => Math.abs(other - radius) < CLR_MATCH)) {
+      radii.push(radius)
+    }
+  }
+  const dieSets = Math.max(1, radii.length)
+
+  const eject = bends.length > 0 ? finalLength / profile.feedSpeed : 0
+  return {
+    machineId: profile.id,
+    steps,
+    eject,
+    loadUnload: profile.loadUnloadTime,
+    cycleTime: profile.loadUnloadTime + eject + steps.reduce((sum, step) => sum + step.total, 0),
+    dieSets,
+    changeover: dieSets * profile.changeoverTime
+  }
+}
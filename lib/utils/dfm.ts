@@ -0,0 +1,273 @@
+import type { BendTable, CrossSectionProfile } from '@/lib/types/geometry'
+import type { DfmIssue, DfmReport, MachineLimits } from '@/lib/types/dfm'
+
+interface DfmInput {
+  bendTable?: BendTable
+  crossSection?: CrossSectionProfile
+  materialId?: string
+  wallThickness?: number // mm, overrides the measured wall (e.g. the selected gauge)
+  outerDiameter?: number // mm, the selected stock OD, used when no profile was measured (or it was assumed)
+  partName?: string
+}
+
+export const DEFAULT_MACHINE_LIMITS: MachineLimits = {
+  minOuterDiameter: 6.35, // 1/4"
+  maxOuterDiameter: 76.2, // 3"
+  maxBendAngle: 180,
+  maxCutLength: 6096, // 20 ft stock
+  maxEnvelope: 2500,
+  minClampLengthFactor: 1.5,
+  minChuckLength: 50
+}
+
+// Smallest centerline radius as a multiple of OD that bends without mandrel tooling
+const MIN_CLR_FACTOR: Record<string, number> = {
+  aluminum: 1.5,
+  'stainless-steel': 2.0,
+  'carbon-steel': 1.5
+}
+const DEFAULT_MIN_CLR_FACTOR = 1.5
+const ABSOLUTE_MIN_CLR_FACTOR = 1.0 // tighter than 1D cannot be rotary draw bent
+
+/**
+ * Wall factor (OD / wall) above which a bend of the given D-of-bend (CLR / OD) needs
+ * a mandrel and wiper die, and above which it cannot be made without wall collapse
+ */
+function wallFactorLimits(dOfBend: number): { mandrel: number; collapse: number } {
+  if (dOfBend < 1.5) return { mandrel: 10, collapse: 40 }
+  if (dOfBend < 2) return { mandrel: 20, collapse: 60 }
+  if (dOfBend < 3) return { mandrel: 30, collapse: 80 }
+  return { mandrel: 50, collapse: 120 }
+}
+
+/**
+ * Whether a bend needs a mandrel and wiper die: a CLR below the material's no-mandrel
+ * factor, or a wall factor above the mandrel limit for its D-of-bend
+ */
+export function needsMandrel(radius: number, outerDiameter: number, wallThickness: number, materialId?: string): boolean {
+  if (outerDiameter <= 0) return false
+  const dOfBend = radius / outerDiameter
+  const minClrFactor = (materialId && MIN_CLR_FACTOR[materialId]) || DEFAULT_MIN_CLR_FACTOR
+  return dOfBend < minClrFactor || (wallThickness > 0 && outerDiameter / wallThickness > wallFactorLimits(dOfBend).mandrel)
+}
+
+function tangentLength(radius: number, angle: number): number {
+  return radius * Math.tan((angle * Math.PI) / 360)
+}
+
+/**
+ * Evaluate extracted tube geometry against the bending rules of the shop and machine
+ */
+export function checkManufacturability(input: DfmInput, limits: MachineLimits = DEFAULT_MACHINE_LIMITS): DfmReport {
+  const { bendTable, crossSection, materialId, partName } = input
+  const issues: DfmIssue[] = []
+  const add = (issue: DfmIssue) => issues.push(partName ? { ...issue, partName } : issue)
+
+  const measuredOd = crossSection && !crossSection.assumed ? crossSection.outerDiameter : 0
+  const od = measuredOd || input.outerDiameter || crossSection?.outerDiameter || 0
+  const wall = input.wallThickness ?? (crossSection && crossSection.innerDiameter > 0 ? crossSection.wallThickness : 0)
+
+  if (od > 0 && od < limits.minOuterDiameter) {
+    add({
+      ruleId: 'machine-od',
+      severity: 'blocking',
+      message: `OD ${od.toFixed(1)}mm is below the machine minimum of ${limits.minOuterDiameter}mm.`,
+      value: od,
+      limit: limits.minOuterDiameter
+    })
+  } else if (od > limits.maxOuterDiameter) {
+    add({
+      ruleId: 'machine-od',
+      severity: 'blocking',
+      message: `OD ${od.toFixed(1)}mm exceeds the machine capacity of ${limits.maxOuterDiameter}mm.`,
+      value: od,
+      limit: limits.maxOuterDiameter
+    })
+  }
+
+  if (!bendTable) {
+    return summarize(issues)
+  }
+
+  const bends = bendTable.bends
+  const minClrFactor = (materialId && MIN_CLR_FACTOR[materialId]) || DEFAULT_MIN_CLR_FACTOR
+
+  // Per-bend rules: angle, centerline radius and wall factor / D-of-bend
+  for (const bend of bends) {
+    if (bend.angle > limits.maxBendAngle) {
+      add({
+        ruleId: 'max-bend-angle',
+        severity: 'blocking',
+        message: `Bend ${bend.index} is ${bend.angle.toFixed(1)}°, beyond the machine maximum of ${limits.maxBendAngle}°.`,
+        bendIndex: bend.index,
+        value: bend.angle,
+        limit: limits.maxBendAngle
+      })
+    }
+
+    if (!bend.radius || od <= 0) continue
+    const dOfBend = bend.radius / od
+
+    if (dOfBend < ABSOLUTE_MIN_CLR_FACTOR) {
+      add({
+        ruleId: 'min-clr',
+        severity: 'blocking',
+        message: `Bend ${bend.index} CLR ${bend.radius.toFixed(1)}mm is tighter than 1× OD.`,
+        bendIndex: bend.index,
+        value: bend.radius,
+        limit: od * ABSOLUTE_MIN_CLR_FACTOR
+      })
+    } else if (dOfBend < minClrFactor) {
+      add({
+        ruleId: 'min-clr',
+        severity: 'warning',
+        message: `Bend ${bend.index} CLR ${bend.radius.toFixed(1)}mm is below ${minClrFactor}× OD and needs mandrel tooling.`,
+        bendIndex: bend.index,
+        value: bend.radius,
+        limit: od * minClrFactor
+      })
+    }
+
+    if (wall > 0) {
+      const wallFactor = od / wall
+      const wallLimits = wallFactorLimits(dOfBend)
+      if (wallFactor > wallLimits.collapse) {
+        add({
+          ruleId: 'wall-factor',
+          severity: 'blocking',
+          message: `Bend ${bend.index}: wall factor ${wallFactor.toFixed(0)} at ${dOfBend.toFixed(1)}D will collapse the wall.`,
+          bendIndex: bend.index,
+          value: wallFactor,
+          limit: wallLimits.collapse
+        })
+      } else if (wallFactor > wallLimits.mandrel) {
+        add({
+          ruleId: 'wall-factor',
+          severity: 'warning',
+          message: `Bend ${bend.index}: wall factor ${wallFactor.toFixed(0)} at ${dOfBend.toFixed(1)}D needs a mandrel and wiper die.`,
+          bendIndex: bend.index,
+          value: wallFactor,
+          limit: wallLimits.mandrel
+        })
+      }
+    }
+  }
+
+  // Straights between tangent points: the clamp die has to grip the tube between bends
+  const points = bendTable.points
+  const tangents = bends.map(bend => tangentLength(bend.radius ?? 0, bend.angle))
+  const minClampLength = od * limits.minClampLengthFactor
+  for (let i = 1; i < bends.length; i++) {
+    const a = points[i]
+    const b = points[i + 1]
+    const straight = Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z) - tangents[i - 1] - tangents[i]
+    if (straight < 0) {
+      add({
+        ruleId: 'min-straight-between-bends',
+        severity: 'blocking',
+        message: `Bends ${i} and ${i + 1} overlap by ${(-straight).toFixed(1)}mm.`,
+        bendIndex: i + 1,
+        value: straight,
+        limit: 0
+      })
+    } else if (minClampLength > 0 && straight < minClampLength) {
+      add({
+        ruleId: 'min-straight-between-bends',
+        severity: 'warning',
+        message: `Only ${straight.toFixed(1)}mm straight between bends ${i} and ${i + 1}; the clamp needs ${minClampLength.toFixed(1)}mm.`,
+        bendIndex: i + 1,
+        value: straight,
+        limit: minClampLength
+      })
+    }
+  }
+
+  // End straights: the collet holds the tail while the leading end is clamped for the first bend
+  if (bends.length > 0) {
+    const leading = bends[0].feedLength
+    const trailing = bendTable.finalLength
+    const endLimit = Math.max(limits.minChuckLength, minClampLength)
+    if (leading < endLimit) {
+      add({
+        ruleId: 'min-end-straight',
+        severity: 'warning',
+        message: `Leading straight of ${leading.toFixed(1)}mm is shorter than ${endLimit.toFixed(1)}mm; extra material must be added and trimmed.`,
+        value: leading,
+        limit: endLimit
+      })
+    }
+    if (trailing < limits.minChuckLength) {
+      add({
+        ruleId: 'min-end-straight',
+        severity: 'warning',
+        message: `Trailing straight of ${trailing.toFixed(1)}mm is shorter than the ${limits.minChuckLength}mm the collet needs; extra material must be added and trimmed.`,
+        value: trailing,
+        limit: limits.minChuckLength
+      })
+    }
+  }
+
+  // Overall envelope and stock length
+  const developedLength = bends.reduce(
+    (sum, bend) => sum + bend.feedLength + ((bend.radius ?? 0) * bend.angle * Math.PI) / 180,
+    bendTable.finalLength
+  )
+  if (developedLength > limits.maxCutLength) {
+    add({
+      ruleId: 'machine-envelope',
+      severity: 'blocking',
+      message: `Developed length ${developedLength.toFixed(0)}mm exceeds the ${limits.maxCutLength}mm stock the machine can feed.`,
+      value: developedLength,
+      limit: limits.maxCutLength
+    })
+  }
+
+  const extent = (axis: 'x' | 'y' | 'z') =>
+    Math.max(...points.map(p => p[axis])) - Math.min(...points.map(p => p[axis]))
+  const envelope = points.length > 0 ? Math.max(extent('x'), extent('y'), extent('z')) : 0
+  if (envelope > limits.maxEnvelope) {
+    add({
+      ruleId: 'machine-envelope',
+      severity: 'warning',
+      message: `Bent part spans ${envelope.toFixed(0)}mm; parts over ${limits.maxEnvelope}mm need a clearance check on the machine.`,
+      value: envelope,
+      limit: limits.maxEnvelope
+    })
+  }
+
+  if (bends.length > 0 && bends.every(bend => bend.radius === undefined)) {
+    add({
+      ruleId: 'min-clr',
+      severity: 'info',
+      message: 'Bend radii could not be measured from the file; radius rules were skipped.'
+    })
+  }
+
+  return summarize(issues)
+}
+
+function summarize(issues: DfmIssue[]): DfmReport {
+  const flagged = new Set<number>()
+  for (const issue of issues) {
+    if (issue.bendIndex !== undefined && issue.severity !== 'info') {
+      flagged.add(issue.bendIndex)
+    }
+  }
+
+  return {
+    issues,
+    manufacturable: !issues.some(issue => issue.severity === 'blocking'),
+    flaggedBends: Array.from(flagged).sort((a, b) => a - b)
+  }
+}
+
+/**
+ * Combine the reports of several tubes (e.g. the lines of an assembly)
+ */
+export function mergeDfmReports(reports: DfmReport[]): DfmReport {
+  return {
+    issues: reports.flatMap(report => report.issues),
+    manufacturable: reports.every(report => report.manufacturable),
+    flaggedBends: [] // bend indices are per tube, so they do not carry over
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * A drawing sheet as flat vector primitives, written out as SVG or as a single-page PDF.
+ * Coordinates are millimeters from the top-left corner of the sheet, y down.
+ */
+export type SheetElement =
+  | {
+      kind: 'path'
+      points: Array<[number, number]>
+      width: number
+      color?: string // hex, defaults to black
+      dash?: number[]
+      closed?: boolean
+      fill?: string // hex, filled without stroke when set
+      cap?: 'butt' | 'round'
+    }
+  | {
+      kind: 'text'
+      x: number
+      y: number // baseline
+      text: string
+      size: number // font size in mm
+      anchor?: 'start' | 'middle' | 'end'
+      bold?: boolean
+    }
+
+export interface DrawingSheet {
+  width: number
+  height: number
+  title: string
+  elements: SheetElement[]
+}
+
+const POINTS_PER_MM = 72 / 25.4
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+const BOLD_WIDTH_FACTOR = 1.06 // Helvetica-Bold runs about 6% wider
+
+// Characters outside ASCII that the drawings use, as WinAnsiEncoding codes and widths
+const WIN_ANSI: Record<string, { code: number; width: number }> = {
+  '°': { code: 0xb0, width: 400 },
+  '±': { code: 0xb1, width: 584 },
+  '×': { code: 0xd7, width: 584 },
+  'Ø': { code: 0xd8, width: 778 },
+  '•': { code: 0x95, width: 350 },
+  '–': { code: 0x96, width: 556 },
+  '—': { code: 0x97, width: 1000 }
+}
+
+/**
+ * Width of a text run in mm, for anchoring PDF text the way SVG text-anchor does
+ */
+export function textWidth(text: string, size: number, bold: boolean = false): number {
+  let width = 0
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : WIN_ANSI[char]?.width ?? 556
+  }
+  return (width / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1)
+}
+
+function num(value: number): string {
+  const text = value.toFixed(2)
+  return text === '-0.00' ? '0' : text.replace(/\.?0+$/, '')
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+export function renderSvg(sheet: DrawingSheet): string {
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(sheet.width)}mm" height="${num(sheet.height)}mm" viewBox="0 0 ${num(sheet.width)} ${num(sheet.height)}">`,
+    `<title>${escapeXml(sheet.title)}</title>`,
+    `<rect width="${num(sheet.width)}" height="${num(sheet.height)}" fill="#ffffff"/>`
+  ]
+
+  for (const element of sheet.elements) {
+    if (element.kind === 'text') {
+      const anchor = element.anchor && element.anchor !== 'start' ? ` text-anchor="${element.anchor}"` : ''
+      const weight = element.bold ? ' font-weight="bold"' : ''
+      lines.push(
+        `<text x="${num(element.x)}" y="${num(element.y)}" font-family="Helvetica, Arial, sans-serif" font-size="${num(element.size)}"${anchor}${weight}>${escapeXml(element.text)}</text>`
+      )
+      continue
+    }
+
+    const points = element.points.map(([x, y]) => `${num(x)},${num(y)}`).join(' ')
+    const tag = element.closed || element.fill ? 'polygon' : 'polyline'
+    const paint = element.fill
+      ? `fill="${element.fill}"`
+      : [
+          'fill="none"',
+          `stroke="${element.color ?? '#000000'}"`,
+          `stroke-width="${num(element.width)}"`,
+          `stroke-linecap="${element.cap ?? 'butt'}"`,
+          `stroke-linejoin="${element.cap === 'round' ? 'round' : 'miter'}"`,
+          ...(element.dash ? [`stroke-dasharray="${element.dash.map(num).join(' ')}"`] : [])
+        ].join(' ')
+    lines.push(`<${tag} points="${points}" ${paint}/>`)
+  }
+
+  lines.push('</svg>')
+  return lines.join('\n') + '\n'
+}
+
+function pdfColor(hex: string | undefined): [number, number, number] {
+  const match = (hex ?? '#000000').match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i)
+  if (!match) return [0, 0, 0]
+  return [1, 2, 3].map(i => parseInt(match[i], 16) / 255) as [number, number, number]
+}
+
+/**
+ * PDF string literal in WinAnsiEncoding; characters it cannot encode become "?"
+ */
+function pdfString(text: string): string {
+  let out = '('
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    if (char === '(' || char === ')' || char === '\\') out += `\\${char}`
+    else if (code >= 32 && code <= 126) out += char
+    else if (WIN_ANSI[char]) out += `\\${WIN_ANSI[char].code.toString(8)}`
+    else if (code >= 0xa0 && code <= 0xff) out += `\\${code.toString(8)}`
+    else out += '?'
+  }
+  return out + ')'
+}
+
+/**
+ * Single-page PDF 1.4 with the standard Helvetica fonts. The content is pure ASCII, so the
+ * string length is the byte length used for the cross-reference offsets.
+ */
+export function renderPdf(sheet: DrawingSheet): string {
+  const height = sheet.height * POINTS_PER_MM
+  const x = (value: number) => num(value * POINTS_PER_MM)
+  const y = (value: number) => num(height - value * POINTS_PER_MM)
+
+  const content: string[] = ['1 j']
+  for (const element of sheet.elements) {
+    if (element.kind === 'text') {
+      const width = textWidth(element.text, element.size, element.bold)
+      const left = element.anchor === 'middle' ? element.x - width / 2 : element.anchor === 'end' ? element.x - width : element.x
+      content.push(
+        `BT /${element.bold ? 'F2' : 'F1'} ${num(element.size * POINTS_PER_MM)} Tf 0 g ${x(left)} ${y(element.y)} Td ${pdfString(element.text)} Tj ET`
+      )
+      continue
+    }
+
+    const [first, ...rest] = element.points
+    if (!first) continue
+    const path = [`${x(first[0])} ${y(first[1])} m`, ...rest.map(([px, py]) => `${x(px)} ${y(py)} l`)]
+    if (element.fill) {
+      content.push(`${pdfColor(element.fill).map(num).join(' ')} rg`, ...path, 'h f')
+      continue
+    }
+    content.push(
+      `${num(element.width * POINTS_PER_MM)} w`,
+      `${element.cap === 'round' ? 1 : 0} J`,
+      `[${(element.dash ?? []).map(value => num(value * POINTS_PER_MM)).join(' ')}] 0 d`,
+      `${pdfColor(element.color).map(num).join(' ')} RG`,
+      ...path,
+      element.closed ? 's' : 'S'
+    )
+  }
+  const stream = content.join('\n')
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${x(sheet.width)} ${num(height)}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    `<< /Title ${pdfString(sheet.title)} /Producer (TubeBend) >>`
+  ]
+
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length)
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`
+  })
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+  return pdf
+}
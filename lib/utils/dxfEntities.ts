@@ -0,0 +1,260 @@
+import { CatmullRomCurve3, Vector3 } from 'three'
+import type { DXFData, DXFEntity } from 'three-dxf-loader'
+import type { WireCurve } from './wireframe'
+
+type DxfPoint = { x: number; y: number; z?: number }
+
+/**
+ * DXF `$INSUNITS` codes mapped to the unit names used by the CAD parser
+ */
+const INSUNITS: Record<number, string> = {
+  1: 'inch',
+  2: 'foot',
+  4: 'millimeter',
+  5: 'centimeter',
+  6: 'meter',
+  10: 'yard',
+  13: 'micrometer'
+}
+
+const MAX_ARC_STEP = Math.PI / 36 // 5° per segment keeps arc fits within the bend table tolerance
+const MAX_INSERT_DEPTH = 8 // guards against self-referencing blocks
+const SPLINE_SAMPLES_PER_SPAN = 12
+
+/**
+ * Drawing units from the `$INSUNITS` header variable, or null when unitless / unknown
+ */
+export function getDxfUnits(dxf: DXFData): string | null {
+  const code = Number(dxf.header?.$INSUNITS)
+  return INSUNITS[code] ?? null
+}
+
+function toVector(point: DxfPoint | undefined, elevation = 0): Vector3 {
+  return new Vector3(point?.x ?? 0, point?.y ?? 0, point?.z ?? elevation)
+}
+
+/**
+ * Entities with an extrusion direction of (0, 0, -1) are drawn mirrored in X (arbitrary axis
+ * algorithm); other extrusion directions are rare for 2D drawings and are treated as world XY.
+ */
+function isMirrored(entity: DXFEntity): boolean {
+  const z = entity.extrusionDirection?.z ?? entity.extrusionDirectionZ
+  return typeof z === 'number' && z < 0
+}
+
+/**
+ * Circular arc in a plane parallel to XY, counter-clockwise for a positive sweep
+ */
+function arcCurve(center: Vector3, radius: number, startAngle: number, sweep: number): WireCurve {
+  const segments = Math.max(2, Math.ceil(Math.abs(sweep) / MAX_ARC_STEP))
+  const points: Vector3[] = []
+  for (let i = 0; i <= segments; i++) {
+    const angle = startAngle + (sweep * i) / segments
+    points.push(new Vector3(center.x + radius * Math.cos(angle), center.y + radius * Math.sin(angle), center.z))
+  }
+  return { points, arc: { center: center.clone(), radius, sweep: Math.abs(sweep) } }
+}
+
+/**
+ * Polyline vertices as one curve per segment, with bulge arcs expanded. A bulge is tan(θ / 4)
+ * of the arc to the next vertex, positive for counter-clockwise arcs.
+ */
+function bulgedPolyline(vertices: Array<DxfPoint & { bulge?: number }>, closed: boolean, elevation = 0): WireCurve[] {
+  const curves: WireCurve[] = []
+  const count = closed ? vertices.length : vertices.length - 1
+
+  for (let i = 0; i < count; i++) {
+    const start = toVector(vertices[i], elevation)
+    const end = toVector(vertices[(i + 1) % vertices.length], elevation)
+    const bulge = vertices[i].bulge ?? 0
+
+    const chord = Math.hypot(end.x - start.x, end.y - start.y)
+    if (Math.abs(bulge) < 1e-9 || chord < 1e-12) {
+      if (start.distanceTo(end) > 0) curves.push({ points: [start, end] })
+      continue
+    }
+
+    const sweep = 4 * Math.atan(bulge)
+    const offset = chord / (2 * Math.tan(sweep / 2)) // signed distance from chord midpoint to center
+    const center = new Vector3(
+      (start.x + end.x) / 2 - (offset * (end.y - start.y)) / chord,
+      (start.y + end.y) / 2 + (offset * (end.x - start.x)) / chord,
+      start.z
+    )
+    const radius = Math.hypot(start.x - center.x, start.y - center.y)
+    curves.push(arcCurve(center, radius, Math.atan2(start.y - center.y, start.x - center.x), sweep))
+  }
+
+  return curves
+}
+
+function ellipsePoints(entity: DXFEntity): Vector3[] {
+  const center = toVector(entity.center)
+  const major = toVector(entity.majorAxisEndPoint)
+  const minor = new Vector3(-major.y, major.x, 0).multiplyScalar(entity.axisRatio ?? 1)
+  const start = entity.startAngle ?? 0
+  let end = entity.endAngle ?? 2 * Math.PI
+  if (end <= start) end += 2 * Math.PI
+
+  const segments = Math.max(8, Math.ceil((end - start) / MAX_ARC_STEP))
+  const points: Vector3[] = []
+  for (let i = 0; i <= segments; i++) {
+    const t = start + ((end - start) * i) / segments
+    points.push(center.clone().addScaledVector(major, Math.cos(t)).addScaledVector(minor, Math.sin(t)))
+  }
+  return points
+}
+
+/**
+ * Evaluate a (rational) B-spline with de Boor's algorithm in homogeneous coordinates
+ */
+export function evaluateNurbs(controlPoints: Vector3[], weights: number[], knots: number[], degree: number, t: number): Vector3 {
+  const n = controlPoints.length - 1
+  let span = degree
+  while (span < n && t >= knots[span + 1]) span++
+
+  const d = Array.from({ length: degree + 1 }, (_, j) => {
+    const point = controlPoints[span - degree + j]
+    const weight = weights[span - degree + j] ?? 1
+    return [point.x * weight, point.y * weight, point.z * weight, weight]
+  })
+
+  for (let r = 1; r <= degree; r++) {
+    for (let j = degree; j >= r; j--) {
+      const i = span - degree + j
+      const denominator = knots[i + degree - r + 1] - knots[i]
+      const alpha = denominator > 0 ? (t - knots[i]) / denominator : 0
+      d[j] = d[j].map((value, k) => (1 - alpha) * d[j - 1][k] + alpha * value)
+    }
+  }
+
+  const [x, y, z, w] = d[degree]
+  return new Vector3(x / w, y / w, z / w)
+}
+
+function splinePoints(entity: DXFEntity): Vector3[] {
+  const controlPoints: Vector3[] = (entity.controlPoints ?? []).map((point: DxfPoint) => toVector(point))
+  const degree: number = entity.degreeOfSplineCurve ?? 3
+  const knots: number[] = entity.knotValues ?? []
+
+  if (controlPoints.length > degree && knots.length === controlPoints.length + degree + 1) {
+    const weights: number[] = entity.weights ?? []
+    const start = knots[degree]
+    const end = knots[controlPoints.length]
+    const samples = Math.max(16, (controlPoints.length - degree) * SPLINE_SAMPLES_PER_SPAN)
+    const points: Vector3[] = []
+    for (let i = 0; i <= samples; i++) {
+      points.push(evaluateNurbs(controlPoints, weights, knots, degree, start + ((end - start) * i) / samples))
+    }
+    return points
+  }
+
+  // Fit-point splines without a knot vector are interpolated
+  const fitPoints: Vector3[] = (entity.fitPoints ?? []).map((point: DxfPoint) => toVector(point))
+  const through = fitPoints.length >= 2 ? fitPoints : controlPoints
+  if (through.length < 2) return []
+  return new CatmullRomCurve3(through, !!entity.closed, 'centripetal').getPoints(through.length * SPLINE_SAMPLES_PER_SPAN)
+}
+
+/**
+ * Tessellate one entity into curves in its own coordinate system
+ */
+function tessellateEntity(entity: DXFEntity, dxf: DXFData, depth: number): WireCurve[] {
+  let curves: WireCurve[] = []
+
+  switch (entity.type) {
+    case 'LINE': {
+      const [start, end] = entity.vertices ?? [entity.start, entity.end]
+      if (start && end) curves = [{ points: [toVector(start), toVector(end)] }]
+      break
+    }
+    case 'LWPOLYLINE':
+    case 'POLYLINE': {
+      const vertices = entity.vertices ?? []
+      if (entity.isPolyfaceMesh || entity.is3dPolygonMesh || vertices.length === 0) break
+      const closed = !!(entity.shape || entity.closed)
+      curves = bulgedPolyline(vertices, closed && vertices.length > 2, entity.elevation ?? 0)
+      break
+    }
+    case 'ARC': {
+      let sweep = entity.angleLength ?? entity.endAngle - entity.startAngle
+      if (sweep <= 0) sweep += 2 * Math.PI
+      curves = [arcCurve(toVector(entity.center), entity.radius, entity.startAngle ?? 0, sweep)]
+      break
+    }
+    case 'CIRCLE':
+      curves = [arcCurve(toVector(entity.center), entity.radius, 0, 2 * Math.PI)]
+      break
+    case 'ELLIPSE':
+      curves = [{ points: ellipsePoints(entity) }]
+      break
+    case 'SPLINE':
+      curves = [{ points: splinePoints(entity) }]
+      break
+    case 'INSERT':
+      return depth < MAX_INSERT_DEPTH ? expandInsert(entity, dxf, depth + 1) : []
+  }
+
+  if (isMirrored(entity)) {
+    curves.forEach(curve => {
+      curve.points.forEach(point => { point.x = -point.x })
+      if (curve.arc) curve.arc.center.x = -curve.arc.center.x
+    })
+  }
+  return curves.filter(curve => curve.points.length >= 2)
+}
+
+/**
+ * Place the entities of a block reference, including rectangular insert arrays
+ */
+function expandInsert(entity: DXFEntity, dxf: DXFData, depth: number): WireCurve[] {
+  const block = dxf.blocks?.[entity.name]
+  if (!block?.entities) return []
+
+  const base = toVector(block.position)
+  const scale = new Vector3(entity.xScale ?? 1, entity.yScale ?? 1, entity.zScale ?? 1)
+  const rotation = ((entity.rotation ?? 0) * Math.PI) / 180
+  const cos = Math.cos(rotation)
+  const sin = Math.sin(rotation)
+  const position = toVector(entity.position)
+  const mirrored = isMirrored(entity)
+
+  // Arcs stay exact only under uniform scaling
+  const uniform = Math.abs(Math.abs(scale.x) - Math.abs(scale.y)) < 1e-9 && Math.abs(Math.abs(scale.x) - Math.abs(scale.z)) < 1e-9
+
+  const local = block.entities.flatMap((child: DXFEntity) => tessellateEntity(child, dxf, depth))
+  const placed: WireCurve[] = []
+  for (let column = 0; column < Math.max(1, entity.columnCount ?? 1); column++) {
+    for (let row = 0; row < Math.max(1, entity.rowCount ?? 1); row++) {
+      const offsetX = column * (entity.columnSpacing ?? 0)
+      const offsetY = row * (entity.rowSpacing ?? 0)
+      const place = (point: Vector3) => {
+        const x = (point.x - base.x) * scale.x + offsetX
+        const y = (point.y - base.y) * scale.y + offsetY
+        const world = new Vector3(
+          position.x + x * cos - y * sin,
+          position.y + x * sin + y * cos,
+          position.z + (point.z - base.z) * scale.z
+        )
+        if (mirrored) world.x = -world.x
+        return world
+      }
+      placed.push(...local.map((curve: WireCurve) => ({
+        points: curve.points.map(place),
+        arc: curve.arc && uniform
+          ? { center: place(curve.arc.center), radius: curve.arc.radius * Math.abs(scale.x), sweep: curve.arc.sweep }
+          : undefined
+      })))
+    }
+  }
+  return placed
+}
+
+/**
+ * Tessellate all supported DXF entities (LINE, LWPOLYLINE / POLYLINE with bulges, 3D POLYLINE,
+ * ARC, CIRCLE, ELLIPSE, SPLINE and INSERT block references) into curves in drawing units.
+ * Circular arcs keep their center and radius so centerline sketches give exact bend data.
+ */
+export function tessellateDxfEntities(dxf: DXFData): WireCurve[] {
+  return (dxf.entities ?? []).flatMap(entity => tessellateEntity(entity, dxf, 0))
+}
@@ -0,0 +1,184 @@
+import type { BendTable } from '@/lib/types/geometry'
+import type { BendToolingMatch, ToolingItem } from '@/lib/types/tooling'
+import { applySpringback } from './springback'
+
+export type MachineProgramFormat = 'lra-csv' | 'xyz-csv' | 'ybc-nc'
+
+/**
+ * Bend die set the part is programmed for. Lengths in millimeters.
+ */
+export interface DieSet {
+  name: string
+  outerDiameter: number
+  centerlineRadius: number
+  estimated?: boolean // made up from the bend radii because no catalog die matched
+}
+
+export interface MachineProgramInput {
+  partName: string
+  orderNumber?: string
+  materialId?: string // enables springback compensation
+  materialName: string
+  tube: { outerDiameter: number; wallThickness: number } // mm
+  quantity: number
+  table: BendTable // mm
+  dieSet?: DieSet // the catalog die from the tooling match; estimated from the bend radii when absent
+}
+
+export interface MachineProgramFile {
+  fileName: string
+  mimeType: string
+  content: string
+}
+
+export const MACHINE_PROGRAM_FORMATS: Record<MachineProgramFormat, { label: string; extension: string; mimeType: string }> = {
+  'lra-csv': { label: 'LRA / YBC table (CSV)', extension: 'lra.csv', mimeType: 'text/csv' },
+  'xyz-csv': { label: 'XYZ intersections (CSV)', extension: 'xyz.csv', mimeType: 'text/csv' },
+  'ybc-nc': { label: 'YBC controller program (NC)', extension: 'nc', mimeType: 'text/plain' }
+}
+
+const MM_PER_INCH = 25.4
+
+function fixed(value: number, digits: number = 3): string {
+  // Avoid "-0.000" in programs
+  const text = value.toFixed(digits)
+  return Number(text) === 0 ? (0).toFixed(digits) : text
+}
+
+function inches(mm: number): string {
+  return `${fixed(mm / MM_PER_INCH)}"`
+}
+
+const rangeCenter = (range: { min: number; max: number }) => (range.min + range.max) / 2
+
+/**
+ * Catalog bend die matched to the most bends of a tube (ties go to the first bend)
+ */
+export function catalogDieSet(matches: BendToolingMatch[], catalog: ToolingItem[]): DieSet | undefined {
+  const counts = new Map<string, number>()
+  for (const match of matches) {
+    const toolId = match.tools['bend-die']
+    if (toolId) counts.set(toolId, (counts.get(toolId) ?? 0) + 1)
+  }
+  if (counts.size === 0) return undefined
+
+  const [toolId] = Array.from(counts.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best))
+  const die = catalog.find(item => item.id === toolId)
+  if (!die?.clr) return undefined
+  return {
+    name: die.name,
+    outerDiameter: rangeCenter(die.outerDiameter),
+    centerlineRadius: rangeCenter(die.clr)
+  }
+}
+
+/**
+ * Die set for the most common bend radius of a table (ties go to the first bend). Only an
+ * estimate for programs of tubes no catalog die was matched to.
+ */
+export function defaultDieSet(table: BendTable, outerDiameter: number): DieSet | undefined {
+  const counts = new Map<number, number>()
+  for (const bend of table.bends) {
+    if (!bend.radius) continue
+    const radius = Math.round(bend.radius * 10) / 10
+    counts.set(radius, (counts.get(radius) ?? 0) + 1)
+  }
+  if (counts.size === 0) return undefined
+
+  const [centerlineRadius] = Array.from(counts.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best))
+  return {
+    name: `${inches(outerDiameter)} OD x ${inches(centerlineRadius)} CLR`,
+    outerDiameter,
+    centerlineRadius,
+    estimated: true
+  }
+}
+
+/**
+ * Header lines shared by every format: part, material, tube, die set and compensation
+ */
+function headerLines(input: MachineProgramInput, dieSet: DieSet | undefined, compensated: boolean): string[] {
+  const dieSetNote = dieSet?.estimated ? ', estimated from bend radii, no catalog die matched' : ''
+  return [
+    `Part: ${input.partName}`,
+    ...(input.orderNumber ? [`Order: ${input.orderNumber}`] : []),
+    `Quantity: ${input.quantity}`,
+    `Material: ${input.materialName}`,
+    `Tube: ${fixed(input.tube.outerDiameter)} mm OD x ${fixed(input.tube.wallThickness)} mm wall`,
+    `Die set: ${dieSet ? `${dieSet.name} (${fixed(dieSet.centerlineRadius)} mm CLR${dieSetNote})` : 'not specified'}`,
+    `Springback: ${compensated ? 'machine angles compensated' : 'not compensated, machine angle = part angle'}`,
+    'Units: mm, degrees'
+  ]
+}
+
+function lraCsv(table: BendTable, header: string[]): string {
+  const rows = [
+    ...header.map(line => `# ${line}`),
+    'Bend,Y Feed,B Rotation,C Angle,C Machine,CLR',
+    ...table.bends.map(bend => [
+      bend.index,
+      fixed(bend.feedLength),
+      fixed(bend.rotation),
+      fixed(bend.angle),
+      fixed(bend.machineAngle ?? bend.angle),
+      bend.radius ? fixed(bend.radius) : ''
+    ].join(',')),
+    `End,${fixed(table.finalLength)},,,,`
+  ]
+  return rows.join('\n') + '\n'
+}
+
+function xyzCsv(table: BendTable, header: string[]): string {
+  const rows = [
+    ...header.map(line => `# ${line}`),
+    'Point,X,Y,Z,CLR',
+    ...table.points.map((point, i) => {
+      const bend = i > 0 && i < table.points.length - 1 ? table.bends[i - 1] : undefined
+      const label = i === 0 ? 'Start' : i === table.points.length - 1 ? 'End' : `${i}`
+      return [label, fixed(point.x), fixed(point.y), fixed(point.z), bend?.radius ? fixed(bend.radius) : ''].join(',')
+    })
+  ]
+  return rows.join('\n') + '\n'
+}
+
+/**
+ * Block-numbered YBC program: Y feed, B rotation, C (compensated) bend angle, R die CLR.
+ * Comments in parentheses, as read by most bender controllers that accept NC text.
+ */
+function ybcProgram(table: BendTable, header: string[]): string {
+  const lines = header.map(line => `(${line.replace(/\(/g, '[').replace(/\)/g, ']')})`)
+  let block = 10
+  for (const bend of table.bends) {
+    const radius = bend.radius ? ` R${fixed(bend.radius)}` : ''
+    lines.push(`N${block} Y${fixed(bend.feedLength)} B${fixed(bend.rotation)} C${fixed(bend.machineAngle ?? bend.angle)}${radius}`)
+    block += 10
+  }
+  lines.push(`N${block} Y${fixed(table.finalLength)}`)
+  lines.push(`N${block + 10} M30`)
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Write the bend program of one part. Machine angles come from the bend table when present,
+ * otherwise from the springback model of the material.
+ */
+export function exportMachineProgram(input: MachineProgramInput, format: MachineProgramFormat): MachineProgramFile {
+  const alreadyCompensated = input.table.bends.some(bend => bend.machineAngle !== undefined)
+  const table = !alreadyCompensated && input.materialId
+    ? applySpringback(input.table, input.tube, input.materialId)
+    : input.table
+  const compensated = table.bends.some(bend => bend.machineAngle !== undefined)
+
+  const dieSet = input.dieSet ?? defaultDieSet(table, input.tube.outerDiameter)
+  const header = headerLines(input, dieSet, compensated)
+
+  const content = format === 'lra-csv'
+    ? lraCsv(table, header)
+    : format === 'xyz-csv'
+      ? xyzCsv(table, header)
+      : ybcProgram(table, header)
+
+  const baseName = input.partName.trim().replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'part'
+  const { extension, mimeType } = MACHINE_PROGRAM_FORMATS[format]
+  return { fileName: `${baseName}.${extension}`, mimeType, content }
+}
@@ -0,0 +1,171 @@
+import { Box3, BufferAttribute, BufferGeometry, Matrix4, Mesh, Object3D, Vector3 } from 'three'
+
+export type MeshFormat = 'stl' | 'obj' | '3mf' | 'gltf'
+
+export interface ImportedMesh {
+  geometries: BufferGeometry[] // in file units, object transforms applied
+  units: string | null // units declared by the format, null for STL / OBJ
+}
+
+const WELD_TOLERANCE = 1e-5 // fraction of the mesh size within which vertices are merged
+
+const THREE_MF_UNITS: Record<string, string> = {
+  micron: 'micrometer',
+  millimeter: 'millimeter',
+  centimeter: 'centimeter',
+  inch: 'inch',
+  foot: 'foot',
+  meter: 'meter'
+}
+
+export function getMeshFormat(extension: string): MeshFormat | null {
+  switch (extension) {
+    case 'stl': return 'stl'
+    case 'obj': return 'obj'
+    case '3mf': return '3mf'
+    case 'gltf':
+    case 'glb': return 'gltf'
+    default: return null
+  }
+}
+
+/**
+ * Triangle geometries of every mesh under a scene graph node, in world coordinates
+ */
+function collectGeometries(root: Object3D): BufferGeometry[] {
+  root.updateMatrixWorld(true)
+  const geometries: BufferGeometry[] = []
+  root.traverse(object => {
+    if ((object as Mesh).isMesh) {
+      const geometry = (object as Mesh).geometry.clone()
+      geometry.applyMatrix4(object.matrixWorld)
+      geometries.push(geometry)
+    }
+  })
+  return geometries
+}
+
+function attribute(tag: string, name: string): string | null {
+  return tag.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`))?.[1] ?? null
+}
+
+/**
+ * 3MF transforms are 12 numbers of a row-major 4×3 matrix applied to row vectors
+ */
+function threeMfTransform(value: string | null): Matrix4 {
+  const m = value?.trim().split(/\s+/).map(Number)
+  if (!m || m.length !== 12 || m.some(v => !isFinite(v))) return new Matrix4()
+  return new Matrix4().set(
+    m[0], m[3], m[6], m[9],
+    m[1], m[4], m[7], m[10],
+    m[2], m[5], m[8], m[11],
+    0, 0, 0, 1
+  )
+}
+
+/**
+ * Read the model part of a 3MF package: mesh objects, component references and build items.
+ * Parsed with regular expressions because DOMParser is not available in the parser worker.
+ */
+async function parseThreeMf(buffer: ArrayBuffer): Promise<ImportedMesh> {
+  const { unzipSync, strFromU8 } = await import('three/examples/jsm/libs/fflate.module.js')
+  const files = unzipSync(new Uint8Array(buffer))
+  const modelPath = Object.keys(files).find(path => /^3D\/.*\.model$/i.test(path))
+  if (!modelPath) throw new Error('3MF package has no 3D model part')
+  const xml = strFromU8(files[modelPath])
+
+  const unit = attribute(xml.match(/<model\b[^>]*>/)?.[0] ?? '', 'unit') ?? 'millimeter'
+  const meshes = new Map<string, BufferGeometry>()
+  const components = new Map<string, Array<{ objectId: string; transform: Matrix4 }>>()
+
+  for (const match of Array.from(xml.matchAll(/<object\b([^>]*)>([\s\S]*?)<\/object>/g))) {
+    const id = attribute(match[1], 'id')
+    if (!id) continue
+    const body = match[2]
+
+    const vertices = Array.from(body.matchAll(/<vertex\b([^>]*)\/?>/g)).flatMap(vertex => [
+      Number(attribute(vertex[1], 'x')),
+      Number(attribute(vertex[1], 'y')),
+      Number(attribute(vertex[1], 'z'))
+    ])
+    if (vertices.length > 0) {
+      const indices = Array.from(body.matchAll(/<triangle\b([^>]*)\/?>/g)).flatMap(triangle => [
+        Number(attribute(triangle[1], 'v1')),
+        Number(attribute(triangle[1], 'v2')),
+        Number(attribute(triangle[1], 'v3'))
+      ])
+      const geometry = new BufferGeometry()
+      geometry.setAttribute('position', new BufferAttribute(new Float32Array(vertices), 3))
+      geometry.setIndex(indices)
+      meshes.set(id, geometry)
+    }
+
+    const references = Array.from(body.matchAll(/<component\b([^>]*)\/?>/g)).map(component => ({
+      objectId: attribute(component[1], 'objectid') ?? '',
+      transform: threeMfTransform(attribute(component[1], 'transform'))
+    }))
+    if (references.length > 0) components.set(id, references)
+  }
+
+  const geometries: BufferGeometry[] = []
+  const place = (objectId: string, transform: Matrix4, depth: number) => {
+    if (depth > 16) return
+    const mesh = meshes.get(objectId)
+    if (mesh) geometries.push(mesh.clone().applyMatrix4(transform))
+    for (const reference of components.get(objectId) ?? []) {
+      place(reference.objectId, transform.clone().multiply(reference.transform), depth + 1)
+    }
+  }
+  for (const item of Array.from(xml.matchAll(/<item\b([^>]*)\/?>/g))) {
+    place(attribute(item[1], 'objectid') ?? '', threeMfTransform(attribute(item[1], 'transform')), 0)
+  }
+
+  return { geometries, units: THREE_MF_UNITS[unit] ?? 'millimeter' }
+}
+
+/**
+ * Load the triangles of a mesh file. glTF is always in meters and 3MF declares its unit;
+ * STL and OBJ carry no units.
+ */
+export async function loadMeshFile(file: File, format: MeshFormat): Promise<ImportedMesh> {
+  switch (format) {
+    case 'stl': {
+      const { STLLoader } = await import('three/examples/jsm/loaders/STLLoader.js')
+      return { geometries: [new STLLoader().parse(await file.arrayBuffer())], units: null }
+    }
+    case 'obj': {
+      const { OBJLoader } = await import('three/examples/jsm/loaders/OBJLoader.js')
+      return { geometries: collectGeometries(new OBJLoader().parse(await file.text())), units: null }
+    }
+    case '3mf':
+      return parseThreeMf(await file.arrayBuffer())
+    case 'gltf': {
+      const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js')
+      const gltf = await new GLTFLoader().parseAsync(await file.arrayBuffer(), '').catch(error => {
+        throw new Error(`glTF could not be read (external .bin buffers are not supported, upload a .glb): ${error?.message ?? error}`)
+      })
+      return { geometries: collectGeometries(gltf.scene), units: 'meter' }
+    }
+  }
+}
+
+/**
+ * Merge duplicate vertices so the mesh is connected like a B-rep tessellation. STL stores every
+ * triangle with its own corners and flat normals, which would otherwise keep faces apart.
+ */
+export async function weldMesh(geometry: BufferGeometry): Promise<{ geometry: BufferGeometry; merged: number }> {
+  const { mergeVertices } = await import('three/examples/jsm/utils/BufferGeometryUtils.js')
+
+  const positions = new BufferGeometry()
+  positions.setAttribute('position', geometry.getAttribute('position'))
+  if (geometry.index) positions.setIndex(geometry.index)
+
+  const size = new Box3().setFromBufferAttribute(geometry.getAttribute('position') as BufferAttribute).getSize(new Vector3())
+  const tolerance = Math.max(size.length() * WELD_TOLERANCE, 1e-9)
+  const welded = mergeVertices(positions, tolerance)
+  welded.computeVertexNormals()
+  welded.computeBoundingBox()
+
+  const merged = geometry.getAttribute('position').count - welded.getAttribute('position').count
+  return { geometry: welded, merged: Math.max(0, merged) }
+}
@@ -0,0 +1,190 @@
+import { BufferAttribute, BufferGeometry } from 'three'
+import type { CADParserOptions, ParsedGeometry } from './cadFileParser'
+import type { SerializedMesh } from '@/lib/types/parser'
+
+/**
+ * A parse result as stored in the cache: display meshes as plain buffers plus the analysis
+ */
+export interface CachedParse {
+  key: string
+  version: number // parser version that produced the entry
+  fileName: string
+  createdAt: string
+  meshes: SerializedMesh[]
+  analysis: ParsedGeometry['analysis']
+}
+
+/**
+ * Storage behind the parse cache. IndexedDB in the browser; servers plug in their own store.
+ */
+export interface ParseCacheStore {
+  get(key: string): Promise<CachedParse | undefined>
+  set(entry: CachedParse): Promise<void>
+  prune(version: number): Promise<void> // drop entries written by other parser versions
+}
+
+const DB_NAME = 'tubebend-parse-cache'
+const OBJECT_STORE = 'parses'
+const MAX_MEMORY_ENTRIES = 50
+
+export function serializeMesh(geometry: BufferGeometry): SerializedMesh {
+  return {
+    position: geometry.attributes.position.array as Float32Array,
+    normal: geometry.attributes.normal?.array as Float32Array | undefined,
+    index: geometry.index ? Uint32Array.from(geometry.index.array) : undefined
+  }
+}
+
+export function deserializeMesh(mesh: SerializedMesh): { geometry: BufferGeometry } {
+  const geometry = new BufferGeometry()
+  geometry.setAttribute('position', new BufferAttribute(mesh.position, 3))
+  if (mesh.normal) {
+    geometry.setAttribute('normal', new BufferAttribute(mesh.normal, 3))
+  }
+  if (mesh.index) {
+    geometry.setIndex(new BufferAttribute(mesh.index, 1))
+  }
+  geometry.computeBoundingBox()
+  return { geometry }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+/**
+ * Browser store; IndexedDB is also available inside the parser worker
+ */
+export function createIndexedDbParseCacheStore(name: string = DB_NAME): ParseCacheStore {
+  let database: Promise<IDBDatabase> | null = null
+  const open = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(name, 1)
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(OBJECT_STORE, { keyPath: 'key' }).createIndex('version', 'version')
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    return database
+  }
+  const objectStore = async (mode: IDBTransactionMode) => (await open()).transaction(OBJECT_STORE, mode).objectStore(OBJECT_STORE)
+
+  return {
+    async get(key) {
+      return request((await objectStore('readonly')).get(key))
+    },
+    async set(entry) {
+      await request((await objectStore('readwrite')).put(entry))
+    },
+    async prune(version) {
+      const store = await objectStore('readwrite')
+      const stale = [IDBKeyRange.upperBound(version, true), IDBKeyRange.lowerBound(version, true)]
+      for (const range of stale) {
+        const keys = await request(store.index('version').getAllKeys(range))
+        await Promise.all(keys.map(key => request(store.delete(key))))
+      }
+    }
+  }
+}
+
+/**
+ * In-process store for servers and tests; entries are copied in and out so callers that
+ * transfer or modify the buffers cannot corrupt the cache
+ */
+export function createMemoryParseCacheStore(maxEntries: number = MAX_MEMORY_ENTRIES): ParseCacheStore {
+  const entries = new Map<string, CachedParse>()
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      return entry && structuredClone(entry)
+    },
+    async set(entry) {
+      entries.delete(entry.key)
+      entries.set(entry.key, structuredClone(entry))
+      // Maps iterate in insertion order, so the first key is the oldest entry
+      while (entries.size > maxEntries) entries.delete(entries.keys().next().value!)
+    },
+    async prune(version) {
+      for (const [key, entry] of entries) {
+        if (entry.version !== version) entries.delete(key)
+      }
+    }
+  }
+}
+
+let cacheStore: ParseCacheStore | null | undefined
+let prunedVersion: number | null = null
+
+/**
+ * Replace the cache store, e.g. with a shared store on the server; null disables caching
+ */
+export function setParseCacheStore(store: ParseCacheStore | null) {
+  cacheStore = store
+  prunedVersion = null
+}
+
+function getStore(): ParseCacheStore | null {
+  if (cacheStore === undefined) {
+    cacheStore = typeof indexedDB !== 'undefined' ? createIndexedDbParseCacheStore() : createMemoryParseCacheStore()
+  }
+  return cacheStore
+}
+
+async function sha256(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Cache key of a parse: file content hash, parser version and the options that change the result
+ */
+export async function parseCacheKey(file: File, version: number, options: CADParserOptions): Promise<string> {
+  const hash = await sha256(await file.arrayBuffer())
+  const extension = file.name.toLowerCase().split('.').pop()
+  const variant = [options.scale ?? 1, options.centerGeometry ?? true, options.units ?? '', options.centerlineDiameter ?? '']
+  return `${hash}.${extension}|v${version}|${variant.join('|')}`
+}
+
+/**
+ * Cached parse for a key, or null on a miss. Cache failures only cost a re-parse.
+ */
+export async function readParseCache(key: string, version: number): Promise<ParsedGeometry | null> {
+  const store = getStore()
+  if (!store) return null
+
+  try {
+    if (prunedVersion !== version) {
+      prunedVersion = version
+      store.prune(version).catch(error => console.warn('Failed to prune parse cache:', error))
+    }
+
+    const entry = await store.get(key)
+    if (!entry || entry.version !== version) return null
+    return { meshes: entry.meshes.map(deserializeMesh), analysis: entry.analysis }
+  } catch (error) {
+    console.warn('Failed to read parse cache:', error)
+    return null
+  }
+}
+
+export async function writeParseCache(key: string, version: number, fileName: string, parsed: ParsedGeometry): Promise<void> {
+  const store = getStore()
+  if (!store) return
+
+  try {
+    await store.set({
+      key,
+      version,
+      fileName,
+      createdAt: new Date().toISOString(),
+      meshes: parsed.meshes.map(mesh => serializeMesh(mesh.geometry)),
+      analysis: parsed.analysis
+    })
+  } catch (error) {
+    console.warn('Failed to write parse cache:', error)
+  }
+}
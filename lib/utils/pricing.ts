@@ -1,39 +1,35 @@
-import { Material, TubeSpecification, ManufacturingSpec, PricingBreakdown } from '@/lib/types/configuration'
+import { Material, TubeSpecification, TubeProfile } from '@/lib/types/configuration'
+import type { CrossSectionProfile } from '@/lib/types/geometry'
 
 export const MATERIALS: Material[] = [
   {
-    id: 'steel-1018',
-    name: 'Steel (1018)',
-    description: 'Carbon steel tubing - most common',
-    basePrice: 2.50,
+    id: 'aluminum',
+    name: 'Aluminum',
+    description: 'Lightweight, corrosion-resistant, excellent for marine and aerospace applications',
+    pricePerLb: 2.50,
+    density: 0.0975,
+    color: '#C0C0C0',
+    gauges: ['16 AWG (0.051")', '14 AWG (0.064")', '12 AWG (0.081")', '10 AWG (0.102")', '8 AWG (0.128")'],
     available: true
   },
   {
-    id: 'aluminum-6061',
-    name: 'Aluminum (6061-T6)',
-    description: 'Lightweight, corrosion resistant',
-    basePrice: 4.25,
+    id: 'stainless-steel',
+    name: 'Stainless Steel',
+    description: 'High strength, corrosion-resistant, ideal for food service and chemical applications',
+    pricePerLb: 4.75,
+    density: 0.289,
+    color: '#E8E8E8',
+    gauges: ['16 AWG (0.063")', '14 AWG (0.078")', '12 AWG (0.109")', '10 AWG (0.134")', '8 AWG (0.172")'],
     available: true
   },
   {
-    id: 'stainless-304',
-    name: 'Stainless Steel (304)',
-    description: 'Excellent corrosion resistance',
-    basePrice: 6.80,
-    available: true
-  },
-  {
-    id: 'stainless-316',
-    name: 'Stainless Steel (316)',
-    description: 'Marine grade stainless',
-    basePrice: 8.50,
-    available: true
-  },
-  {
-    id: 'copper',
-    name: 'Copper',
-    description: 'Pure copper tubing',
-    basePrice: 12.00,
+    id: 'carbon-steel',
+    name: 'Carbon Steel',
+    description: 'Strong, durable, cost-effective for structural and general purpose applications',
+    pricePerLb: 1.85,
+    density: 0.284,
+    color: '#696969',
+    gauges: ['16 AWG (0.065")', '14 AWG (0.083")', '12 AWG (0.109")', '10 AWG (0.134")', '8 AWG (0.165")'],
     available: true
   }
 ]
@@ -42,172 +38,190 @@ export const TUBE_DIAMETERS = [
   '0.25"', '0.375"', '0.5"', '0.625"', '0.75"', '1"', '1.25"', '1.5"', '2"', '2.5"', '3"', '4"'
 ]
 
+export const SQUARE_TUBE_SIZES = [
+  '0.5"', '0.75"', '1"', '1.25"', '1.5"', '2"', '2.5"', '3"', '4"'
+]
+
+export const RECTANGULAR_TUBE_SIZES = [
+  '1" x 0.5"', '1.5" x 0.75"', '2" x 1"', '2" x 1.5"', '3" x 1"', '3" x 1.5"', '3" x 2"', '4" x 2"'
+]
+
+export const OVAL_TUBE_SIZES = [
+  '1" x 0.5"', '1.5" x 0.75"', '1.5" x 1"', '2" x 1"', '2.5" x 1.25"', '3" x 1.5"'
+]
+
+export const PROFILE_STOCK_SIZES: Record<TubeProfile, string[]> = {
+  round: TUBE_DIAMETERS,
+  square: SQUARE_TUBE_SIZES,
+  rectangular: RECTANGULAR_TUBE_SIZES,
+  oval: OVAL_TUBE_SIZES
+}
+
+export const PROFILE_LABELS: Record<TubeProfile, string> = {
+  round: 'Round',
+  square: 'Square',
+  rectangular: 'Rectangular',
+  oval: 'Oval'
+}
+
+// Non-round profiles are prone to twist and wall collapse and need dedicated tooling
+const PROFILE_BEND_MULTIPLIERS: Record<TubeProfile, number> = {
+  round: 1.0,
+  square: 1.3,
+  rectangular: 1.5,
+  oval: 1.4
+}
+
 export const WALL_THICKNESS_OPTIONS = [
   '0.035"', '0.049"', '0.065"', '0.083"', '0.095"', '0.120"', '0.134"', '0.165"'
 ]
 
-export function calculateMaterialCost(
-  material: Material,
-  tubeSpec: TubeSpecification,
-  quantity: number
-): number {
-  const diameter = parseFloat(tubeSpec.diameter.replace('"', ''))
-  const wallThickness = parseFloat(tubeSpec.wallThickness.replace('"', ''))
-  
-  // Weight factor based on diameter and wall thickness
-  const weightFactor = Math.PI * diameter * wallThickness * 0.2836 // approx weight per foot in lbs
-  
-  return material.basePrice * tubeSpec.length * quantity * (1 + weightFactor * 0.1)
+const MM_PER_INCH = 25.4
+
+/**
+ * Parse an inch size label such as '1.25"' or '14 AWG (0.083")' into inches
+ */
+export function parseInchSize(label: string): number {
+  const parenthesized = label.match(/\(([\d.]+)"\)/)
+  const value = parseFloat(parenthesized ? parenthesized[1] : label.replace('"', ''))
+  return isNaN(value) ? 0 : value
 }
 
-export function calculateBendingCost(
-  tubeSpec: TubeSpecification,
-  quantity: number,
-  bendCount: number = 3 // estimated from CAD analysis
-): number {
-  const diameter = parseFloat(tubeSpec.diameter.replace('"', ''))
-  
-  // Base bending cost per bend
-  const baseBendCost = 6.00
-  
-  // Complexity multiplier based on diameter
-  const complexityMultiplier = diameter < 1 ? 1.0 : diameter * 0.5
-  
-  // Setup cost amortized across quantity
-  const setupCost = 45.00 / Math.max(quantity, 1)
-  
-  return (baseBendCost * bendCount * complexityMultiplier + setupCost) * quantity
+/**
+ * Parse a profile size label such as '2" x 1"' into width and height (inches).
+ * Single-dimension labels (round and square stock) return equal width and height.
+ */
+export function parseProfileSize(label: string): { width: number; height: number } {
+  const [first, second] = label.split('x').map(part => parseInchSize(part.trim()))
+  return { width: first || 0, height: second || first || 0 }
 }
 
-// Enhanced bending cost calculation that considers actual bend parameters
-export function calculateEnhancedBendingCost(
-  tubeSpec: TubeSpecification,
-  quantity: number,
-  bends: any[] = []
-): number {
-  const diameter = parseFloat(tubeSpec.diameter.replace('"', ''))
-  
-  if (bends.length === 0) {
-    // Fall back to basic calculation if no bend data
-    return calculateBendingCost(tubeSpec, quantity, 0)
+/**
+ * Find the catalog size closest to a measured dimension (inches)
+ */
+export function findNearestStockSize(valueInches: number, options: string[]): string | undefined {
+  let nearest: string | undefined
+  let bestDistance = Infinity
+  for (const option of options) {
+    const distance = Math.abs(parseInchSize(option) - valueInches)
+    if (distance < bestDistance) {
+      bestDistance = distance
+      nearest = option
+    }
   }
-  
-  // Base bending cost per bend
-  const baseBendCost = 6.00
-  
-  // Calculate cost for each bend based on its specific parameters
-  const bendCosts = bends.map(bend => {
-    const angle = Math.abs(bend.angle || 45)
-    const radius = bend.radius || diameter * 2
-    
-    // Angle complexity: sharper bends (smaller angles) are more expensive
-    const angleMultiplier = angle < 30 ? 1.8 : 
-                           angle < 60 ? 1.4 : 
-                           angle < 90 ? 1.2 : 1.0
-    
-    // Radius complexity: tighter bends are more expensive
-    const minRadius = diameter * 2
-    const radiusMultiplier = radius < minRadius ? 2.0 :
-                            radius < minRadius * 1.5 ? 1.5 : 1.0
-    
-    // Diameter complexity multiplier
-    const diameterMultiplier = diameter < 1 ? 1.0 : diameter * 0.5
-    
-    // Manufacturing constraint penalty for invalid bends
-    const validityMultiplier = bend.isValid === false ? 1.5 : 1.0
-    
-    return baseBendCost * angleMultiplier * radiusMultiplier * diameterMultiplier * validityMultiplier
-  })
-  
-  const totalBendCost = bendCosts.reduce((sum, cost) => sum + cost, 0)
-  
-  // Setup cost increases with bend complexity
-  const setupCost = (45.00 + bends.length * 15.00) / Math.max(quantity, 1)
-  
-  return (totalBendCost + setupCost) * quantity
+  return nearest
 }
 
-export function calculateFinishingCost(
-  finishingType: string,
-  tubeSpec: TubeSpecification,
-  quantity: number
-): number {
-  const surfaceArea = Math.PI * parseFloat(tubeSpec.diameter.replace('"', '')) * tubeSpec.length
-  
-  const finishingRates = {
-    'none': 0,
-    'deburr': 2.50,
-    'polish': 8.00,
-    'paint': 12.00,
-    'powder-coat': 15.00
+/**
+ * Find the stock size in the detected profile's catalog closest to the model dimensions
+ */
+export function findNearestProfileStock(profile: CrossSectionProfile): string | undefined {
+  const width = profile.outerDiameter / MM_PER_INCH
+  const height = (profile.height ?? profile.outerDiameter) / MM_PER_INCH
+  const options = PROFILE_STOCK_SIZES[profile.shape]
+
+  let nearest: string | undefined
+  let bestDistance = Infinity
+  for (const option of options) {
+    const size = parseProfileSize(option)
+    const distance = Math.abs(size.width - width) + Math.abs(size.height - height)
+    if (distance < bestDistance) {
+      bestDistance = distance
+      nearest = option
+    }
   }
-  
-  const rate = finishingRates[finishingType as keyof typeof finishingRates] || 0
-  return rate * surfaceArea * quantity * 0.1 // 0.1 multiplier for surface area calculation
+  return nearest
 }
 
-export function calculateSetupCost(quantity: number, rushOrder: boolean): number {
-  const baseSetup = 25.00
-  const rushMultiplier = rushOrder ? 2.0 : 1.0
-  
-  // Setup cost decreases with quantity
-  const quantityDiscount = Math.min(quantity / 100, 0.5)
-  
-  return baseSetup * rushMultiplier * (1 - quantityDiscount)
-}
+/**
+ * Compare the customer's chosen stock against the profile detected in the model
+ * and return human-readable warnings for any contradiction
+ */
+export function compareStockToProfile(
+  profile: CrossSectionProfile,
+  stock: { profile?: TubeProfile; outerDiameter?: string; wallThickness?: string }
+): string[] {
+  const warnings: string[] = []
+  const stockProfile = stock.profile || 'round'
+  const modelOD = profile.outerDiameter / MM_PER_INCH
+  const modelWall = profile.wallThickness / MM_PER_INCH
 
-export function calculateRushFee(subtotal: number, rushOrder: boolean): number {
-  return rushOrder ? subtotal * 0.25 : 0
-}
+  if (profile.shape !== stockProfile) {
+    warnings.push(`The model is a ${profile.shape} tube but ${stockProfile} stock is selected.`)
+  }
 
-export function calculateTax(subtotal: number): number {
-  // Placeholder tax rate - would be calculated based on location
-  return subtotal * 0.0875 // 8.75% example rate
-}
+  if (stock.outerDiameter) {
+    const od = parseProfileSize(stock.outerDiameter).width
+    if (od > 0 && Math.abs(od - modelOD) / modelOD > 0.05) {
+      const label = profile.shape === 'round' ? 'OD' : 'width'
+      warnings.push(`Selected ${label} ${od}" does not match the model ${label} of ${modelOD.toFixed(3)}".`)
+    }
+  }
 
-export function getLeadTime(rushOrder: boolean, quantity: number): string {
-  if (rushOrder) {
-    return '1-2 days'
+  if (stock.wallThickness && profile.innerDiameter > 0) {
+    const wall = parseInchSize(stock.wallThickness)
+    if (wall > 0 && Math.abs(wall - modelWall) / modelWall > 0.15) {
+      warnings.push(`Selected wall ${wall}" does not match the model wall of ${modelWall.toFixed(3)}".`)
+    }
   }
-  
-  if (quantity <= 10) {
-    return '3-5 days'
-  } else if (quantity <= 100) {
-    return '5-7 days'
-  } else {
-    return '1-2 weeks'
+
+  return warnings
+}
+
+/**
+ * Outside perimeter of the tube profile in inches
+ */
+export function calculateProfilePerimeter(tubeSpec: TubeSpecification): number {
+  const width = parseFloat(tubeSpec.diameter.replace('"', ''))
+  const height = tubeSpec.height ? parseFloat(tubeSpec.height.replace('"', '')) : width
+
+  switch (tubeSpec.profile || 'round') {
+    case 'square':
+      return 4 * width
+    case 'rectangular':
+      return 2 * (width + height)
+    case 'oval': {
+      // Ramanujan's approximation for the circumference of an ellipse
+      const a = width / 2
+      const b = height / 2
+      return Math.PI * (3 * (a + b) - Math.sqrt((3 * a + b) * (a + 3 * b)))
+    }
+    default:
+      return Math.PI * width
   }
 }
 
-export function calculatePricing(
-  materialId: string,
-  tubeSpec: TubeSpecification,
-  specs: ManufacturingSpec
-): PricingBreakdown {
-  const material = MATERIALS.find(m => m.id === materialId)
-  if (!material) {
-    throw new Error('Material not found')
+/**
+ * Forming-time multiplier for a measured centerline radius: bends tighter than 2×D and 3×D need
+ * slower forming and more tooling care. Bends without a measured radius are formed at standard speed.
+ */
+export function getRadiusBendMultiplier(radius: number | undefined, outerDiameter: number): number {
+  if (!radius || outerDiameter <= 0) return 1
+  const dOfBend = radius / outerDiameter
+  if (dOfBend < 2) return 2
+  if (dOfBend < 3) return 1.5
+  return 1
+}
+
+/**
+ * Forming-time multiplier for a tube profile. Non-round profiles must keep their orientation
+ * between bends: a plane rotation off the profile's flats twists the tube, and a quarter turn
+ * on rectangular or oval stock switches between easy-way and hard-way bending.
+ */
+export function getProfileBendMultiplier(profile: TubeProfile = 'round', rotation: number = 0): number {
+  const base = PROFILE_BEND_MULTIPLIERS[profile]
+  if (profile === 'round') return base
+
+  const quarterTurns = Math.abs(rotation) / 90
+  const offFlats = Math.abs(quarterTurns - Math.round(quarterTurns)) * 90 > 2
+  if (offFlats) {
+    return base * 1.5
   }
-  
-  const materialCost = calculateMaterialCost(material, tubeSpec, specs.quantity)
-  const bendingCost = calculateBendingCost(tubeSpec, specs.quantity)
-  const finishingCost = calculateFinishingCost(specs.finishing.type, tubeSpec, specs.quantity)
-  const setupCost = calculateSetupCost(specs.quantity, specs.rushOrder)
-  
-  const subtotal = materialCost + bendingCost + finishingCost + setupCost
-  const rushFee = calculateRushFee(subtotal, specs.rushOrder)
-  const tax = calculateTax(subtotal + rushFee)
-  const total = subtotal + rushFee + tax
-  
-  return {
-    materialCost,
-    bendingCost,
-    finishingCost,
-    setupCost,
-    rushFee,
-    subtotal,
-    tax,
-    total,
-    leadTime: getLeadTime(specs.rushOrder, specs.quantity)
+
+  const switchesAxis = Math.round(quarterTurns) % 2 === 1
+  if (switchesAxis && profile !== 'square') {
+    return base * 1.25
   }
-}
\ No newline at end of file
+
+  return base
+}
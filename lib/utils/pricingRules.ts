@@ -0,0 +1,161 @@
+import type {
+  CustomerTier,
+  PricingFacts,
+  PricingRates,
+  PricingRule,
+  PricingRuleCondition,
+  PricingRuleSet
+} from '@/lib/types/pricing'
+import type { User } from '@/lib/types/user'
+
+const RULE_SETS_STORAGE_KEY = 'tubebend_pricing_rule_sets'
+
+// Rates before any admin edits (these would typically come from a database)
+export const DEFAULT_PRICING_RATES: PricingRates = {
+  // Labor and operation costs
+  consumablesPerBend: 1.50,  // Lubricant and die wear per bend
+  cuttingCostPerCut: 8.00,   // Cost per cut
+  laborRate: 65.00,          // Per hour
+
+  // Machine hour rates, by machine profile
+  machineRates: {
+    'electric-cnc-40': 95.00,
+    'hydraulic-nc-80': 70.00
+  },
+
+  // Time estimates (in hours)
+  timePerCut: 0.08,          // Saw time per cut
+  dfmBendMultiplier: 1.5,    // Forming-time multiplier for bends flagged by DFM rules
+
+  // Tooling the catalog lacks, per die
+  customDieCosts: {
+    'bend-die': 1200.00,
+    'clamp-die': 450.00,
+    'pressure-die': 350.00,
+    'wiper-die': 400.00,
+    'mandrel': 650.00
+  },
+  toolingAmortizationParts: 0, // charge custom dies to the order in full
+
+  // Finishing, per square foot of outside surface
+  finishingRates: {
+    'none': 0,
+    'deburr': 2.50,
+    'polish': 8.00,
+    'paint': 12.00,
+    'powder-coat': 15.00
+  },
+
+  rushRate: 0.25, // Share of the discounted subtotal
+
+  // Tax rate
+  taxRate: 0.08875, // 8.875% (typical for NY)
+
+  // Quantity discounts, by minimum quantity
+  quantityDiscounts: [
+    { minQuantity: 101, discount: 0.15 },
+    { minQuantity: 51, discount: 0.10 },
+    { minQuantity: 11, discount: 0.05 }
+  ]
+}
+
+// The built-in version every stored history starts from
+export const DEFAULT_PRICING_RULE_SET: PricingRuleSet = {
+  version: 1,
+  effectiveFrom: '2025-01-01T00:00:00.000Z',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  note: 'Default shop rates',
+  rates: DEFAULT_PRICING_RATES,
+  rules: []
+}
+
+export function getCustomerTier(user: Pick<User, 'role'> | null | undefined): CustomerTier {
+  return user?.role === 'business' ? 'business' : 'standard'
+}
+
+/**
+ * All saved rule-set versions, oldest first, always starting with the default version
+ */
+export function loadPricingRuleSets(): PricingRuleSet[] {
+  if (typeof window === 'undefined') return [DEFAULT_PRICING_RULE_SET]
+  try {
+    const saved: PricingRuleSet[] = JSON.parse(localStorage.getItem(RULE_SETS_STORAGE_KEY) || '[]')
+    // Versions saved before a rate existed price it at its default
+    const upgraded = saved
+      .filter(set => set.version > 1)
+      .map(set => ({ ...set, rates: completeRates(set.rates) }))
+    return [DEFAULT_PRICING_RULE_SET, ...upgraded].sort((a, b) => a.version - b.version)
+  } catch {
+    return [DEFAULT_PRICING_RULE_SET]
+  }
+}
+
+/**
+ * Every rate of a draft, with the defaults filled in for rates (and machines, finishes and
+ * dies) it does not set
+ */
+function completeRates(rates: Partial<PricingRates>): PricingRates {
+  return {
+    ...DEFAULT_PRICING_RATES,
+    ...rates,
+    machineRates: { ...DEFAULT_PRICING_RATES.machineRates, ...rates.machineRates },
+    finishingRates: { ...DEFAULT_PRICING_RATES.finishingRates, ...rates.finishingRates },
+    customDieCosts: { ...DEFAULT_PRICING_RATES.customDieCosts, ...rates.customDieCosts }
+  }
+}
+
+/**
+ * Save rates and rules as a new version with every rate written out, so a later change to the
+ * defaults does not change it. Saved versions are never modified, so quotes stamped with a
+ * version can be priced again exactly (see repriceQuote).
+ */
+export function savePricingRuleSet(
+  draft: Pick<PricingRuleSet, 'rates' | 'rules' | 'effectiveFrom' | 'note' | 'createdBy'>
+): PricingRuleSet {
+  const sets = loadPricingRuleSets()
+  const ruleSet: PricingRuleSet = {
+    ...draft,
+    rates: completeRates(draft.rates),
+    version: Math.max(...sets.map(set => set.version)) + 1,
+    createdAt: new Date().toISOString()
+  }
+  const saved = [...sets.filter(set => set.version > 1), ruleSet]
+  localStorage.setItem(RULE_SETS_STORAGE_KEY, JSON.stringify(saved))
+  return ruleSet
+}
+
+export function getPricingRuleSet(version: number): PricingRuleSet | undefined {
+  return loadPricingRuleSets().find(set => set.version === version)
+}
+
+/**
+ * The rule set in effect at a moment: the newest version whose effective date has passed
+ */
+export function getEffectiveRuleSet(at: Date = new Date()): PricingRuleSet {
+  const effective = loadPricingRuleSets().filter(set => new Date(set.effectiveFrom) <= at)
+  return effective.reduce(
+    (latest, set) => set.effectiveFrom > latest.effectiveFrom ||
+      (set.effectiveFrom === latest.effectiveFrom && set.version > latest.version) ? set : latest,
+    DEFAULT_PRICING_RULE_SET
+  )
+}
+
+function matchesCondition(condition: PricingRuleCondition, facts: PricingFacts): boolean {
+  const actual = facts[condition.field]
+  const { value } = condition
+
+  switch (condition.operator) {
+    case 'equals':
+      return String(actual) === String(value)
+    case 'not-equals':
+      return String(actual) !== String(value)
+    case 'at-least':
+      return Number(actual) >= Number(value)
+    case 'at-most':
+      return Number(actual) <= Number(value)
+  }
+}
+
+export function ruleMatches(rule: PricingRule, facts: PricingFacts): boolean {
+  return rule.enabled && rule.conditions.every(condition => matchesCondition(condition, facts))
+}
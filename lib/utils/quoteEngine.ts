@@ -0,0 +1,760 @@
+import type {
+  ConfigurationState,
+  Material,
+  PricedLine,
+  PricingBreakdown,
+  PricingComponent,
+  PricingLineItem,
+  TubeSpecification
+} from '@/lib/types/configuration'
+import type { AssemblyAnalysis, BendTable, CrossSectionProfile } from '@/lib/types/geometry'
+import type { DfmReport } from '@/lib/types/dfm'
+import type { CustomerTier, PricingFacts, PricingRates, PricingRule, PricingRuleSet } from '@/lib/types/pricing'
+import type { NestingPiece, NestingPlan } from '@/lib/types/nesting'
+import type { CustomDie, ToolingItem, ToolingReport } from '@/lib/types/tooling'
+import type { CycleTimeEstimate, MachineProfile } from '@/lib/types/simulation'
+import {
+  MATERIALS,
+  calculateProfilePerimeter,
+  getProfileBendMultiplier,
+  getRadiusBendMultiplier,
+  parseInchSize,
+  parseProfileSize
+} from './pricing'
+import { checkManufacturability, mergeDfmReports } from './dfm'
+import { calculateCutLength, type CutLengthResult } from './cutLength'
+import { getEffectiveRuleSet, getPricingRuleSet, ruleMatches } from './pricingRules'
+import { describeSticks, nestStock } from './stockNesting'
+import { loadToolingCatalog, matchTooling } from './tooling'
+import { estimateCycleTime, selectMachineProfile } from './cycleTime'
+
+// Bump whenever a change to the quote rules changes prices; quotes of other versions cannot be re-priced exactly
+export const QUOTE_ENGINE_VERSION = 5
+
+/**
+ * A tube as measured by the geometry analysis: the uploaded part or one line of an assembly.
+ * Lengths in millimeters.
+ */
+export interface QuotePart {
+  name?: string
+  totalLength: number
+  estimatedBends: number
+  estimatedCuts: number
+  bendTable?: BendTable
+  crossSection?: CrossSectionProfile
+}
+
+export interface QuoteAnalysis extends QuotePart {
+  assembly?: AssemblyAnalysis
+}
+
+/**
+ * Everything a quote rule can price from: the configuration and the measured tube
+ */
+export interface QuoteRuleContext {
+  configuration: ConfigurationState
+  rates: PricingRates
+  facts: PricingFacts // what admin rule conditions are evaluated against
+  material: Material
+  part: QuotePart
+  quantity: number // parts priced (assemblies × occurrences per assembly for assembly lines)
+  cut: CutLengthResult
+  bendCount: number // bends per part: the bend table's, or the estimated count without one
+  nesting?: NestingPlan // sticks bought for this tube and others of the same material and size
+  stockPerPart: number // mm of purchased stick charged per part
+  customDies: CustomDie[] // dies the catalog lacks, charged with this tube
+  dfm: DfmReport
+  weightPerPart: number // lbs of stock charged per part
+  machine: MachineProfile
+  cycle: CycleTimeEstimate
+  machineHours: number // cycle time of all parts; changeover is charged as setup
+  laborHours: number // machine hours plus saw time
+  surfaceArea: number // outside surface per part, sq ft
+  items: PricingLineItem[] // lines priced by earlier rules
+}
+
+type RulePrice = Pick<PricingLineItem, 'basis' | 'quantity' | 'unit' | 'rate' | 'amount'>
+
+/**
+ * One built-in rule of the quote engine. Rules run in order and return null when they do not apply;
+ * admin pricing rules adjust each component after its built-in rules.
+ */
+export interface QuoteRule {
+  id: string
+  component: PricingComponent
+  label: string
+  price: (context: QuoteRuleContext) => RulePrice | null
+}
+
+// Premiums on bending and labor for tolerances tighter than standard, tightest tier first
+const TOLERANCE_PREMIUMS: Array<{
+  field: keyof ConfigurationState['specifications']['tolerances']
+  label: (value: number) => string
+  tiers: Array<{ maxTolerance: number; premium: number }>
+}> = [
+  {
+    field: 'bendAngle',
+    label: value => `±${value}° bend angle`,
+    tiers: [{ maxTolerance: 0.25, premium: 0.30 }, { maxTolerance: 0.5, premium: 0.15 }]
+  },
+  {
+    field: 'centerlineRadius',
+    label: value => `±${value}" CLR`,
+    tiers: [{ maxTolerance: 0.03, premium: 0.20 }, { maxTolerance: 0.0625, premium: 0.10 }]
+  },
+  {
+    field: 'length',
+    label: value => `±${value}" length`,
+    tiers: [{ maxTolerance: 0.005, premium: 0.20 }, { maxTolerance: 0.01, premium: 0.10 }]
+  }
+]
+
+const MM_PER_INCH = 25.4
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+const sumOf = (items: PricingLineItem[], components: PricingComponent[]) =>
+  items.filter(item => components.includes(item.component)).reduce((sum, item) => sum + item.amount, 0)
+
+export const QUOTE_RULES: QuoteRule[] = [
+  {
+    id: 'material-weight',
+    component: 'material',
+    label: 'Material',
+    price: ({ material, quantity, weightPerPart, stockPerPart, nesting }) => ({
+      basis: `${weightPerPart.toFixed(2)} lbs (${(stockPerPart / MM_PER_INCH).toFixed(2)}" of stock) × ${plural(quantity, 'part')} @ ${formatCurrency(material.pricePerLb)}/lb` +
+        (nesting && nesting.sticks.length > 0 ? `; ${describeSticks(nesting)} sticks at ${(nesting.yield * 100).toFixed(0)}% yield` : ''),
+      quantity: weightPerPart * quantity,
+      unit: 'lb',
+      rate: material.pricePerLb,
+      amount: weightPerPart * quantity * material.pricePerLb
+    })
+  },
+  {
+    // Bending time is charged through labor and machine time; this is only what each bend uses up
+    id: 'bending-consumables',
+    component: 'bending',
+    label: 'Bending Consumables',
+    price: ({ rates, bendCount, quantity }) => {
+      if (bendCount === 0 || rates.consumablesPerBend === 0) return null
+      return {
+        basis: `Lubricant and die wear: ${plural(bendCount, 'bend')} × ${plural(quantity, 'part')} @ ${formatCurrency(rates.consumablesPerBend)}`,
+        quantity: bendCount * quantity,
+        unit: 'bend',
+        rate: rates.consumablesPerBend,
+        amount: bendCount * quantity * rates.consumablesPerBend
+      }
+    }
+  },
+  {
+    id: 'cutting-per-cut',
+    component: 'cutting',
+    label: 'Cutting Operations',
+    price: ({ rates, part, quantity }) => {
+      if (part.estimatedCuts === 0) return null
+      return {
+        basis: `${plural(part.estimatedCuts, 'cut')} × ${plural(quantity, 'part')} @ ${formatCurrency(rates.cuttingCostPerCut)}`,
+        quantity: part.estimatedCuts * quantity,
+        unit: 'cut',
+        rate: rates.cuttingCostPerCut,
+        amount: part.estimatedCuts * quantity * rates.cuttingCostPerCut
+      }
+    }
+  },
+  {
+    id: 'labor-hours',
+    component: 'labor',
+    label: 'Labor',
+    price: ({ rates, part, quantity, cycle, laborHours }) => {
+      const sawing = part.estimatedCuts > 0 ? `, ${plural(part.estimatedCuts * quantity, 'cut')} @ ${rates.timePerCut} hr` : ''
+      return {
+        basis: `${laborHours.toFixed(1)} hours: ${cycle.cycleTime.toFixed(0)}s cycle × ${plural(quantity, 'part')}` +
+          `${sawing} @ ${formatCurrency(rates.laborRate)}/hr`,
+        quantity: laborHours,
+        unit: 'hr',
+        rate: rates.laborRate,
+        amount: laborHours * rates.laborRate
+      }
+    }
+  },
+  {
+    id: 'machine-time',
+    component: 'machine',
+    label: 'Machine Time',
+    price: ({ rates, machine, machineHours }) => {
+      const rate = rates.machineRates[machine.id] ?? 0
+      if (rate === 0) return null
+      return {
+        basis: `${machineHours.toFixed(2)} hours on ${machine.name} @ ${formatCurrency(rate)}/hr`,
+        quantity: machineHours,
+        unit: 'hr',
+        rate,
+        amount: machineHours * rate
+      }
+    }
+  },
+  {
+    // Changing over the die sets a tube needs, with the operator and the machine both tied up
+    id: 'setup-changeover',
+    component: 'setup',
+    label: 'Setup',
+    price: ({ rates, machine, cycle }) => {
+      const hours = cycle.changeover / 3600
+      const rate = rates.laborRate + (rates.machineRates[machine.id] ?? 0)
+      return {
+        basis: `${plural(cycle.dieSets, 'die set')} × ${(machine.changeoverTime / 60).toFixed(0)} min changeover on ${machine.name} ` +
+          `@ ${formatCurrency(rate)}/hr labor and machine`,
+        quantity: hours,
+        unit: 'hr',
+        rate,
+        amount: hours * rate
+      }
+    }
+  },
+  {
+    id: 'tooling-custom-dies',
+    component: 'tooling',
+    label: 'Custom Tooling',
+    price: ({ rates, customDies }) => {
+      if (customDies.length === 0) return null
+      const amount = customDies.reduce((sum, die) => sum + die.cost, 0)
+      const amortized = rates.toolingAmortizationParts > 0 ? `, amortized over ${plural(rates.toolingAmortizationParts, 'part')}` : ''
+      return {
+        basis: `${customDies.map(die => die.name).join(', ')}${amortized}`,
+        quantity: customDies.length,
+        unit: 'die',
+        rate: amount / customDies.length,
+        amount
+      }
+    }
+  },
+  {
+    id: 'finishing-per-area',
+    component: 'finishing',
+    label: 'Finishing',
+    price: ({ rates, configuration, quantity, surfaceArea }) => {
+      const { type } = configuration.specifications.finishing
+      const rate = rates.finishingRates[type] ?? 0
+      if (rate === 0) return null
+      return {
+        basis: `${type.replace('-', ' ')}: ${surfaceArea.toFixed(2)} sq ft × ${plural(quantity, 'part')} @ ${formatCurrency(rate)}/sq ft`,
+        quantity: surfaceArea * quantity,
+        unit: 'sq ft',
+        rate,
+        amount: surfaceArea * quantity * rate
+      }
+    }
+  },
+  {
+    id: 'tolerance-premium',
+    component: 'tolerance',
+    label: 'Tight Tolerances',
+    price: ({ configuration, items }) => {
+      const { tolerances } = configuration.specifications
+      const tight = TOLERANCE_PREMIUMS.flatMap(({ field, label, tiers }) => {
+        const tier = tiers.find(candidate => tolerances[field] <= candidate.maxTolerance)
+        return tier ? [{ label: label(tolerances[field]), premium: tier.premium }] : []
+      })
+      if (tight.length === 0) return null
+
+      const premium = tight.reduce((sum, entry) => sum + entry.premium, 0)
+      const base = sumOf(items, ['bending', 'labor', 'machine'])
+      return {
+        basis: `${tight.map(entry => entry.label).join(', ')}: +${Math.round(premium * 100)}% of bending, labor and machine time`,
+        quantity: base,
+        unit: '$',
+        rate: premium,
+        amount: base * premium
+      }
+    }
+  },
+  {
+    id: 'quantity-discount',
+    component: 'discount',
+    label: 'Quantity Discount',
+    price: ({ rates, quantity, items }) => {
+      const discount = rates.quantityDiscounts.find(tier => quantity >= tier.minQuantity)?.discount ?? 0
+      if (discount === 0) return null
+      const base = items.reduce((sum, item) => sum + item.amount, 0)
+      return {
+        basis: `${Math.round(discount * 100)}% off ${plural(quantity, 'part')}`,
+        quantity: base,
+        unit: '$',
+        rate: -discount,
+        amount: -base * discount
+      }
+    }
+  },
+  {
+    id: 'rush-order',
+    component: 'rush',
+    label: 'Rush Order',
+    price: ({ rates, configuration, items }) => {
+      if (!configuration.specifications.rushOrder) return null
+      const base = items.reduce((sum, item) => sum + item.amount, 0)
+      return {
+        basis: `${Math.round(rates.rushRate * 100)}% expedite fee`,
+        quantity: base,
+        unit: '$',
+        rate: rates.rushRate,
+        amount: base * rates.rushRate
+      }
+    }
+  }
+]
+
+/**
+ * Tube OD and wall in mm: the OD measured in the model, else the selected stock size (or the
+ * OD assumed for a wireframe centerline), and the wall of the selected gauge
+ */
+export function getSelectedTube(crossSection: CrossSectionProfile | undefined, tubeSpec: TubeSpecification) {
+  const measured = crossSection && !crossSection.assumed ? crossSection.outerDiameter : 0
+  const outerDiameter = measured || parseProfileSize(tubeSpec.diameter).width * MM_PER_INCH || crossSection?.outerDiameter || 0
+  const wallThickness = parseInchSize(tubeSpec.wallThickness) * MM_PER_INCH || crossSection?.wallThickness || 0
+  return { outerDiameter, wallThickness }
+}
+
+/**
+ * The selected stock size, or the measured profile when no stock size is selected
+ */
+function profileSpecOf(tubeSpec: TubeSpecification, crossSection: CrossSectionProfile | undefined): TubeSpecification {
+  if (parseInchSize(tubeSpec.diameter) || !crossSection) return tubeSpec
+  const width = (crossSection.width ?? crossSection.outerDiameter) / MM_PER_INCH
+  const height = (crossSection.height ?? crossSection.outerDiameter) / MM_PER_INCH
+  return { ...tubeSpec, profile: crossSection.shape, diameter: `${width}"`, height: `${height}"` }
+}
+
+/**
+ * Outside surface of one part in square feet, from the selected stock size or the measured profile
+ */
+function surfaceAreaOf(tubeSpec: TubeSpecification, crossSection: CrossSectionProfile | undefined, lengthInches: number): number {
+  const perimeter = calculateProfilePerimeter(profileSpecOf(tubeSpec, crossSection)) || 0
+  return (perimeter * lengthInches) / 144
+}
+
+/**
+ * Weight of stock in lbs per inch: the wall section (the perimeter through the middle of the
+ * wall times the wall) times the material density
+ */
+function weightPerInchOf(
+  tubeSpec: TubeSpecification,
+  crossSection: CrossSectionProfile | undefined,
+  wallThickness: number,
+  material: Material
+): number {
+  const spec = profileSpecOf(tubeSpec, crossSection)
+  const wall = wallThickness / MM_PER_INCH
+  const width = parseInchSize(spec.diameter)
+  const height = spec.height ? parseInchSize(spec.height) : width
+  if (width <= wall || height <= wall) return 0
+  const midWall = calculateProfilePerimeter({ ...spec, diameter: `${width - wall}"`, height: `${height - wall}"` })
+  return midWall * wall * material.density
+}
+
+export function getLeadTime(rushOrder: boolean, quantity: number): string {
+  if (rushOrder) {
+    return '1-2 days'
+  }
+
+  if (quantity <= 10) {
+    return '3-5 days'
+  } else if (quantity <= 100) {
+    return '5-7 days'
+  } else {
+    return '1-2 weeks'
+  }
+}
+
+export interface QuoteOptions {
+  ruleSet?: PricingRuleSet // defaults to the rule set in effect now; see repriceQuote to reproduce a quote
+  customerTier?: CustomerTier
+  toolingCatalog?: ToolingItem[] // defaults to the shop's saved catalog
+}
+
+function totalsOf(items: PricingLineItem[], ruleSet: PricingRuleSet) {
+  const subtotal = items.reduce((sum, item) => sum + item.amount, 0)
+  const tax = subtotal * ruleSet.rates.taxRate
+  return {
+    materialCost: sumOf(items, ['material']),
+    bendingCost: sumOf(items, ['bending']),
+    cuttingCost: sumOf(items, ['cutting']),
+    laborCost: sumOf(items, ['labor']),
+    machineCost: sumOf(items, ['machine']),
+    finishingCost: sumOf(items, ['finishing']),
+    toleranceCost: sumOf(items, ['tolerance']),
+    setupCost: sumOf(items, ['setup']),
+    toolingCost: sumOf(items, ['tooling']),
+    discount: -sumOf(items, ['discount']),
+    rushFee: sumOf(items, ['rush']),
+    subtotal,
+    taxRate: ruleSet.rates.taxRate,
+    tax,
+    total: subtotal + tax,
+    ruleSetVersion: ruleSet.version,
+    engineVersion: QUOTE_ENGINE_VERSION
+  }
+}
+
+/**
+ * Line item for an admin pricing rule that matched, adjusting the component it targets
+ */
+function applyPricingRule(rule: PricingRule, context: QuoteRuleContext): PricingLineItem | null {
+  const { action } = rule
+  const current = sumOf(context.items, [action.component])
+  const count = action.per === 'part' ? context.quantity : 1
+  const perLabel = action.per === 'part' ? ` × ${plural(context.quantity, 'part')}` : ''
+
+  let price: RulePrice
+  switch (action.type) {
+    case 'add':
+      price = {
+        basis: `+${formatCurrency(action.value)}${perLabel}`,
+        quantity: count,
+        unit: action.per,
+        rate: action.value,
+        amount: action.value * count
+      }
+      break
+    case 'multiply':
+      price = {
+        basis: `${action.component} × ${action.value}`,
+        quantity: current,
+        unit: '$',
+        rate: action.value - 1,
+        amount: current * (action.value - 1)
+      }
+      break
+    case 'override':
+      price = {
+        basis: `${action.component} set to ${formatCurrency(action.value)}${perLabel}`,
+        quantity: count,
+        unit: action.per,
+        rate: action.value,
+        amount: action.value * count - current
+      }
+      break
+  }
+
+  if (price.amount === 0) return null
+  return { rule: `admin:${rule.id}`, component: action.component, label: rule.name, ...price }
+}
+
+/**
+ * A tube to price: the part or one assembly line, its blank and the stock charged for it
+ */
+interface TubeJob {
+  part: QuotePart
+  quantity: number
+  tube: { outerDiameter: number; wallThickness: number }
+  cut: CutLengthResult
+  groupKey: string // material and size; blanks of one group are nested together
+  nesting?: NestingPlan
+  stockPerPart: number
+  customDies: CustomDie[]
+}
+
+function createTubeJob(configuration: ConfigurationState, material: Material, part: QuotePart, quantity: number): TubeJob {
+  const { tubeSpec } = configuration.materialSelection
+  const tube = getSelectedTube(part.crossSection, tubeSpec)
+  const cut = calculateCutLength(part.totalLength, part.bendTable, tube, material.id)
+  const groupKey = [material.id, tubeSpec.profile ?? 'round', tube.outerDiameter.toFixed(1), tubeSpec.wallThickness].join('|')
+  return { part, quantity, tube, cut, groupKey, stockPerPart: cut.stockConsumption, customDies: [] }
+}
+
+/**
+ * Nest the blanks of all jobs into purchasable sticks, per material and size, and charge each
+ * job its share of the sticks bought. Blanks longer than any stick keep their own length.
+ */
+function nestJobs(jobs: TubeJob[], material: Material, tubeSpec: TubeSpecification): NestingPlan[] {
+  const groups = new Map<string, TubeJob[]>()
+  for (const job of jobs) {
+    groups.set(job.groupKey, [...(groups.get(job.groupKey) ?? []), job])
+  }
+
+  return Array.from(groups.entries()).map(([groupKey, groupJobs]) => {
+    const { outerDiameter } = groupJobs[0].tube
+    const size = tubeSpec.diameter || `${(outerDiameter / MM_PER_INCH).toFixed(3)}"`
+    const pieces: NestingPiece[] = groupJobs.map(job => ({
+      partName: job.part.name ?? 'Part',
+      length: job.cut.cutLength,
+      quantity: job.quantity
+    }))
+    const plan = nestStock(groupKey, `${material.name} ${size} × ${tubeSpec.wallThickness}`, pieces)
+
+    groupJobs.forEach((job, index) => {
+      job.nesting = plan
+      if (!plan.oversized.includes(pieces[index]) && plan.partsLength > 0) {
+        job.stockPerPart = plan.purchasedLength * job.cut.cutLength / plan.partsLength
+      }
+    })
+    return plan
+  })
+}
+
+/**
+ * Match the bends of all jobs to the tooling catalog. A custom die is charged once per order,
+ * with the first tube that needs it, at its cost spread over the amortization quantity.
+ * Only round tube is matched; profile tooling is quoted by hand.
+ */
+function planTooling(
+  jobs: TubeJob[],
+  configuration: ConfigurationState,
+  material: Material,
+  catalog: ToolingItem[],
+  rates: PricingRates
+): ToolingReport | undefined {
+  if ((configuration.materialSelection.tubeSpec.profile ?? 'round') !== 'round') return undefined
+
+  const report: ToolingReport = { matches: [], customDies: [] }
+  for (const job of jobs) {
+    const { matches, customDies } = matchTooling({
+      partName: job.part.name,
+      bendTable: job.part.bendTable,
+      outerDiameter: job.tube.outerDiameter,
+      wallThickness: job.tube.wallThickness,
+      materialId: material.id
+    }, catalog)
+    report.matches.push(...matches)
+
+    for (const die of customDies) {
+      if (report.customDies.some(charged => charged.key === die.key)) continue
+      const share = rates.toolingAmortizationParts > 0 ? Math.min(1, job.quantity / rates.toolingAmortizationParts) : 1
+      const charged = { ...die, cost: (rates.customDieCosts[die.kind] ?? 0) * share }
+      report.customDies.push(charged)
+      job.customDies.push(charged)
+    }
+  }
+  return report
+}
+
+/**
+ * Price one tube for `quantity` parts by running the quote rules in order
+ */
+function priceTube(
+  configuration: ConfigurationState,
+  material: Material,
+  job: TubeJob,
+  ruleSet: PricingRuleSet,
+  customerTier: CustomerTier
+): PricingBreakdown {
+  const { rates } = ruleSet
+  const { tubeSpec } = configuration.materialSelection
+  const { part, quantity, tube, cut } = job
+  const dfm = checkManufacturability({
+    bendTable: part.bendTable,
+    crossSection: part.crossSection,
+    materialId: material.id,
+    wallThickness: parseInchSize(tubeSpec.wallThickness) * MM_PER_INCH || undefined,
+    outerDiameter: tube.outerDiameter,
+    partName: part.name
+  })
+
+  // Bends are formed slower for profile twist and orientation changes, for their measured CLR and
+  // when DFM rules flag them. The bend table is the bend source whenever one was extracted; the
+  // estimated count only stands in without one.
+  const bends = part.bendTable?.bends ?? []
+  const bendCount = part.bendTable ? bends.length : part.estimatedBends
+  const flagged = (i: number) => dfm.flaggedBends.includes(i + 1)
+  const formFactors = Array.from({ length: bendCount }, (_, i) =>
+    getProfileBendMultiplier(tubeSpec.profile, bends[i]?.rotation ?? 0) *
+    getRadiusBendMultiplier(bends[i]?.radius, tube.outerDiameter) *
+    (flagged(i) ? rates.dfmBendMultiplier : 1)
+  )
+
+  const weightPerInch = weightPerInchOf(tubeSpec, part.crossSection, tube.wallThickness, material)
+  const machine = selectMachineProfile(tube.outerDiameter)
+  const cycle = estimateCycleTime({ ...part, formFactors }, machine)
+  const machineHours = (cycle.cycleTime * quantity) / 3600
+
+  // Labor and machine cost of the slower forming of flagged bends
+  const dfmSeconds = cycle.steps.reduce((sum, step, i) =>
+    flagged(i) && rates.dfmBendMultiplier > 0
+      ? sum + (step.bend - machine.clampTime) * (1 - 1 / rates.dfmBendMultiplier)
+      : sum, 0)
+  const dfmSurcharge = (dfmSeconds * quantity / 3600) * (rates.laborRate + (rates.machineRates[machine.id] ?? 0))
+  const context: QuoteRuleContext = {
+    configuration,
+    rates,
+    facts: {
+      material: material.id,
+      outerDiameter: tube.outerDiameter / MM_PER_INCH,
+      bendCount,
+      quantity,
+      customerTier,
+      finish: configuration.specifications.finishing.type
+    },
+    material,
+    part,
+    quantity,
+    cut,
+    bendCount,
+    nesting: job.nesting,
+    stockPerPart: job.stockPerPart,
+    customDies: job.customDies,
+    dfm,
+    weightPerPart: (job.stockPerPart / MM_PER_INCH) * weightPerInch,
+    machine,
+    cycle,
+    machineHours,
+    laborHours: machineHours + part.estimatedCuts * quantity * rates.timePerCut,
+    surfaceArea: surfaceAreaOf(tubeSpec, part.crossSection, part.totalLength / MM_PER_INCH),
+    items: []
+  }
+
+  const matchingRules = ruleSet.rules.filter(rule => ruleMatches(rule, context.facts))
+  QUOTE_RULES.forEach((rule, index) => {
+    const price = rule.price(context)
+    if (price) {
+      context.items.push({ rule: rule.id, component: rule.component, label: rule.label, ...price })
+    }
+
+    // Admin rules adjust a component once its built-in rules have run
+    if (QUOTE_RULES[index + 1]?.component !== rule.component) {
+      for (const pricingRule of matchingRules.filter(candidate => candidate.action.component === rule.component)) {
+        const item = applyPricingRule(pricingRule, context)
+        if (item) context.items.push(item)
+      }
+    }
+  })
+
+  const totals = totalsOf(context.items, ruleSet)
+  return {
+    ...totals,
+    pricePerPart: totals.total / Math.max(quantity, 1),
+    leadTime: getLeadTime(configuration.specifications.rushOrder, quantity),
+    lineItems: context.items,
+    dfm,
+    details: {
+      materialWeight: context.weightPerPart,
+      cutLength: cut.cutLength,
+      laborHours: context.laborHours,
+      machineHours,
+      cycleTime: cycle.cycleTime,
+      dfmSurcharge
+    }
+  }
+}
+
+/**
+ * Combine the priced tube lines of an assembly. Each line is priced for its full quantity
+ * (assemblies × occurrences per assembly), so the combined price per part is the price per assembly.
+ */
+function combineLines(lines: PricedLine[], assemblies: number, rushOrder: boolean, ruleSet: PricingRuleSet): PricingBreakdown {
+  // Lines of the same rule are merged; the per-line items stay on each line
+  const merged = new Map<string, PricingLineItem>()
+  for (const line of lines) {
+    for (const item of line.pricing.lineItems) {
+      const existing = merged.get(item.rule)
+      if (existing) {
+        existing.quantity += item.quantity
+        existing.amount += item.amount
+        existing.rate = existing.quantity > 0 ? existing.amount / existing.quantity : item.rate
+        existing.basis = `${plural(lines.length, 'tube line')}, see each line`
+      } else {
+        merged.set(item.rule, { ...item })
+      }
+    }
+  }
+
+  const lineItems = Array.from(merged.values())
+  const totals = totalsOf(lineItems, ruleSet)
+  const reports = lines.map(line => line.pricing.dfm).filter((report): report is DfmReport => report !== undefined)
+  const partCount = lines.reduce((sum, line) => sum + line.quantityPerAssembly, 0) * assemblies
+
+  return {
+    ...totals,
+    pricePerPart: totals.total / Math.max(assemblies, 1),
+    leadTime: getLeadTime(rushOrder, partCount),
+    lineItems,
+    lines,
+    dfm: reports.length > 0 ? mergeDfmReports(reports) : undefined,
+    details: {
+      materialWeight: lines.reduce((weight, line) => weight + line.pricing.details.materialWeight * line.quantityPerAssembly, 0),
+      cutLength: lines.reduce((length, line) => length + line.pricing.details.cutLength * line.quantityPerAssembly, 0),
+      laborHours: lines.reduce((hours, line) => hours + line.pricing.details.laborHours, 0),
+      machineHours: lines.reduce((hours, line) => hours + line.pricing.details.machineHours, 0),
+      cycleTime: lines.reduce((time, line) => time + (line.pricing.details.cycleTime ?? 0) * line.quantityPerAssembly, 0),
+      dfmSurcharge: lines.reduce((sum, line) => sum + (line.pricing.details.dfmSurcharge ?? 0), 0)
+    }
+  }
+}
+
+/**
+ * Quote a configured part from its geometry analysis. The one pricing entry point: every page
+ * that shows a price shows the result of this function.
+ */
+export function calculateQuote(
+  configuration: ConfigurationState,
+  analysis: QuoteAnalysis,
+  options: QuoteOptions = {}
+): PricingBreakdown {
+  const { materialSelection, specifications } = configuration
+  const { ruleSet = getEffectiveRuleSet(), customerTier = 'standard', toolingCatalog = loadToolingCatalog() } = options
+  const material = MATERIALS.find(candidate => candidate.id === materialSelection.materialId)
+  if (!material) {
+    throw new Error(`Unknown material: ${materialSelection.materialId}`)
+  }
+
+  console.log('💰 Calculating quote for:', { materialSelection, specifications, ruleSetVersion: ruleSet.version, customerTier })
+
+  // Assemblies with several tubes (or repeated tubes) are priced line by line
+  const tubeLines = analysis.assembly?.tubeLines ?? []
+  const isAssembly = tubeLines.length > 1 || tubeLines[0]?.quantity > 1
+  const jobs = isAssembly
+    ? tubeLines.map(line => createTubeJob(configuration, material, line, specifications.quantity * line.quantity))
+    : [createTubeJob(configuration, material, analysis, specifications.quantity)]
+  const nesting = nestJobs(jobs, material, materialSelection.tubeSpec)
+  const tooling = planTooling(jobs, configuration, material, toolingCatalog, ruleSet.rates)
+
+  const pricing: PricingBreakdown = {
+    ...(isAssembly
+      ? combineLines(
+          tubeLines.map((line, index) => ({
+            name: line.name,
+            quantityPerAssembly: line.quantity,
+            pricing: priceTube(configuration, material, jobs[index], ruleSet, customerTier)
+          })),
+          specifications.quantity,
+          specifications.rushOrder,
+          ruleSet
+        )
+      : priceTube(configuration, material, jobs[0], ruleSet, customerTier)),
+    nesting,
+    tooling
+  }
+
+  console.log('📊 Quote breakdown:', {
+    lineItems: pricing.lineItems.map(item => `${item.rule}: ${formatCurrency(item.amount)}`),
+    total: formatCurrency(pricing.total),
+    pricePerPart: formatCurrency(pricing.pricePerPart),
+    leadTime: pricing.leadTime
+  })
+
+  return pricing
+}
+
+/**
+ * Price a configured part again with the rule set and engine a quote was stamped with. The
+ * customer tier and tooling catalog are not stamped; pass them as they were when quoted.
+ */
+export function repriceQuote(
+  configuration: ConfigurationState,
+  analysis: QuoteAnalysis,
+  stamp: Pick<PricingBreakdown, 'ruleSetVersion' | 'engineVersion'>,
+  options: Omit<QuoteOptions, 'ruleSet'> = {}
+): PricingBreakdown {
+  if (stamp.engineVersion !== QUOTE_ENGINE_VERSION) {
+    throw new Error(`Quote was priced with quote engine v${stamp.engineVersion}; this is v${QUOTE_ENGINE_VERSION}`)
+  }
+  const ruleSet = getPricingRuleSet(stamp.ruleSetVersion)
+  if (!ruleSet) {
+    throw new Error(`Unknown pricing rule set: v${stamp.ruleSetVersion}`)
+  }
+  return calculateQuote(configuration, analysis, { ...options, ruleSet })
+}
+
+/**
+ * Format currency for display
+ */
+export function formatCurrency(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
@@ -0,0 +1,519 @@
+import { Vector3 } from 'three'
+import type { BendTable } from '@/lib/types/geometry'
+import type { ManufacturingSpec } from '@/lib/types/configuration'
+import { calculateCutLength } from './cutLength'
+import { curveLength, filletPolyline } from './wireframe'
+import { DrawingSheet, SheetElement, renderPdf, renderSvg, textWidth } from './drawingSheet'
+
+export type ShopDrawingFormat = 'svg' | 'pdf'
+
+export interface ShopDrawingInput {
+  partName: string
+  orderNumber: string
+  drawingNumber?: string // defaults to the order number
+  customer?: string
+  materialId?: string // enables the neutral-axis correction of the cut length
+  materialName: string
+  tube: { outerDiameter: number; wallThickness: number } // mm
+  quantity: number
+  table: BendTable // mm
+  tolerances: ManufacturingSpec['tolerances'] // ±inches, bend angle ±degrees
+  finishing: ManufacturingSpec['finishing']
+  units?: 'inches' | 'mm' // dimension units, inches by default
+  date?: Date
+}
+
+export interface ShopDrawingFile {
+  fileName: string
+  mimeType: string
+  content: string
+}
+
+export const SHOP_DRAWING_FORMATS: Record<ShopDrawingFormat, { label: string; extension: string; mimeType: string }> = {
+  svg: { label: 'Shop drawing (SVG)', extension: 'svg', mimeType: 'image/svg+xml' },
+  pdf: { label: 'Shop drawing (PDF)', extension: 'pdf', mimeType: 'application/pdf' }
+}
+
+const MM_PER_INCH = 25.4
+
+// ANSI B landscape, 17" × 11"
+const SHEET_WIDTH = 431.8
+const SHEET_HEIGHT = 279.4
+const MARGIN = 10
+const VIEW_AREA_RIGHT = 296 // views on the left, tables and title block on the right
+const TITLE_BLOCK_HEIGHT = 50
+const ROW_HEIGHT = 5
+
+const THIN = 0.18
+const MEDIUM = 0.35
+const CENTERLINE_DASH = [6, 1.5, 1, 1.5]
+const STANDARD_SCALES = [2, 1, 0.5, 0.4, 0.25, 0.2, 0.1, 0.05, 0.02]
+
+type Projection = (point: Vector3) => [number, number] // [right, up] in model mm
+
+// Third-angle projection: top view above the front view, right view to its right
+const PROJECTIONS: Record<'front' | 'top' | 'right', Projection> = {
+  front: p => [p.x, p.y],
+  top: p => [p.x, -p.z],
+  right: p => [-p.z, p.y]
+}
+
+// Isometric viewing directions from above, one per quadrant
+const ISOMETRIC_VIEWS = [new Vector3(1, 1, 1), new Vector3(-1, 1, 1), new Vector3(-1, 1, -1), new Vector3(1, 1, -1)]
+
+interface Cell {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+interface Units {
+  length: (mm: number) => string
+  label: string
+}
+
+function displayUnits(units: 'inches' | 'mm'): Units {
+  return units === 'mm'
+    ? { length: mm => `${mm.toFixed(1)} mm`, label: 'MILLIMETERS' }
+    : { length: mm => `${(mm / MM_PER_INCH).toFixed(3)}"`, label: 'INCHES' }
+}
+
+function degrees(value: number): string {
+  const text = value.toFixed(1)
+  return `${Number(text) === 0 ? '0.0' : text}°`
+}
+
+function scaleLabel(scale: number): string {
+  return scale >= 1 ? `${scale}:1` : `1:${Number((1 / scale).toFixed(1))}`
+}
+
+/**
+ * Shorten a text run with "..." until it fits the given width
+ */
+function fitText(text: string, size: number, maxWidth: number, bold: boolean = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text
+  let fitted = text
+  while (fitted.length > 1 && textWidth(`${fitted}...`, size, bold) > maxWidth) fitted = fitted.slice(0, -1)
+  return `${fitted.trimEnd()}...`
+}
+
+function rectangle(left: number, top: number, width: number, height: number, lineWidth: number): SheetElement {
+  return {
+    kind: 'path',
+    points: [[left, top], [left + width, top], [left + width, top + height], [left, top + height]],
+    width: lineWidth,
+    closed: true
+  }
+}
+
+function line(x1: number, y1: number, x2: number, y2: number, width: number = THIN): SheetElement {
+  return { kind: 'path', points: [[x1, y1], [x2, y2]], width }
+}
+
+function arrow(tipX: number, tipY: number, dx: number, dy: number): SheetElement {
+  // Filled arrowhead pointing along (dx, dy)
+  const length = 2.5
+  const half = 0.8
+  const baseX = tipX - dx * length
+  const baseY = tipY - dy * length
+  return {
+    kind: 'path',
+    points: [[tipX, tipY], [baseX - dy * half, baseY + dx * half], [baseX + dy * half, baseY - dx * half]],
+    width: 0,
+    fill: '#000000'
+  }
+}
+
+function horizontalDimension(elements: SheetElement[], x1: number, x2: number, edge: number, at: number, text: string) {
+  elements.push(
+    line(x1, edge + 1, x1, at + 1.5),
+    line(x2, edge + 1, x2, at + 1.5),
+    line(x1, at, x2, at),
+    arrow(x1, at, -1, 0),
+    arrow(x2, at, 1, 0),
+    { kind: 'text', x: (x1 + x2) / 2, y: at - 1, text, size: 2.5, anchor: 'middle' }
+  )
+}
+
+function verticalDimension(elements: SheetElement[], y1: number, y2: number, edge: number, at: number, text: string) {
+  elements.push(
+    line(edge + 1, y1, at + 1.5, y1),
+    line(edge + 1, y2, at + 1.5, y2),
+    line(at, y1, at, y2),
+    arrow(at, y1, 0, -1),
+    arrow(at, y2, 0, 1),
+    { kind: 'text', x: at + 1.2, y: (y1 + y2) / 2 + 0.9, text, size: 2.5 }
+  )
+}
+
+function balloon(elements: SheetElement[], x: number, y: number, label: string) {
+  const radius = 2.6
+  const points: Array<[number, number]> = []
+  for (let i = 0; i < 24; i++) {
+    const angle = (i / 24) * 2 * Math.PI
+    points.push([x + radius * Math.cos(angle), y + radius * Math.sin(angle)])
+  }
+  elements.push(
+    { kind: 'path', points, width: THIN, closed: true },
+    { kind: 'text', x, y: y + 1, text: label, size: 2.8, anchor: 'middle', bold: true }
+  )
+}
+
+function viewProjection(toViewer: Vector3): Projection {
+  const direction = toViewer.clone().normalize()
+  const right = new Vector3(0, 1, 0).cross(direction).normalize()
+  const up = direction.clone().cross(right)
+  return p => [p.dot(right), p.dot(up)]
+}
+
+/**
+ * Isometric direction that shows the part best: straights foreshortened least and no bend
+ * folded flat, which happens from (1, 1, 1) when a 45° straight is followed by one along Z
+ */
+function chooseIsometric(intersections: Vector3[]): Projection {
+  const straights = intersections.slice(1)
+    .map((point, i) => point.clone().sub(intersections[i]))
+    .filter(straight => straight.lengthSq() > 0)
+    .map(straight => straight.normalize())
+
+  const score = (project: Projection) => {
+    const projected = straights.map(project)
+    let worst = Math.min(1, ...projected.map(([u, v]) => Math.hypot(u, v)))
+    for (let i = 1; i < straights.length; i++) {
+      const trueSine = straights[i - 1].clone().cross(straights[i]).length()
+      if (trueSine < 1e-6) continue
+      const [u1, v1] = projected[i - 1]
+      const [u2, v2] = projected[i]
+      const sine = Math.abs(u1 * v2 - v1 * u2) / Math.max(Math.hypot(u1, v1) * Math.hypot(u2, v2), 1e-9)
+      worst = Math.min(worst, sine / trueSine)
+    }
+    return worst
+  }
+
+  const candidates = ISOMETRIC_VIEWS.map(viewProjection)
+  return candidates.reduce((best, candidate) => (score(candidate) > score(best) + 1e-6 ? candidate : best))
+}
+
+/**
+ * Bend labels: the middle of each bend arc (the intersection for sharp bends) with the
+ * direction pointing away from the inside of the bend, in model coordinates
+ */
+function bendMarkers(table: BendTable, path: ReturnType<typeof filletPolyline>, offset: Vector3) {
+  const arcs = path.filter(curve => curve.arc)
+  let next = 0
+
+  return table.bends.map((bend, i) => {
+    const corner = new Vector3(table.points[i + 1].x, table.points[i + 1].y, table.points[i + 1].z).sub(offset)
+    const incoming = corner.clone().sub(new Vector3(table.points[i].x, table.points[i].y, table.points[i].z).sub(offset)).normalize()
+    const outgoing = new Vector3(table.points[i + 2].x, table.points[i + 2].y, table.points[i + 2].z).sub(offset).sub(corner).normalize()
+    const outward = incoming.clone().sub(outgoing).normalize()
+
+    const arc = (bend.radius ?? 0) > 0 ? arcs[next++] : undefined
+    const position = arc ? arc.points[Math.floor(arc.points.length / 2)].clone().sub(offset) : corner
+    return { label: `${bend.index}`, position, outward }
+  })
+}
+
+/**
+ * Draw the tube in one view: outline as a wide black stroke with a white core, then the
+ * dash-dot centerline. Returns the envelope of the tube on the sheet.
+ */
+function drawView(
+  elements: SheetElement[],
+  points: Vector3[],
+  project: Projection,
+  scale: number,
+  centerX: number,
+  centerY: number,
+  outerDiameter: number
+) {
+  const toSheet = (point: Vector3): [number, number] => {
+    const [u, v] = project(point)
+    return [centerX + u * scale, centerY - v * scale]
+  }
+  const sheetPoints = points.map(toSheet)
+  const width = outerDiameter * scale
+
+  elements.push({ kind: 'path', points: sheetPoints, width: Math.max(width, MEDIUM), cap: 'round' })
+  if (width > 2 * MEDIUM + 0.1) {
+    elements.push({ kind: 'path', points: sheetPoints, width: width - 2 * MEDIUM, color: '#ffffff', cap: 'round' })
+  }
+  elements.push({ kind: 'path', points: sheetPoints, width: THIN, dash: CENTERLINE_DASH })
+
+  const xs = sheetPoints.map(p => p[0])
+  const ys = sheetPoints.map(p => p[1])
+  return {
+    toSheet,
+    left: Math.min(...xs) - width / 2,
+    right: Math.max(...xs) + width / 2,
+    top: Math.min(...ys) - width / 2,
+    bottom: Math.max(...ys) + width / 2,
+    tubeWidth: width
+  }
+}
+
+function drawBalloons(
+  elements: SheetElement[],
+  markers: ReturnType<typeof bendMarkers>,
+  toSheet: (point: Vector3) => [number, number],
+  tubeWidth: number
+) {
+  for (const marker of markers) {
+    const [x, y] = toSheet(marker.position)
+    const [tx, ty] = toSheet(marker.position.clone().add(marker.outward))
+    let dx = tx - x
+    let dy = ty - y
+    const length = Math.hypot(dx, dy)
+    if (length < 1e-6) {
+      dx = 0
+      dy = -1
+    } else {
+      dx /= length
+      dy /= length
+    }
+    const reach = tubeWidth / 2 + 7
+    elements.push(line(x + dx * (tubeWidth / 2), y + dy * (tubeWidth / 2), x + dx * (reach - 2.6), y + dy * (reach - 2.6)))
+    balloon(elements, x + dx * reach, y + dy * reach, marker.label)
+  }
+}
+
+function drawBendTable(
+  elements: SheetElement[],
+  table: BendTable,
+  units: Units,
+  left: number,
+  top: number,
+  width: number,
+  maxBottom: number
+): number {
+  elements.push({ kind: 'text', x: left, y: top + 4, text: 'BEND TABLE', size: 3.5, bold: true })
+  const columns = [0, 0.14, 0.38, 0.6, 0.8].map(fraction => left + fraction * width)
+  const unit = units.label === 'INCHES' ? 'in' : 'mm'
+  const header = ['BEND', `FEED (${unit})`, 'ROTATION', 'ANGLE', `CLR (${unit})`]
+  const strip = (mm: number) => units.length(mm).replace(/ mm$|"$/, '')
+
+  const rows = table.bends.map(bend => [
+    `${bend.index}`,
+    strip(bend.feedLength),
+    degrees(bend.rotation),
+    degrees(bend.angle),
+    bend.radius ? strip(bend.radius) : '—'
+  ])
+  rows.push(['END', strip(table.finalLength), '', '', ''])
+
+  // Keep the notes below the table on the sheet; long tables point to the machine program
+  const capacity = Math.max(2, Math.floor((maxBottom - top - 6) / ROW_HEIGHT) - 1)
+  const overflow = rows.length > capacity
+  const shown = overflow
+    ? [...rows.slice(0, capacity - 1), [`+${rows.length - capacity + 1} more rows, see machine program`, '', '', '', '']]
+    : rows
+
+  let y = top + 6
+  elements.push(rectangle(left, y, width, ROW_HEIGHT * (shown.length + 1), MEDIUM))
+  header.forEach((text, i) => elements.push({ kind: 'text', x: columns[i] + 1.2, y: y + 3.6, text, size: 2.4, bold: true }))
+  for (const row of shown) {
+    y += ROW_HEIGHT
+    elements.push(line(left, y, left + width, y))
+    row.forEach((text, i) => {
+      if (text) elements.push({ kind: 'text', x: columns[i] + 1.2, y: y + 3.6, text, size: 2.6 })
+    })
+  }
+  const dividerBottom = top + 6 + ROW_HEIGHT * (overflow ? shown.length : shown.length + 1)
+  columns.slice(1).forEach(x => elements.push(line(x, top + 6, x, dividerBottom)))
+  return y + ROW_HEIGHT
+}
+
+function drawTitleBlock(
+  elements: SheetElement[],
+  input: ShopDrawingInput,
+  units: Units,
+  scale: number,
+  left: number,
+  top: number,
+  width: number
+) {
+  const height = TITLE_BLOCK_HEIGHT
+  const field = (x: number, y: number, w: number, h: number, label: string, value: string, size: number = 3) => {
+    elements.push(
+      rectangle(x, y, w, h, THIN),
+      { kind: 'text', x: x + 1.2, y: y + 2.6, text: label, size: 1.8 },
+      { kind: 'text', x: x + 1.2, y: y + h - 1.8, text: fitText(value, size, w - 2.4, true), size, bold: true }
+    )
+  }
+
+  elements.push(rectangle(left, top, width, height, MEDIUM))
+  elements.push(
+    { kind: 'text', x: left + 2, y: top + 7, text: 'TubeBend', size: 5.5, bold: true },
+    { kind: 'text', x: left + width - 2, y: top + 7, text: 'Custom Tube Bending', size: 2.4, anchor: 'end' }
+  )
+
+  const half = width / 2
+  const third = width / 3
+  field(left, top + 10, width, 11, 'TITLE', input.partName, 3.8)
+  field(left, top + 21, half, 9, 'ORDER', input.orderNumber)
+  field(left + half, top + 21, half, 9, 'DRAWING NO.', input.drawingNumber ?? input.orderNumber)
+  field(left, top + 30, half, 10, 'CUSTOMER', input.customer ?? '')
+  field(left + half, top + 30, half, 10, 'DATE', (input.date ?? new Date()).toISOString().slice(0, 10))
+  field(left, top + 40, third, 10, 'SCALE', scaleLabel(scale))
+  field(left + third, top + 40, third, 10, 'UNITS', units.label)
+  field(left + 2 * third, top + 40, third, 10, 'SHEET', '1 OF 1')
+}
+
+/**
+ * Lay out the shop drawing of one part: top, front, right and isometric views of the tube
+ * rebuilt from its bend table, with overall dimensions and bend balloons, the bend table,
+ * material and tolerance notes and a title block.
+ */
+export function buildShopDrawing(input: ShopDrawingInput): DrawingSheet {
+  const units = displayUnits(input.units ?? 'inches')
+  const { table, tube } = input
+  const elements: SheetElement[] = []
+
+  // Centerline rebuilt from the intersections, centered so aligned views share their axes
+  const intersections = table.points.map(p => new Vector3(p.x, p.y, p.z))
+  const path = filletPolyline(intersections, table.bends.map(bend => bend.radius ?? 0))
+  const centerlineLength = path.reduce((sum, curve) => sum + curveLength(curve), 0)
+  const points: Vector3[] = []
+  for (const curve of path) {
+    for (const point of curve.points) {
+      if (points.length === 0 || points[points.length - 1].distanceTo(point) > 1e-9) points.push(point.clone())
+    }
+  }
+  const min = new Vector3(Infinity, Infinity, Infinity)
+  const max = new Vector3(-Infinity, -Infinity, -Infinity)
+  points.forEach(point => { min.min(point); max.max(point) })
+  const offset = min.clone().add(max).multiplyScalar(0.5)
+  points.forEach(point => point.sub(offset))
+  const size = max.clone().sub(min)
+
+  elements.push(rectangle(MARGIN, MARGIN, SHEET_WIDTH - 2 * MARGIN, SHEET_HEIGHT - 2 * MARGIN, 0.5))
+
+  // 2 × 2 view grid with room below and right of each view for dimensions and labels
+  const cellWidth = (VIEW_AREA_RIGHT - MARGIN) / 2
+  const cellHeight = (SHEET_HEIGHT - 2 * MARGIN) / 2
+  const cell = (column: number, row: number): Cell => ({
+    left: MARGIN + column * cellWidth,
+    top: MARGIN + row * cellHeight,
+    width: cellWidth,
+    height: cellHeight
+  })
+  const drawWidth = cellWidth - 30
+  const drawHeight = cellHeight - 30
+
+  // One standard scale for the orthographic views
+  const envelope = (extent: number) => extent + tube.outerDiameter
+  const fit = Math.min(
+    drawWidth / envelope(size.x),
+    drawWidth / envelope(size.z),
+    drawHeight / envelope(size.y),
+    drawHeight / envelope(size.z)
+  )
+  const scale = STANDARD_SCALES.find(candidate => candidate <= fit) ?? STANDARD_SCALES[STANDARD_SCALES.length - 1]
+
+  const markers = bendMarkers(table, path, offset)
+  const orthographic: Array<{ name: string; projection: Projection; cell: Cell }> = [
+    { name: 'TOP VIEW', projection: PROJECTIONS.top, cell: cell(0, 0) },
+    { name: 'FRONT VIEW', projection: PROJECTIONS.front, cell: cell(0, 1) },
+    { name: 'RIGHT VIEW', projection: PROJECTIONS.right, cell: cell(1, 1) }
+  ]
+
+  for (const view of orthographic) {
+    const centerX = view.cell.left + (view.cell.width - 14) / 2
+    const centerY = view.cell.top + (view.cell.height - 14) / 2
+    const drawn = drawView(elements, points, view.projection, scale, centerX, centerY, tube.outerDiameter)
+
+    // Overall envelope, skipped where the view only shows the tube diameter
+    const horizontal = (drawn.right - drawn.left) / scale
+    const vertical = (drawn.bottom - drawn.top) / scale
+    if (horizontal - tube.outerDiameter > 0.5) {
+      horizontalDimension(elements, drawn.left, drawn.right, drawn.bottom, drawn.bottom + 8, units.length(horizontal))
+    }
+    if (vertical - tube.outerDiameter > 0.5) {
+      verticalDimension(elements, drawn.top, drawn.bottom, drawn.right, drawn.right + 8, units.length(vertical))
+    }
+    elements.push({ kind: 'text', x: centerX, y: view.cell.top + view.cell.height - 4, text: view.name, size: 3, anchor: 'middle', bold: true })
+  }
+
+  // Isometric view fitted to its cell, not to scale, with the bend balloons
+  const iso = cell(1, 0)
+  const isometric = chooseIsometric(intersections)
+  const isoPoints = points.map(isometric)
+  const us = isoPoints.map(p => p[0])
+  const vs = isoPoints.map(p => p[1])
+  const isoScale = Math.min(
+    (iso.width - 40) / (Math.max(...us) - Math.min(...us) + tube.outerDiameter),
+    (iso.height - 40) / (Math.max(...vs) - Math.min(...vs) + tube.outerDiameter)
+  )
+  const isoCenterU = (Math.max(...us) + Math.min(...us)) / 2
+  const isoCenterV = (Math.max(...vs) + Math.min(...vs)) / 2
+  const isoDrawn = drawView(
+    elements,
+    points,
+    isometric,
+    isoScale,
+    iso.left + iso.width / 2 - isoCenterU * isoScale,
+    iso.top + (iso.height - 8) / 2 + isoCenterV * isoScale,
+    tube.outerDiameter
+  )
+  drawBalloons(elements, markers, isoDrawn.toSheet, isoDrawn.tubeWidth)
+  elements.push({ kind: 'text', x: iso.left + iso.width / 2, y: iso.top + iso.height - 4, text: 'ISOMETRIC VIEW (NOT TO SCALE)', size: 3, anchor: 'middle', bold: true })
+
+  // Right column: bend table, notes, title block
+  const columnLeft = VIEW_AREA_RIGHT + 4
+  const columnWidth = SHEET_WIDTH - MARGIN - 4 - columnLeft
+  const titleTop = SHEET_HEIGHT - MARGIN - 4 - TITLE_BLOCK_HEIGHT
+
+  const cut = calculateCutLength(centerlineLength, table, tube, input.materialId)
+  const toleranceLength = (inches: number) => `±${units.length(inches * MM_PER_INCH)}`
+  const finish = input.finishing.type === 'none' ? 'NONE' : input.finishing.type.replace('-', ' ').toUpperCase()
+
+  // Numbered notes, some running over two lines
+  const notes = [
+    [`MATERIAL: ${input.materialName}`],
+    [`TUBE: Ø${units.length(tube.outerDiameter)} OD × ${units.length(tube.wallThickness)} WALL`],
+    [`CENTERLINE LENGTH: ${units.length(centerlineLength)}`],
+    [`CUT LENGTH: ${units.length(cut.cutLength)} (INCL. GRIP AND TRIM STOCK)`],
+    [`QUANTITY: ${input.quantity} PCS`],
+    [
+      `TOLERANCES: LENGTH ${toleranceLength(input.tolerances.length)}`,
+      `BEND ANGLE ±${input.tolerances.bendAngle}°   CLR ${toleranceLength(input.tolerances.centerlineRadius)}`
+    ],
+    [`FINISH: ${finish}${input.finishing.notes ? ` — ${input.finishing.notes}` : ''}`],
+    [`DIMENSIONS IN ${units.label} UNLESS OTHERWISE SPECIFIED`],
+    ['THIRD ANGLE PROJECTION']
+  ]
+  const notesHeight = 8 + notes.flat().length * 4.6
+
+  const tableBottom = drawBendTable(elements, table, units, columnLeft, MARGIN + 4, columnWidth, titleTop - notesHeight - 4)
+  let y = tableBottom + 8
+  elements.push({ kind: 'text', x: columnLeft, y, text: 'NOTES', size: 3.5, bold: true })
+  notes.forEach((note, i) => {
+    note.forEach((text, j) => {
+      y += 4.6
+      if (j === 0) elements.push({ kind: 'text', x: columnLeft, y, text: `${i + 1}.`, size: 2.6 })
+      elements.push({ kind: 'text', x: columnLeft + 5, y, text: fitText(text, 2.6, columnWidth - 5), size: 2.6 })
+    })
+  })
+
+  drawTitleBlock(elements, input, units, scale, columnLeft, titleTop, columnWidth)
+
+  return {
+    width: SHEET_WIDTH,
+    height: SHEET_HEIGHT,
+    title: `${input.partName} — ${input.orderNumber}`,
+    elements
+  }
+}
+
+/**
+ * Render the shop drawing of one part as an SVG or PDF file
+ */
+export function exportShopDrawing(input: ShopDrawingInput, format: ShopDrawingFormat): ShopDrawingFile {
+  const sheet = buildShopDrawing(input)
+  const content = format === 'svg' ? renderSvg(sheet) : renderPdf(sheet)
+
+  const baseName = input.partName.trim().replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'part'
+  const { extension, mimeType } = SHOP_DRAWING_FORMATS[format]
+  return { fileName: `${baseName}-drawing.${extension}`, mimeType, content }
+}
@@ -0,0 +1,157 @@
+import type { BendTable } from '@/lib/types/geometry'
+
+/**
+ * Mechanical properties driving springback. Stresses in MPa.
+ */
+export interface SpringbackMaterial {
+  name: string
+  yieldStrength: number
+  elasticModulus: number
+  coefficient: number // calibration multiplier on the elastic model (strain hardening, tooling)
+}
+
+/**
+ * A test bend measured on the shop floor, used to calibrate a material coefficient.
+ * Lengths in millimeters, angles in degrees.
+ */
+export interface SpringbackTestBend {
+  programmedAngle: number
+  measuredAngle: number
+  radius: number
+  outerDiameter: number
+  wallThickness: number
+}
+
+export interface SpringbackResult {
+  ratio: number // fraction of the programmed angle lost on unloading
+  machineAngle: number // angle to program so the part relaxes to the target angle
+  radiusGrowth: number // increase of the CLR after unloading when bent on a die of the target CLR
+}
+
+export const SPRINGBACK_MATERIALS: Record<string, SpringbackMaterial> = {
+  aluminum: { name: '6061-T6 Aluminum', yieldStrength: 276, elasticModulus: 68900, coefficient: 1.0 },
+  'stainless-steel': { name: '304 Stainless Steel', yieldStrength: 215, elasticModulus: 193000, coefficient: 1.6 },
+  'carbon-steel': { name: '1020 DOM Carbon Steel', yieldStrength: 350, elasticModulus: 200000, coefficient: 1.0 }
+}
+
+const MAX_SPRINGBACK_RATIO = 0.5
+const CALIBRATION_STORAGE_KEY = 'tubebend_springback_calibration'
+
+/**
+ * Elastic springback ratio of a fully plastic bend of a round tube. Unloading removes the
+ * curvature M / EI, where M is the fully plastic moment Y·Z, so the lost fraction of the
+ * angle is CLR · Y · Z / (E · I).
+ */
+export function springbackRatio(
+  radius: number,
+  outerDiameter: number,
+  wallThickness: number,
+  material: SpringbackMaterial
+): number {
+  if (radius <= 0 || outerDiameter <= 0) return 0
+
+  const innerDiameter = Math.max(0, outerDiameter - 2 * wallThickness)
+  const secondMoment = (Math.PI * (outerDiameter ** 4 - innerDiameter ** 4)) / 64
+  const plasticModulus = (outerDiameter ** 3 - innerDiameter ** 3) / 6
+
+  const ratio = (radius * material.yieldStrength * plasticModulus) / (material.elasticModulus * secondMoment)
+  return Math.min(MAX_SPRINGBACK_RATIO, ratio * material.coefficient)
+}
+
+/**
+ * Compensated machine angle and radius growth for one bend
+ */
+export function calculateSpringback(
+  angle: number,
+  radius: number,
+  outerDiameter: number,
+  wallThickness: number,
+  material: SpringbackMaterial
+): SpringbackResult {
+  const ratio = springbackRatio(radius, outerDiameter, wallThickness, material)
+  return {
+    ratio,
+    machineAngle: angle / (1 - ratio),
+    radiusGrowth: (radius * ratio) / (1 - ratio)
+  }
+}
+
+/**
+ * Material properties with an admin calibration applied; the saved calibration unless one is given
+ */
+export function getSpringbackMaterial(
+  materialId: string,
+  calibration: Record<string, number> = loadSpringbackCalibration()
+): SpringbackMaterial | undefined {
+  const material = SPRINGBACK_MATERIALS[materialId]
+  if (!material) return undefined
+
+  const calibrated = calibration[materialId]
+  return calibrated !== undefined ? { ...material, coefficient: calibrated } : material
+}
+
+/**
+ * Add machine angles and radius growth to every bend of a bend table (lengths in millimeters).
+ * Bends without a measured radius are left uncompensated.
+ */
+export function applySpringback(
+  table: BendTable,
+  tube: { outerDiameter: number; wallThickness: number },
+  materialId: string
+): BendTable {
+  const material = getSpringbackMaterial(materialId)
+  if (!material) return table
+
+  return {
+    ...table,
+    bends: table.bends.map(bend => {
+      if (!bend.radius) return bend
+      const result = calculateSpringback(bend.angle, bend.radius, tube.outerDiameter, tube.wallThickness, material)
+      return { ...bend, machineAngle: result.machineAngle, radiusGrowth: result.radiusGrowth }
+    })
+  }
+}
+
+/**
+ * Least-squares fit of the calibration coefficient from measured test bends:
+ * minimizes the difference between measured and modelled springback ratios
+ */
+export function calibrateCoefficient(materialId: string, testBends: SpringbackTestBend[]): number | null {
+  const material = SPRINGBACK_MATERIALS[materialId]
+  if (!material) return null
+
+  const uncalibrated = { ...material, coefficient: 1 }
+  let numerator = 0
+  let denominator = 0
+  for (const test of testBends) {
+    if (test.programmedAngle <= 0 || test.measuredAngle <= 0) continue
+    const measured = (test.programmedAngle - test.measuredAngle) / test.programmedAngle
+    const modelled = springbackRatio(test.radius, test.outerDiameter, test.wallThickness, uncalibrated)
+    numerator += measured * modelled
+    denominator += modelled * modelled
+  }
+
+  return denominator > 0 ? Math.max(0, numerator / denominator) : null
+}
+
+/**
+ * Calibrated coefficients per material id, persisted in the browser
+ */
+export function loadSpringbackCalibration(): Record<string, number> {
+  if (typeof window === 'undefined') return {}
+  try {
+    return JSON.parse(localStorage.getItem(CALIBRATION_STORAGE_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+export function saveSpringbackCalibration(materialId: string, coefficient: number | null) {
+  const calibration = loadSpringbackCalibration()
+  if (coefficient === null) {
+    delete calibration[materialId]
+  } else {
+    calibration[materialId] = coefficient
+  }
+  localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(calibration))
+}
@@ -0,0 +1,156 @@
+import type { NestedStick, NestingPiece, NestingPlan } from '@/lib/types/nesting'
+import { DEFAULT_CUT_ALLOWANCES } from './cutLength'
+
+const MM_PER_FOOT = 304.8
+
+/**
+ * Stick lengths we buy and what each stick loses to sawing, in millimeters
+ */
+export interface NestingOptions {
+  stockLengths: number[]
+  kerf: number // saw blade width lost per cut
+  dropAllowance: number // mill end squared off each stick before the first cut
+  minRemnant: number // shorter remnants are scrapped
+}
+
+export const DEFAULT_NESTING_OPTIONS: NestingOptions = {
+  stockLengths: [20 * MM_PER_FOOT, 24 * MM_PER_FOOT],
+  kerf: DEFAULT_CUT_ALLOWANCES.kerf,
+  dropAllowance: 25,
+  minRemnant: 300
+}
+
+interface Blank {
+  partName: string
+  length: number
+}
+
+/**
+ * Pack blanks, longest first, into the first stick with room; each blank takes its length plus one kerf
+ */
+function firstFitDecreasing(blanks: Blank[], capacity: number, kerf: number): Blank[][] {
+  const bins: Array<{ free: number; blanks: Blank[] }> = []
+  for (const blank of blanks) {
+    const needed = blank.length + kerf
+    const bin = bins.find(candidate => candidate.free >= needed)
+    if (bin) {
+      bin.free -= needed
+      bin.blanks.push(blank)
+    } else {
+      bins.push({ free: capacity - needed, blanks: [blank] })
+    }
+  }
+  return bins.map(bin => bin.blanks)
+}
+
+function toStick(blanks: Blank[], stockLength: number, options: NestingOptions): NestedStick {
+  const usedLength = options.dropAllowance + blanks.reduce((sum, blank) => sum + blank.length + options.kerf, 0)
+  const remnant = Math.max(0, stockLength - usedLength)
+  return {
+    stockLength,
+    cuts: blanks.map(blank => ({ partName: blank.partName, length: blank.length })),
+    usedLength,
+    remnant,
+    scrap: remnant < options.minRemnant
+  }
+}
+
+/**
+ * Candidate plans for one group: every stock length on its own, and a mixed plan that packs
+ * into the longest sticks and buys each one in the shortest length its blanks fit
+ */
+function candidatePlans(blanks: Blank[], options: NestingOptions): NestedStick[][] {
+  const lengths = [...options.stockLengths].sort((a, b) => a - b)
+  const usable = (length: number) => length - options.dropAllowance
+
+  const plans = lengths
+    .filter(length => blanks.every(blank => blank.length + options.kerf <= usable(length)))
+    .map(length => firstFitDecreasing(blanks, usable(length), options.kerf).map(bin => toStick(bin, length, options)))
+
+  const longest = lengths[lengths.length - 1]
+  if (lengths.length > 1 && blanks.every(blank => blank.length + options.kerf <= usable(longest))) {
+    plans.push(
+      firstFitDecreasing(blanks, usable(longest), options.kerf).map(bin => {
+        const used = bin.reduce((sum, blank) => sum + blank.length + options.kerf, 0)
+        return toStick(bin, lengths.find(length => usable(length) >= used) ?? longest, options)
+      })
+    )
+  }
+  return plans
+}
+
+/**
+ * Nest the blanks of one material and size into purchasable sticks with the least stock bought
+ */
+export function nestStock(
+  groupKey: string,
+  label: string,
+  pieces: NestingPiece[],
+  options: NestingOptions = DEFAULT_NESTING_OPTIONS
+): NestingPlan {
+  const longestUsable = Math.max(...options.stockLengths) - options.dropAllowance
+  const oversized = pieces.filter(piece => piece.length + options.kerf > longestUsable)
+  const blanks = pieces
+    .filter(piece => !oversized.includes(piece))
+    .flatMap(piece => Array.from({ length: piece.quantity }, () => ({ partName: piece.partName, length: piece.length })))
+    .sort((a, b) => b.length - a.length)
+
+  const plans = blanks.length > 0 ? candidatePlans(blanks, options) : [[]]
+  const purchased = (sticks: NestedStick[]) => sticks.reduce((sum, stick) => sum + stick.stockLength, 0)
+  const sticks = plans.reduce((best, plan) =>
+    purchased(plan) < purchased(best) || (purchased(plan) === purchased(best) && plan.length < best.length) ? plan : best
+  )
+
+  const purchasedLength = purchased(sticks)
+  const partsLength = blanks.reduce((sum, blank) => sum + blank.length, 0)
+  return {
+    groupKey,
+    label,
+    sticks,
+    purchasedLength,
+    partsLength,
+    yield: purchasedLength > 0 ? partsLength / purchasedLength : 0,
+    remnants: sticks.filter(stick => !stick.scrap).map(stick => stick.remnant),
+    oversized
+  }
+}
+
+/**
+ * Summary of the sticks to buy, e.g. '3 × 20 ft, 1 × 24 ft'
+ */
+export function describeSticks(plan: NestingPlan): string {
+  const counts = new Map<number, number>()
+  for (const stick of plan.sticks) {
+    counts.set(stick.stockLength, (counts.get(stick.stockLength) ?? 0) + 1)
+  }
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([length, count]) => `${count} × ${(length / MM_PER_FOOT).toFixed(0)} ft`)
+    .join(', ')
+}
+
+/**
+ * Saw cut list for the shop as CSV: one row per cut, in saw order for each stick
+ */
+export function formatCutList(plans: NestingPlan[]): string {
+  const rows = [['Material', 'Stick', 'Stock length (mm)', 'Cut', 'Part', 'Cut length (mm)', 'Remnant (mm)']]
+  for (const plan of plans) {
+    plan.sticks.forEach((stick, stickIndex) => {
+      stick.cuts.forEach((cut, cutIndex) => {
+        rows.push([
+          plan.label,
+          String(stickIndex + 1),
+          stick.stockLength.toFixed(1),
+          String(cutIndex + 1),
+          cut.partName,
+          cut.length.toFixed(1),
+          cutIndex === stick.cuts.length - 1 ? `${stick.remnant.toFixed(1)}${stick.scrap ? ' (scrap)' : ''}` : ''
+        ])
+      })
+    })
+    for (const piece of plan.oversized) {
+      rows.push([plan.label, '—', '—', '—', piece.partName, piece.length.toFixed(1), `oversized × ${piece.quantity}`])
+    }
+  }
+  return rows.map(row => row.map(value => (/[",]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)).join(',')).join('\n')
+}
@@ -0,0 +1,218 @@
+import type { BendTable } from '@/lib/types/geometry'
+import type { BendToolingMatch, CustomDie, ToolingItem, ToolingKind } from '@/lib/types/tooling'
+import { needsMandrel } from './dfm'
+
+const CATALOG_STORAGE_KEY = 'tubebend_tooling_catalog'
+const MM_PER_INCH = 25.4
+
+const OD_FIT = 0.25 // mm either side of the OD a die is cut for
+const CLR_FIT = 0.05 // share of the die CLR a measured radius may deviate and still use the die
+
+export const TOOLING_KIND_LABELS: Record<ToolingKind, string> = {
+  'bend-die': 'Bend die',
+  'clamp-die': 'Clamp die',
+  'pressure-die': 'Pressure die',
+  'wiper-die': 'Wiper die',
+  'mandrel': 'Mandrel'
+}
+
+/**
+ * Size in inches for tool names, e.g. 1.5"
+ */
+export function formatToolSize(mm: number): string {
+  return `${parseFloat((mm / MM_PER_INCH).toFixed(3))}"`
+}
+
+/**
+ * Catalog entry for a tool cut for an OD and, for bend and wiper dies, a CLR or, for mandrels,
+ * a wall range. Sizes in inches.
+ */
+export function createToolingItem(
+  kind: ToolingKind,
+  od: number,
+  size: { clr?: number; minWall?: number; maxWall?: number } = {}
+): ToolingItem {
+  const { clr, minWall, maxWall } = size
+  const radiusCut = kind === 'bend-die' || kind === 'wiper-die'
+  const item: ToolingItem = {
+    id: [kind, od, radiusCut ? clr : undefined, kind === 'mandrel' ? `${minWall}-${maxWall}` : undefined].filter(Boolean).join('-'),
+    kind,
+    name: `${TOOLING_KIND_LABELS[kind]} ${od}" OD`,
+    outerDiameter: { min: od * MM_PER_INCH - OD_FIT, max: od * MM_PER_INCH + OD_FIT },
+    available: true
+  }
+  if (radiusCut && clr) {
+    item.name += ` × ${clr}" CLR`
+    item.clr = { min: clr * MM_PER_INCH, max: clr * MM_PER_INCH }
+  }
+  if (kind === 'mandrel' && minWall && maxWall) {
+    item.name += `, ${minWall}"–${maxWall}" wall`
+    item.wallThickness = { min: minWall * MM_PER_INCH, max: maxWall * MM_PER_INCH }
+  }
+  return item
+}
+
+// Dies the shop owns, by OD and CLR in inches (these would typically come from a database)
+const OWNED_BEND_DIES: Array<[number, number[]]> = [
+  [0.5, [0.75, 1, 1.5]],
+  [0.75, [1.125, 1.5, 2.25]],
+  [1, [1.5, 2, 3]],
+  [1.25, [2, 2.5]],
+  [1.5, [2.25, 3, 4.5]],
+  [2, [3, 4]]
+]
+const OWNED_WIPER_DIES: Array<[number, number[]]> = [
+  [1, [1.5, 2]],
+  [1.5, [2.25, 3]],
+  [2, [3]]
+]
+
+export const DEFAULT_TOOLING_CATALOG: ToolingItem[] = [
+  ...OWNED_BEND_DIES.flatMap(([od, clrs]) => clrs.map(clr => createToolingItem('bend-die', od, { clr }))),
+  ...OWNED_BEND_DIES.map(([od]) => createToolingItem('clamp-die', od)),
+  ...OWNED_BEND_DIES.map(([od]) => createToolingItem('pressure-die', od)),
+  ...OWNED_WIPER_DIES.flatMap(([od, clrs]) => clrs.map(clr => createToolingItem('wiper-die', od, { clr }))),
+  createToolingItem('mandrel', 1, { minWall: 0.035, maxWall: 0.083 }),
+  createToolingItem('mandrel', 1.5, { minWall: 0.049, maxWall: 0.12 }),
+  createToolingItem('mandrel', 2, { minWall: 0.065, maxWall: 0.12 })
+]
+
+/**
+ * The shop's tooling catalog, persisted in the browser; the default catalog until an admin edits it
+ */
+export function loadToolingCatalog(): ToolingItem[] {
+  if (typeof window === 'undefined') return DEFAULT_TOOLING_CATALOG
+  try {
+    const saved = localStorage.getItem(CATALOG_STORAGE_KEY)
+    return saved ? JSON.parse(saved) : DEFAULT_TOOLING_CATALOG
+  } catch {
+    return DEFAULT_TOOLING_CATALOG
+  }
+}
+
+export function saveToolingCatalog(catalog: ToolingItem[] | null) {
+  if (catalog === null) {
+    localStorage.removeItem(CATALOG_STORAGE_KEY)
+  } else {
+    localStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify(catalog))
+  }
+}
+
+const within = (value: number, range: { min: number; max: number }, fit = 0) =>
+  value >= range.min - fit && value <= range.max + fit
+
+const clrCenter = (item: ToolingItem) => item.clr ? (item.clr.min + item.clr.max) / 2 : 0
+
+/**
+ * How far a measured radius may be from a die CLR and still run on the die: CLR_FIT of the CLR,
+ * or the arc fit residual when the measurement is less certain than that
+ */
+const clrFit = (clr: number, residual = 0) => Math.max(clr * CLR_FIT, residual)
+
+/**
+ * Available tool of a kind for the tube; for radius-cut tools the one whose CLR is closest to the
+ * measured radius, within the radius's fit
+ */
+function findTool(
+  catalog: ToolingItem[],
+  kind: ToolingKind,
+  outerDiameter: number,
+  bend: { radius: number; residual?: number },
+  wallThickness: number
+): ToolingItem | undefined {
+  return catalog
+    .filter(item =>
+      item.available &&
+      item.kind === kind &&
+      within(outerDiameter, item.outerDiameter) &&
+      (!item.clr || within(bend.radius, item.clr, clrFit(clrCenter(item), bend.residual))) &&
+      (!item.wallThickness || within(wallThickness, item.wallThickness))
+    )
+    .sort((a, b) => Math.abs(clrCenter(a) - bend.radius) - Math.abs(clrCenter(b) - bend.radius))[0]
+}
+
+/**
+ * Owned bend die for the same OD with the CLR closest to the requested one
+ */
+function nearestBendDie(catalog: ToolingItem[], outerDiameter: number, radius: number): ToolingItem | undefined {
+  return catalog
+    .filter(item => item.available && item.kind === 'bend-die' && item.clr && within(outerDiameter, item.outerDiameter))
+    .sort((a, b) => Math.abs(clrCenter(a) - radius) - Math.abs(clrCenter(b) - radius))[0]
+}
+
+export interface ToolingInput {
+  partName?: string
+  bendTable?: BendTable
+  outerDiameter: number // mm
+  wallThickness: number // mm
+  materialId?: string
+}
+
+/**
+ * Match every bend of a tube to the catalog: bend, clamp and pressure dies always, wiper die and
+ * mandrel when the bend needs one. Tools the catalog lacks become custom dies, one per size,
+ * with the closest owned CLR suggested for custom bend dies. Costs are left to the quote engine.
+ */
+export function matchTooling(
+  input: ToolingInput,
+  catalog: ToolingItem[] = loadToolingCatalog()
+): { matches: BendToolingMatch[]; customDies: CustomDie[] } {
+  const { partName, bendTable, outerDiameter, wallThickness, materialId } = input
+  const matches: BendToolingMatch[] = []
+  const customDies: CustomDie[] = []
+  if (!bendTable || outerDiameter <= 0) return { matches, customDies }
+
+  const requireCustomDie = (kind: ToolingKind, bendIndex: number, radius: number) => {
+    const sized = kind === 'bend-die' || kind === 'wiper-die'
+    const existing = customDies.find(die =>
+      die.kind === kind &&
+      (!sized || Math.abs((die.clr ?? 0) - radius) <= clrFit(die.clr ?? 0)) &&
+      (kind !== 'mandrel' || die.wallThickness === wallThickness)
+    )
+    if (existing) {
+      existing.bends.push(bendIndex)
+      return
+    }
+
+    const size = `${formatToolSize(outerDiameter)} OD` +
+      (sized ? ` × ${formatToolSize(radius)} CLR` : '') +
+      (kind === 'mandrel' ? `, ${formatToolSize(wallThickness)} wall` : '')
+    const suggested = kind === 'bend-die' ? nearestBendDie(catalog, outerDiameter, radius) : undefined
+    customDies.push({
+      key: [kind, outerDiameter.toFixed(1), sized ? radius.toFixed(1) : '', kind === 'mandrel' ? wallThickness.toFixed(2) : ''].join('|'),
+      kind,
+      name: `Custom ${TOOLING_KIND_LABELS[kind].toLowerCase()} ${size}`,
+      outerDiameter,
+      clr: sized ? radius : undefined,
+      wallThickness: kind === 'mandrel' ? wallThickness : undefined,
+      partName,
+      bends: [bendIndex],
+      cost: 0,
+      suggestion: suggested?.clr
+        ? { toolId: suggested.id, toolName: suggested.name, clr: clrCenter(suggested) }
+        : undefined
+    })
+  }
+
+  for (const bend of bendTable.bends) {
+    const radius = bend.radius
+    const mandrelNeeded = radius !== undefined && needsMandrel(radius, outerDiameter, wallThickness, materialId)
+    const kinds: ToolingKind[] = radius === undefined
+      ? ['clamp-die', 'pressure-die'] // radius-cut tools cannot be matched without a measured CLR
+      : ['bend-die', 'clamp-die', 'pressure-die', ...(mandrelNeeded ? ['wiper-die', 'mandrel'] as ToolingKind[] : [])]
+
+    const match: BendToolingMatch = { partName, bendIndex: bend.index, radius, needsMandrel: mandrelNeeded, tools: {}, missing: [] }
+    for (const kind of kinds) {
+      const tool = findTool(catalog, kind, outerDiameter, { radius: radius ?? 0, residual: bend.radiusResidual }, wallThickness)
+      if (tool) {
+        match.tools[kind] = tool.id
+      } else {
+        match.missing.push(kind)
+        requireCustomDie(kind, bend.index, radius ?? 0)
+      }
+    }
+    matches.push(match)
+  }
+
+  return { matches, customDies }
+}
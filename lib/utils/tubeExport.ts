@@ -0,0 +1,292 @@
+import { BufferAttribute, BufferGeometry, Mesh, MeshStandardMaterial, Vector3 } from 'three'
+import type { BendTable } from '@/lib/types/geometry'
+import { filletPolyline } from './wireframe'
+
+export type TubeModelFormat = 'step' | 'glb' | 'gltf'
+
+/**
+ * A round tube swept along the centerline of a bend table. Lengths in millimeters.
+ */
+export interface TubeModelInput {
+  name: string
+  table: BendTable
+  outerDiameter: number
+  wallThickness: number // 0 or at least half the OD for solid bar
+  color?: string // glTF base color
+}
+
+export interface TubeModelFile {
+  fileName: string
+  mimeType: string
+  content: string | ArrayBuffer
+}
+
+export const TUBE_MODEL_FORMATS: Record<TubeModelFormat, { label: string; extension: string; mimeType: string }> = {
+  step: { label: 'STEP AP214 solid', extension: 'step', mimeType: 'model/step' },
+  glb: { label: 'glTF binary (GLB)', extension: 'glb', mimeType: 'model/gltf-binary' },
+  gltf: { label: 'glTF (JSON)', extension: 'gltf', mimeType: 'model/gltf+json' }
+}
+
+const DEFAULT_CLR_FACTOR = 2 // CLR as a multiple of OD for bends whose radius is unknown
+const RADIAL_SEGMENTS = 32
+const MM_PER_METER = 1000
+
+/**
+ * One piece of the swept centerline: a straight or a bend arc about `axis` through `center`
+ */
+type SweepSegment =
+  | { kind: 'line'; start: Vector3; end: Vector3 }
+  | { kind: 'arc'; start: Vector3; end: Vector3; center: Vector3; axis: Vector3; radius: number; points: Vector3[] }
+
+function sweepSegments(input: TubeModelInput): SweepSegment[] {
+  const points = input.table.points.map(p => new Vector3(p.x, p.y, p.z))
+  const radii = input.table.bends.map(bend => bend.radius || input.outerDiameter * DEFAULT_CLR_FACTOR)
+
+  return filletPolyline(points, radii)
+    .filter(curve => curve.points[0].distanceTo(curve.points[curve.points.length - 1]) > 1e-6)
+    .map((curve): SweepSegment => {
+      const start = curve.points[0]
+      const end = curve.points[curve.points.length - 1]
+      if (!curve.arc) return { kind: 'line', start, end }
+      const { center, radius } = curve.arc
+      const axis = start.clone().sub(center).cross(curve.points[1].clone().sub(center)).normalize()
+      return { kind: 'arc', start, end, center, axis, radius, points: curve.points }
+    })
+}
+
+function startTangent(segment: SweepSegment): Vector3 {
+  return segment.kind === 'line'
+    ? segment.end.clone().sub(segment.start).normalize()
+    : segment.axis.clone().cross(segment.start.clone().sub(segment.center)).normalize()
+}
+
+function endTangent(segment: SweepSegment): Vector3 {
+  return segment.kind === 'line'
+    ? startTangent(segment)
+    : segment.axis.clone().cross(segment.end.clone().sub(segment.center)).normalize()
+}
+
+function perpendicular(direction: Vector3): Vector3 {
+  const helper = Math.abs(direction.x) < 0.9 ? new Vector3(1, 0, 0) : new Vector3(0, 1, 0)
+  return helper.cross(direction).normalize()
+}
+
+function real(value: number): string {
+  return (Math.abs(value) < 5e-7 ? 0 : value).toFixed(6).replace(/0+$/, '')
+}
+
+/**
+ * Exact B-rep of the tube as STEP AP214: cylindrical faces on the straights, toroidal faces on
+ * the bends and planar annular end caps. Every joint between segments is one circular edge
+ * shared by the faces on both sides, so the shell is closed.
+ */
+function writeStep(input: TubeModelInput, segments: SweepSegment[], fileName: string): string {
+  const entities: string[] = []
+  const add = (entity: string) => {
+    entities.push(entity)
+    return `#${entities.length}`
+  }
+  const vector = (v: Vector3) => `(${real(v.x)},${real(v.y)},${real(v.z)})`
+  const point = (v: Vector3) => add(`CARTESIAN_POINT('',${vector(v)})`)
+  const direction = (v: Vector3) => add(`DIRECTION('',${vector(v)})`)
+  const placement = (origin: Vector3, axis: Vector3, reference: Vector3) =>
+    add(`AXIS2_PLACEMENT_3D('',${point(origin)},${direction(axis)},${direction(reference)})`)
+
+  const outerRadius = input.outerDiameter / 2
+  const innerRadius = input.wallThickness > 0 && input.wallThickness < outerRadius ? outerRadius - input.wallThickness : 0
+  const radii = innerRadius > 0 ? [outerRadius, innerRadius] : [outerRadius]
+
+  // Cross-section circles at the tube ends and at every joint, oriented along the path
+  const joints = [
+    { center: segments[0].start, tangent: startTangent(segments[0]) },
+    ...segments.map(segment => ({ center: segment.end, tangent: endTangent(segment) }))
+  ].map(joint => {
+    const reference = perpendicular(joint.tangent)
+    const edges = radii.map(radius => {
+      const vertex = add(`VERTEX_POINT('',${point(joint.center.clone().addScaledVector(reference, radius))})`)
+      const circle = add(`CIRCLE('',${placement(joint.center, joint.tangent, reference)},${real(radius)})`)
+      return add(`EDGE_CURVE('',${vertex},${vertex},${circle},.T.)`)
+    })
+    return { ...joint, reference, edges }
+  })
+
+  const face = (bounds: Array<{ edge: string; forward: boolean; outer?: boolean }>, surface: string, sameSense: boolean) => {
+    const faceBounds = bounds.map(bound => {
+      const orientedEdge = add(`ORIENTED_EDGE('',*,*,${bound.edge},${bound.forward ? '.T.' : '.F.'})`)
+      const loop = add(`EDGE_LOOP('',(${orientedEdge}))`)
+      return add(`${bound.outer ? 'FACE_OUTER_BOUND' : 'FACE_BOUND'}('',${loop},.T.)`)
+    })
+    return add(`ADVANCED_FACE('',(${faceBounds.join(',')}),${surface},${sameSense ? '.T.' : '.F.'})`)
+  }
+
+  const faces: string[] = []
+  segments.forEach((segment, i) => {
+    const from = joints[i]
+    const to = joints[i + 1]
+    radii.forEach((radius, r) => {
+      const surface = segment.kind === 'line'
+        ? add(`CYLINDRICAL_SURFACE('',${placement(segment.start, from.tangent, from.reference)},${real(radius)})`)
+        : add(`TOROIDAL_SURFACE('',${placement(segment.center, segment.axis, segment.start.clone().sub(segment.center).normalize())},${real(segment.radius)},${real(radius)})`)
+      // The bore faces the tube axis, so its loops run the other way round
+      const outer = r === 0
+      faces.push(face([{ edge: from.edges[r], forward: outer }, { edge: to.edges[r], forward: !outer }], surface, outer))
+    })
+  })
+
+  const first = joints[0]
+  const last = joints[joints.length - 1]
+  const cap = (joint: typeof first, normal: Vector3, forward: boolean) => face(
+    radii.map((_, r) => ({ edge: joint.edges[r], forward: r === 0 ? forward : !forward, outer: r === 0 })),
+    add(`PLANE('',${placement(joint.center, normal, joint.reference)})`),
+    true
+  )
+  faces.push(cap(first, first.tangent.clone().negate(), false), cap(last, last.tangent, true))
+
+  const shell = add(`CLOSED_SHELL('',(${faces.join(',')}))`)
+  const solid = add(`MANIFOLD_SOLID_BREP('${stepString(input.name)}',${shell})`)
+  const origin = placement(new Vector3(), new Vector3(0, 0, 1), new Vector3(1, 0, 0))
+
+  // AP214 product structure, millimeter units and the shape representation
+  const name = stepString(input.name)
+  const application = add(`APPLICATION_CONTEXT('core data for automotive mechanical design processes')`)
+  add(`APPLICATION_PROTOCOL_DEFINITION('international standard','automotive_design',2000,${application})`)
+  const product = add(`PRODUCT('${name}','${name}','',(${add(`PRODUCT_CONTEXT('',${application},'mechanical')`)}))`)
+  add(`PRODUCT_RELATED_PRODUCT_CATEGORY('part',$,(${product}))`)
+  const formation = add(`PRODUCT_DEFINITION_FORMATION('','',${product})`)
+  const definition = add(`PRODUCT_DEFINITION('design','',${formation},${add(`PRODUCT_DEFINITION_CONTEXT('part definition',${application},'design')`)})`)
+  const shape = add(`PRODUCT_DEFINITION_SHAPE('','',${definition})`)
+  const length = add('(LENGTH_UNIT() NAMED_UNIT(*) SI_UNIT(.MILLI.,.METRE.))')
+  const angle = add('(NAMED_UNIT(*) PLANE_ANGLE_UNIT() SI_UNIT($,.RADIAN.))')
+  const solidAngle = add('(NAMED_UNIT(*) SI_UNIT($,.STERADIAN.) SOLID_ANGLE_UNIT())')
+  const uncertainty = add(`UNCERTAINTY_MEASURE_WITH_UNIT(LENGTH_MEASURE(1.E-05),${length},'distance_accuracy_value','confusion accuracy')`)
+  const context = add(
+    `(GEOMETRIC_REPRESENTATION_CONTEXT(3) GLOBAL_UNCERTAINTY_ASSIGNED_CONTEXT((${uncertainty})) GLOBAL_UNIT_ASSIGNED_CONTEXT((${length},${angle},${solidAngle})) REPRESENTATION_CONTEXT('',''))`
+  )
+  const representation = add(`ADVANCED_BREP_SHAPE_REPRESENTATION('${name}',(${solid},${origin}),${context})`)
+  add(`SHAPE_DEFINITION_REPRESENTATION(${shape},${representation})`)
+
+  const timestamp = new Date().toISOString().slice(0, 19)
+  return [
+    'ISO-10303-21;',
+    'HEADER;',
+    `FILE_DESCRIPTION(('Swept tube solid'),'2;1');`,
+    `FILE_NAME('${stepString(fileName)}','${timestamp}',(''),(''),'TubeBend','TubeBend','');`,
+    `FILE_SCHEMA(('AUTOMOTIVE_DESIGN { 1 0 10303 214 1 1 1 1 }'));`,
+    'ENDSEC;',
+    'DATA;',
+    ...entities.map((entity, i) => `#${i + 1}=${entity};`),
+    'ENDSEC;',
+    'END-ISO-10303-21;'
+  ].join('\n') + '\n'
+}
+
+function stepString(text: string): string {
+  return text.replace(/[^\x20-\x7e]/g, '_').replace(/'/g, "''")
+}
+
+/**
+ * Closed triangle mesh of the tube in meters: outer skin, bore and end caps, with rings
+ * carried along the path by parallel transport so the wall does not twist
+ */
+function buildTubeMesh(input: TubeModelInput, segments: SweepSegment[]): BufferGeometry {
+  const path: Vector3[] = [segments[0].start]
+  for (const segment of segments) {
+    const points = segment.kind === 'line' ? [segment.end] : segment.points.slice(1)
+    path.push(...points)
+  }
+
+  const tangents = path.map((point, i) => {
+    const previous = path[Math.max(0, i - 1)]
+    const next = path[Math.min(path.length - 1, i + 1)]
+    return next.clone().sub(previous).normalize()
+  })
+  const normals: Vector3[] = [perpendicular(tangents[0])]
+  for (let i = 1; i < path.length; i++) {
+    const normal = normals[i - 1].clone().addScaledVector(tangents[i], -normals[i - 1].dot(tangents[i])).normalize()
+    normals.push(normal)
+  }
+
+  const outerRadius = input.outerDiameter / 2
+  const innerRadius = input.wallThickness > 0 && input.wallThickness < outerRadius ? outerRadius - input.wallThickness : 0
+  const positions: number[] = []
+  const vertexNormals: number[] = []
+  const indices: number[] = []
+
+  const ring = (i: number, radius: number, normal?: Vector3) => {
+    const base = positions.length / 3
+    const binormal = tangents[i].clone().cross(normals[i])
+    for (let j = 0; j < RADIAL_SEGMENTS; j++) {
+      const angle = (j / RADIAL_SEGMENTS) * 2 * Math.PI
+      const radial = normals[i].clone().multiplyScalar(Math.cos(angle)).addScaledVector(binormal, Math.sin(angle))
+      const position = path[i].clone().addScaledVector(radial, radius).divideScalar(MM_PER_METER)
+      const n = normal ?? (radius === innerRadius ? radial.clone().negate() : radial)
+      positions.push(position.x, position.y, position.z)
+      vertexNormals.push(n.x, n.y, n.z)
+    }
+    return base
+  }
+  const quad = (a: number, b: number, c: number, d: number) => indices.push(a, c, b, c, d, b)
+
+  // Skin and bore: a, c on one ring, b, d on the next; the bore is wound inward
+  for (const radius of innerRadius > 0 ? [outerRadius, innerRadius] : [outerRadius]) {
+    const rings = path.map((_, i) => ring(i, radius))
+    for (let i = 0; i < path.length - 1; i++) {
+      for (let j = 0; j < RADIAL_SEGMENTS; j++) {
+        const k = (j + 1) % RADIAL_SEGMENTS
+        if (radius === outerRadius) quad(rings[i] + j, rings[i + 1] + j, rings[i] + k, rings[i + 1] + k)
+        else quad(rings[i] + j, rings[i] + k, rings[i + 1] + j, rings[i + 1] + k)
+      }
+    }
+  }
+
+  // Flat caps between the outer and inner circles (to the center for solid bar)
+  const caps: Array<{ index: number; normal: Vector3; flip: boolean }> = [
+    { index: 0, normal: tangents[0].clone().negate(), flip: true },
+    { index: path.length - 1, normal: tangents[path.length - 1].clone(), flip: false }
+  ]
+  for (const capInfo of caps) {
+    const outer = ring(capInfo.index, outerRadius, capInfo.normal)
+    const inner = ring(capInfo.index, innerRadius, capInfo.normal)
+    for (let j = 0; j < RADIAL_SEGMENTS; j++) {
+      const k = (j + 1) % RADIAL_SEGMENTS
+      if (capInfo.flip) indices.push(outer + j, inner + j, outer + k, outer + k, inner + j, inner + k)
+      else indices.push(outer + j, outer + k, inner + j, outer + k, inner + k, inner + j)
+    }
+  }
+
+  const geometry = new BufferGeometry()
+  geometry.setAttribute('position', new BufferAttribute(new Float32Array(positions), 3))
+  geometry.setAttribute('normal', new BufferAttribute(new Float32Array(vertexNormals), 3))
+  geometry.setIndex(indices)
+  return geometry
+}
+
+/**
+ * Export the clean swept tube of a bend table as a STEP solid or a glTF / GLB model.
+ * Bends without a measured radius are swept at 2 × OD.
+ */
+export async function exportTubeModel(input: TubeModelInput, format: TubeModelFormat): Promise<TubeModelFile> {
+  const segments = sweepSegments(input)
+  if (segments.length === 0 || input.outerDiameter <= 0) {
+    throw new Error('No centerline to export')
+  }
+
+  const baseName = input.name.trim().replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'tube'
+  const { extension, mimeType } = TUBE_MODEL_FORMATS[format]
+  const fileName = `${baseName}.${extension}`
+
+  if (format === 'step') {
+    const content = writeStep(input, segments, fileName)
+    return { fileName, mimeType, content }
+  }
+
+  const { GLTFExporter } = await import('three/examples/jsm/exporters/GLTFExporter.js')
+  const mesh = new Mesh(
+    buildTubeMesh(input, segments),
+    new MeshStandardMaterial({ color: input.color ?? '#8c8c8c', metalness: 0.8, roughness: 0.35 })
+  )
+  mesh.name = input.name
+  const result = await new GLTFExporter().parseAsync(mesh, { binary: format === 'glb' })
+  const content = result instanceof ArrayBuffer ? result : JSON.stringify(result)
+  return { fileName, mimeType, content }
+}
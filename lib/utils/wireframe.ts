@@ -0,0 +1,409 @@
+import { BufferGeometry, CurvePath, LineCurve3, TubeGeometry, Vector3 } from 'three'
+import { evaluateNurbs } from './dxfEntities'
+
+/**
+ * A tessellated wire curve. Circular arcs keep their exact center, radius and (unsigned) sweep
+ * in radians; straight lines have exactly two points.
+ */
+export interface WireCurve {
+  points: Vector3[]
+  arc?: { center: Vector3; radius: number; sweep: number }
+}
+
+const JOIN_TOLERANCE = 1e-4 // fraction of the drawing size within which curve ends are joined
+const MAX_EXACT_SWEEP = (179 * Math.PI) / 180 // tangent length of a bend is unbounded at 180°
+const ARC_STEP = Math.PI / 36
+const NURBS_SAMPLES_PER_SPAN = 12
+
+function isLine(curve: WireCurve): boolean {
+  return !curve.arc && curve.points.length === 2
+}
+
+export function curveLength(curve: WireCurve): number {
+  if (curve.arc) return curve.arc.radius * curve.arc.sweep
+  return curve.points.reduce((sum, point, i) => (i === 0 ? 0 : sum + point.distanceTo(curve.points[i - 1])), 0)
+}
+
+function reverseCurve(curve: WireCurve): WireCurve {
+  return { points: [...curve.points].reverse(), arc: curve.arc }
+}
+
+/**
+ * Order and orient curves into one open chain from end to end. Returns null when the curves
+ * branch, form a closed loop or are not all connected, i.e. when they are not a single tube path.
+ */
+export function chainCurves(curves: WireCurve[]): WireCurve[] | null {
+  const usable = curves.filter(curve => curve.points.length >= 2 && curveLength(curve) > 0)
+  if (usable.length === 0) return null
+
+  const all = usable.flatMap(curve => curve.points)
+  const min = all.reduce((acc, p) => acc.min(p), all[0].clone())
+  const max = all.reduce((acc, p) => acc.max(p), all[0].clone())
+  const tolerance = Math.max(min.distanceTo(max) * JOIN_TOLERANCE, 1e-9)
+
+  // Cluster curve ends into shared nodes
+  const nodes: Vector3[] = []
+  const nodeOf = (point: Vector3) => {
+    let index = nodes.findIndex(node => node.distanceTo(point) <= tolerance)
+    if (index < 0) {
+      index = nodes.length
+      nodes.push(point)
+    }
+    return index
+  }
+  const ends = usable.map(curve => [nodeOf(curve.points[0]), nodeOf(curve.points[curve.points.length - 1])])
+
+  const degree = new Array(nodes.length).fill(0)
+  ends.forEach(([a, b]) => { degree[a]++; degree[b]++ })
+  if (degree.some(d => d > 2)) return null
+
+  let node = degree.findIndex(d => d === 1)
+  if (node < 0) return null // closed loop
+
+  const used = new Array(usable.length).fill(false)
+  const chain: WireCurve[] = []
+  for (;;) {
+    const next = ends.findIndex(([a, b], i) => !used[i] && (a === node || b === node))
+    if (next < 0) break
+    used[next] = true
+    const forward = ends[next][0] === node
+    chain.push(forward ? usable[next] : reverseCurve(usable[next]))
+    node = forward ? ends[next][1] : ends[next][0]
+  }
+
+  return chain.length === usable.length ? chain : null
+}
+
+/**
+ * Polyline through a chain, with the shared joint points removed
+ */
+export function chainPoints(chain: WireCurve[]): Vector3[] {
+  const points: Vector3[] = []
+  chain.forEach((curve, i) => points.push(...(i === 0 ? curve.points : curve.points.slice(1))))
+  return points
+}
+
+/**
+ * Unit tangents at the start and end of a curve. Arc tangents come from the exact center.
+ */
+function curveTangents(curve: WireCurve): { start: Vector3; end: Vector3 } {
+  const points = curve.points
+  if (!curve.arc) {
+    return {
+      start: points[1].clone().sub(points[0]).normalize(),
+      end: points[points.length - 1].clone().sub(points[points.length - 2]).normalize()
+    }
+  }
+
+  const center = curve.arc.center
+  const fromCenter = (p: Vector3) => p.clone().sub(center)
+  const normal = fromCenter(points[0]).cross(fromCenter(points[1])).normalize()
+  return {
+    start: normal.clone().cross(fromCenter(points[0])).normalize(),
+    end: normal.clone().cross(fromCenter(points[points.length - 1])).normalize()
+  }
+}
+
+/**
+ * Exact intersection points (start, intersections..., end) and bend radii of a chain made of
+ * lines and circular arcs. Each arc is one bend whose intersection lies R·tan(A/2) along its start
+ * tangent; a sharp corner between curves is a bend of unknown radius (0). Returns null when the
+ * chain contains free-form curves or an arc that cannot be bent in one hit.
+ */
+export function chainIntersections(
+  chain: WireCurve[],
+  minBendAngle: number
+): { points: Vector3[]; radii: number[] } | null {
+  if (chain.some(curve => !curve.arc && !isLine(curve))) return null
+  if (chain.some(curve => curve.arc && curve.arc.sweep > MAX_EXACT_SWEEP)) return null
+
+  const minAngle = (minBendAngle * Math.PI) / 180
+  const points: Vector3[] = [chain[0].points[0].clone()]
+  const radii: number[] = []
+  let heading: Vector3 | null = null
+
+  for (const curve of chain) {
+    const tangents = curveTangents(curve)
+    const start = curve.points[0]
+
+    if (heading && heading.angleTo(tangents.start) > minAngle) {
+      points.push(start.clone())
+      radii.push(0)
+    }
+
+    if (curve.arc && curve.arc.sweep > minAngle) {
+      points.push(start.clone().addScaledVector(tangents.start, curve.arc.radius * Math.tan(curve.arc.sweep / 2)))
+      radii.push(curve.arc.radius)
+    }
+
+    heading = tangents.end
+  }
+
+  const last = chain[chain.length - 1].points
+  points.push(last[last.length - 1].clone())
+  return { points, radii }
+}
+
+/**
+ * Lines and bend arcs through XYZ intersection points (start, intersections..., end). Each
+ * intersection is rounded with its centerline radius; a radius of 0 leaves a sharp corner.
+ */
+export function filletPolyline(points: Vector3[], radii: number[]): WireCurve[] {
+  const curves: WireCurve[] = []
+  let from = points[0]
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const incoming = points[i].clone().sub(points[i - 1]).normalize()
+    const outgoing = points[i + 1].clone().sub(points[i]).normalize()
+    const angle = incoming.angleTo(outgoing)
+    const radius = radii[i - 1] ?? 0
+    if (radius <= 0 || angle < 1e-6) {
+      curves.push({ points: [from, points[i].clone()] })
+      from = points[i].clone()
+      continue
+    }
+
+    const tangent = radius * Math.tan(angle / 2)
+    const start = points[i].clone().addScaledVector(incoming, -tangent)
+    const end = points[i].clone().addScaledVector(outgoing, tangent)
+    const inward = outgoing.clone().addScaledVector(incoming, -incoming.dot(outgoing)).normalize()
+    const axis = incoming.clone().cross(outgoing).normalize()
+
+    if (start.distanceTo(from) > 0) curves.push({ points: [from, start] })
+    curves.push(arcBetween(start.clone().addScaledVector(inward, radius), axis, start, end, true))
+    from = end
+  }
+
+  const last = points[points.length - 1]
+  if (last.distanceTo(from) > 0) curves.push({ points: [from, last.clone()] })
+  return curves
+}
+
+/**
+ * Display solid for a centerline: a round tube of the given radius swept along the path
+ */
+export function sweepCenterline(points: Vector3[], radius: number): BufferGeometry {
+  const path = new CurvePath<Vector3>()
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].distanceTo(points[i - 1]) > 0) {
+      path.add(new LineCurve3(points[i - 1], points[i]))
+    }
+  }
+  const segments = Math.min(4000, Math.max(64, points.length * 4))
+  return new TubeGeometry(path, segments, radius, 24, false)
+}
+
+function arcBetween(center: Vector3, axis: Vector3, start: Vector3, end: Vector3, counterClockwise: boolean): WireCurve {
+  const from = start.clone().sub(center)
+  const to = end.clone().sub(center)
+  const radius = from.length()
+  let sweep = Math.atan2(axis.dot(from.clone().cross(to)), from.dot(to))
+  if (sweep <= 1e-9) sweep += 2 * Math.PI
+  if (!counterClockwise) sweep -= 2 * Math.PI
+
+  const segments = Math.max(2, Math.ceil(Math.abs(sweep) / ARC_STEP))
+  const points: Vector3[] = []
+  for (let i = 0; i <= segments; i++) {
+    points.push(center.clone().add(from.clone().applyAxisAngle(axis, (sweep * i) / segments)))
+  }
+  points[points.length - 1] = end.clone()
+  return { points, arc: { center: center.clone(), radius, sweep: Math.abs(sweep) } }
+}
+
+/**
+ * Split a parameter list at top-level commas
+ */
+function splitArguments(args: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let quoted = false
+  let current = ''
+  for (const char of args) {
+    if (char === "'") quoted = !quoted
+    if (!quoted && char === '(') depth++
+    if (!quoted && char === ')') depth--
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  parts.push(current.trim())
+  return parts
+}
+
+function unwrapList(value: string): string[] {
+  const inner = value.trim().replace(/^\(/, '').replace(/\)$/, '')
+  return inner ? splitArguments(inner) : []
+}
+
+/**
+ * Wire geometry of a STEP file without solids: EDGE_CURVE and TRIMMED_CURVE on LINE and CIRCLE,
+ * and POLYLINE. Other curve types are ignored.
+ */
+export function extractStepWireframe(text: string): WireCurve[] {
+  const entities = new Map<string, { type: string; args: string[] }>()
+  const pattern = /#(\d+)\s*=\s*([A-Z0-9_]+)\s*\(([\s\S]*?)\)\s*;/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    entities.set(`#${match[1]}`, { type: match[2], args: splitArguments(match[3]) })
+  }
+
+  const point = (ref: string): Vector3 | null => {
+    const entity = entities.get(ref.trim())
+    if (entity?.type === 'VERTEX_POINT') return point(entity.args[1])
+    if (entity?.type !== 'CARTESIAN_POINT') return null
+    const [x = 0, y = 0, z = 0] = unwrapList(entity.args[1]).map(Number)
+    return new Vector3(x, y, z)
+  }
+  const direction = (ref: string): Vector3 | null => {
+    const entity = entities.get(ref.trim())
+    if (entity?.type !== 'DIRECTION') return null
+    const [x = 0, y = 0, z = 0] = unwrapList(entity.args[1]).map(Number)
+    return new Vector3(x, y, z).normalize()
+  }
+
+  const boundedCurve = (curveRef: string, start: Vector3, end: Vector3, sense: boolean): WireCurve | null => {
+    const curve = entities.get(curveRef.trim())
+    if (!curve) return null
+    if (curve.type === 'LINE') return { points: sense ? [start, end] : [end, start] }
+    if (curve.type === 'CIRCLE') {
+      const placement = entities.get(curve.args[1].trim())
+      const center = placement && point(placement.args[1])
+      const axis = (placement && direction(placement.args[2])) || new Vector3(0, 0, 1)
+      return center ? arcBetween(center, axis, start, end, sense) : null
+    }
+    if (curve.type === 'POLYLINE') {
+      const points = unwrapList(curve.args[1]).map(point).filter((p): p is Vector3 => p !== null)
+      return points.length >= 2 ? { points } : null
+    }
+    return null
+  }
+
+  const referenced = new Set<string>()
+  const curves: WireCurve[] = []
+  for (const entity of entities.values()) {
+    if (entity.type === 'EDGE_CURVE') {
+      const start = point(entity.args[1])
+      const end = point(entity.args[2])
+      referenced.add(entity.args[3].trim())
+      const curve = start && end ? boundedCurve(entity.args[3], start, end, entity.args[4] !== '.F.') : null
+      if (curve) curves.push(curve)
+    } else if (entity.type === 'TRIMMED_CURVE') {
+      // Only trims given as points are supported
+      const start = unwrapList(entity.args[2]).map(point).find(p => p !== null)
+      const end = unwrapList(entity.args[3]).map(point).find(p => p !== null)
+      referenced.add(entity.args[1].trim())
+      const curve = start && end ? boundedCurve(entity.args[1], start, end, entity.args[4] !== '.F.') : null
+      if (curve) curves.push(curve)
+    }
+  }
+
+  for (const [id, entity] of entities) {
+    if (entity.type === 'POLYLINE' && !referenced.has(id)) {
+      const points = unwrapList(entity.args[1]).map(point).filter((p): p is Vector3 => p !== null)
+      if (points.length >= 2) curves.push({ points })
+    }
+  }
+
+  return curves
+}
+
+/**
+ * Wire geometry of an IGES file: lines (110), circular arcs (100), copious data / polylines (106)
+ * and rational B-splines (126), with transformation matrices (124) applied
+ */
+export function extractIgesWireframe(text: string): WireCurve[] {
+  const lines = text.split(/\r?\n/)
+  const directory: string[] = []
+  const parameters = new Map<number, string>()
+
+  for (const line of lines) {
+    const section = line[72]
+    if (section === 'D') {
+      directory.push(line)
+    } else if (section === 'P') {
+      const pointer = parseInt(line.slice(64, 72), 10)
+      parameters.set(pointer, (parameters.get(pointer) ?? '') + line.slice(0, 64))
+    }
+  }
+
+  const field = (line: string, index: number) => line.slice(index * 8, index * 8 + 8).trim()
+  // Parameter data is looked up by the DE pointer in columns 65-72 of each P line
+  const values = (de: number) =>
+    (parameters.get(de) ?? '').split(';')[0].split(',').map(value => parseFloat(value.replace(/D/gi, 'E')))
+
+  // Directory entries come in pairs; the DE number is the line number of the first line
+  const entries = new Map<number, { type: number; transform: number; status: string; form: number }>()
+  for (let i = 0; i + 1 < directory.length; i += 2) {
+    entries.set(i + 1, {
+      type: parseInt(field(directory[i], 0), 10),
+      transform: parseInt(field(directory[i], 6), 10) || 0,
+      status: field(directory[i], 8).padStart(8, '0'),
+      form: parseInt(field(directory[i + 1], 4), 10) || 0
+    })
+  }
+
+  const transformOf = (de: number, depth = 0): ((p: Vector3) => Vector3) => {
+    const entry = entries.get(de)
+    if (!entry || entry.type !== 124 || depth > 8) return p => p
+    const [, r11, r12, r13, t1, r21, r22, r23, t2, r31, r32, r33, t3] = values(de)
+    const parent = transformOf(entry.transform, depth + 1)
+    return p => parent(new Vector3(
+      r11 * p.x + r12 * p.y + r13 * p.z + t1,
+      r21 * p.x + r22 * p.y + r23 * p.z + t2,
+      r31 * p.x + r32 * p.y + r33 * p.z + t3
+    ))
+  }
+
+  const curves: WireCurve[] = []
+  for (const [de, entry] of entries) {
+    if (entry.status.slice(0, 2) === '01') continue // blanked
+    const v = values(de)
+    const transform = transformOf(entry.transform)
+    let curve: WireCurve | null = null
+
+    if (entry.type === 110) {
+      curve = { points: [new Vector3(v[1], v[2], v[3]), new Vector3(v[4], v[5], v[6])] }
+    } else if (entry.type === 100) {
+      const [, zt, cx, cy, sx, sy, ex, ey] = v
+      const center = new Vector3(cx, cy, zt)
+      const start = new Vector3(sx, sy, zt)
+      const end = new Vector3(ex, ey, zt)
+      if (start.distanceTo(end) > 0) curve = arcBetween(center, new Vector3(0, 0, 1), start, end, true)
+    } else if (entry.type === 106 && [1, 2, 11, 12, 63].includes(entry.form)) {
+      const [, ip, n] = v
+      const points: Vector3[] = []
+      for (let i = 0; i < n; i++) {
+        if (ip === 1) points.push(new Vector3(v[4 + i * 2], v[5 + i * 2], v[3]))
+        else if (ip === 2) points.push(new Vector3(v[3 + i * 3], v[4 + i * 3], v[5 + i * 3]))
+        else points.push(new Vector3(v[3 + i * 6], v[4 + i * 6], v[5 + i * 6]))
+      }
+      if (points.length >= 2) curve = { points }
+    } else if (entry.type === 126) {
+      const [, k, m] = v
+      const knots = v.slice(7, 7 + k + m + 2)
+      const weights = v.slice(8 + k + m, 9 + 2 * k + m)
+      const controlPoints: Vector3[] = []
+      for (let i = 0; i <= k; i++) {
+        const offset = 9 + 2 * k + m + i * 3
+        controlPoints.push(new Vector3(v[offset], v[offset + 1], v[offset + 2]))
+      }
+      const [u0, u1] = v.slice(12 + 5 * k + m, 14 + 5 * k + m)
+      const samples = Math.max(16, (k - m + 1) * NURBS_SAMPLES_PER_SPAN)
+      const points: Vector3[] = []
+      for (let i = 0; i <= samples; i++) {
+        points.push(evaluateNurbs(controlPoints, weights, knots, m, u0 + ((u1 - u0) * i) / samples))
+      }
+      curve = m === 1 && k === 1 ? { points: [points[0], points[points.length - 1]] } : { points }
+    }
+
+    if (curve && curve.points.every(p => isFinite(p.x) && isFinite(p.y) && isFinite(p.z))) {
+      const arc = curve.arc && { ...curve.arc, center: transform(curve.arc.center) }
+      curves.push({ points: curve.points.map(transform), arc })
+    }
+  }
+
+  return curves
+}
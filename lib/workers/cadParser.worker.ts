@@ -0,0 +1,41 @@
+import { parseCADFile } from '@/lib/utils/cadFileParser'
+import { serializeMesh } from '@/lib/utils/parseCache'
+import type { ParserWorkerRequest, ParserWorkerResponse, SerializedMesh } from '@/lib/types/parser'
+
+// Runs occt-import-js tessellation and the geometry analysis off the main thread.
+// The occt WASM instance stays loaded between requests for as long as the worker lives;
+// files parsed before are served from the parse cache without loading it at all.
+
+// The project compiles against the DOM lib, so type the worker scope by hand
+const scope = self as unknown as {
+  postMessage(message: ParserWorkerResponse, transfer: Transferable[]): void
+  onmessage: ((event: MessageEvent<ParserWorkerRequest>) => void) | null
+}
+
+function post(message: ParserWorkerResponse, transfer: Transferable[] = []) {
+  scope.postMessage(message, transfer)
+}
+
+scope.onmessage = async (event: MessageEvent<ParserWorkerRequest>) => {
+  const { id, file, options } = event.data
+
+  try {
+    const parsed = await parseCADFile(file, {
+      ...options,
+      onProgress: progress => post({ type: 'progress', id, progress })
+    })
+
+    const meshes: SerializedMesh[] = parsed.meshes.map(({ geometry }) => serializeMesh(geometry))
+
+    const transfer: Transferable[] = []
+    for (const mesh of meshes) {
+      transfer.push(mesh.position.buffer)
+      if (mesh.normal) transfer.push(mesh.normal.buffer)
+      if (mesh.index) transfer.push(mesh.index.buffer)
+    }
+
+    post({ type: 'result', id, meshes, analysis: parsed.analysis }, transfer)
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : 'Failed to parse CAD file' })
+  }
+}
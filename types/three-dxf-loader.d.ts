@@ -8,14 +8,23 @@ declare module 'three-dxf-loader' {
     [key: string]: any
   }
 
+  export interface DXFBlock {
+    name?: string
+    position?: { x: number; y: number; z?: number } // base point
+    entities?: DXFEntity[]
+    [key: string]: any
+  }
+
   export interface DXFData {
+    header?: Record<string, any>
     entities: DXFEntity[]
+    blocks?: Record<string, DXFBlock>
     [key: string]: any
   }
 
   export class DXFLoader {
     constructor()
-    parse(data: string): DXFData | null
+    parse(data: string): { entity: any; dxf: DXFData } | null
     load(url: string, onLoad: (data: DXFData) => void, onProgress?: (event: ProgressEvent) => void, onError?: (event: ErrorEvent) => void): void
   }
 }
\ No newline at end of file